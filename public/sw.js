@@ -0,0 +1,69 @@
+// Caches the app shell so the app opens without a connection. Data comes from the app's own
+// offline copy in IndexedDB, so requests to Supabase are never cached here.
+const CACHE = "finance-tracker-shell-v2";
+
+const SHELL = ["/", "/manifest.webmanifest", "/icon-192.png", "/icon-512.png", "/apple-touch-icon.png", "/favicon.ico"];
+
+// The built scripts and styles, listed at build time. The dev server has no such list, and a
+// failed download only means that file is cached the next time it is used
+const cacheBuiltAssets = (cache) =>
+  fetch("/precache-manifest.json", { cache: "no-cache" })
+    .then((response) => (response.ok ? response.json() : []))
+    .then((files) => cache.addAll(files))
+    .catch(() => undefined);
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => Promise.all([cache.addAll(SHELL), cacheBuiltAssets(cache)]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = (request, response) => {
+  if (response.ok) {
+    const copy = response.clone();
+    caches.open(CACHE).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  // Every route is the same single-page shell: prefer a fresh one, fall back to the cached copy
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => putInCache("/", response))
+        .catch(() => caches.match("/").then((cached) => cached || Response.error()))
+    );
+    return;
+  }
+
+  // Built assets have content hashes in their names, so a cached copy never goes stale
+  if (url.pathname.startsWith("/assets/")) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached || fetch(request).then((response) => putInCache(request, response)))
+    );
+    return;
+  }
+
+  event.respondWith(
+    fetch(request)
+      .then((response) => putInCache(request, response))
+      .catch(() => caches.match(request).then((cached) => cached || Response.error()))
+  );
+});
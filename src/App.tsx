@@ -2,17 +2,33 @@ import { useEffect, useState } from "react";
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryCache, QueryClient, QueryClientProvider, onlineManager } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Session } from "@supabase/supabase-js";
+import { toast } from "@/hooks/use-toast";
+import { processDueRecurringTransactions } from "@/lib/recurring";
+import { claimDueCreditReminders } from "@/lib/credits";
+import { queryKeys } from "@/lib/queryKeys";
+import { formatMoney } from "@/lib/money";
+import { persistQueryCache, restoreQueryCache } from "@/lib/offlineStore";
+import { replayQueue } from "@/lib/offlineQueue";
+import { invalidateLedger } from "@/hooks/use-transactions";
+import { SyncIndicator } from "@/components/SyncIndicator";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Banks from "./pages/Banks";
 import Transactions from "./pages/Transactions";
+import QuickAdd from "./pages/QuickAdd";
 import Transfers from "./pages/Transfers";
 import Credits from "./pages/Credits";
+import People from "./pages/People";
+import PersonDetail from "./pages/PersonDetail";
+import Recurring from "./pages/Recurring";
+import Categories from "./pages/Categories";
+import Budgets from "./pages/Budgets";
 import Reports from "./pages/Reports";
+import ExchangeRates from "./pages/ExchangeRates";
 import NotFound from "./pages/NotFound";
 
 // Enable dark mode by default
@@ -20,7 +36,30 @@ if (typeof document !== 'undefined') {
   document.documentElement.classList.add('dark');
 }
 
-const queryClient = new QueryClient();
+// Load errors are toasted once here; each query names what failed through meta.errorTitle
+const queryClient = new QueryClient({
+  queryCache: new QueryCache({
+    onError: (error, query) => {
+      toast({
+        variant: "destructive",
+        title: (query.meta?.errorTitle as string) || "Error loading data",
+        description: error.message,
+      });
+    },
+  }),
+  defaultOptions: {
+    queries: {
+      staleTime: 30_000,
+      // Kept for a day so the offline copy has every page the user has visited
+      gcTime: 24 * 60 * 60 * 1000,
+      retry: 1,
+    },
+    mutations: {
+      // Run even without a connection: offline-capable mutations queue themselves, the rest fail visibly
+      networkMode: "always",
+    },
+  },
+});
 
 const App = () => {
   const [session, setSession] = useState<Session | null>(null);
@@ -36,11 +75,97 @@ const App = () => {
       data: { subscription },
     } = supabase.auth.onAuthStateChange((_event, session) => {
       setSession(session);
+      // Don't let the next account see the previous one's cached data
+      if (!session) queryClient.clear();
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
+  const userId = session?.user.id;
+
+  // Load the offline copy of the user's data, keep it saved, and send queued changes once online
+  useEffect(() => {
+    if (!userId) return;
+
+    let stopPersisting: (() => void) | undefined;
+    let cancelled = false;
+    const sync = () =>
+      replayQueue(queryClient, userId).catch((error) => {
+        toast({
+          variant: "destructive",
+          title: "Error syncing offline changes",
+          description: error.message,
+        });
+      });
+
+    restoreQueryCache(queryClient, userId)
+      .catch((error) => console.error("Error loading offline copy:", error))
+      .finally(() => {
+        if (cancelled) return;
+        stopPersisting = persistQueryCache(queryClient, userId);
+        if (onlineManager.isOnline()) sync();
+      });
+    const unsubscribe = onlineManager.subscribe((online) => {
+      if (online) sync();
+    });
+
+    return () => {
+      cancelled = true;
+      stopPersisting?.();
+      unsubscribe();
+    };
+  }, [userId]);
+
+  // Post any scheduled transactions that fell due since the app was last opened
+  useEffect(() => {
+    // Needs the server, so when offline this waits for the next launch
+    if (!userId || !onlineManager.isOnline()) return;
+
+    processDueRecurringTransactions()
+      .then((created) => {
+        if (created > 0) {
+          toast({ title: `Posted ${created} scheduled transactions` });
+          invalidateLedger(queryClient);
+          queryClient.invalidateQueries({ queryKey: queryKeys.recurring });
+        }
+      })
+      .catch((error) => {
+        toast({
+          variant: "destructive",
+          title: "Error processing recurring transactions",
+          description: error.message,
+        });
+      });
+  }, [userId]);
+
+  // Surface credit reminders whose schedule came round since the last visit
+  useEffect(() => {
+    if (!userId || !onlineManager.isOnline()) return;
+
+    claimDueCreditReminders()
+      .then((reminders) => {
+        if (reminders.length === 0) return;
+        toast({
+          title: reminders.length === 1 ? "1 credit reminder" : `${reminders.length} credit reminders`,
+          description: reminders
+            .map((r) =>
+              r.credit_type === "owe_me"
+                ? `${r.person_name} owes ${formatMoney(r.outstanding)} (due ${r.due_date})`
+                : `I owe ${r.person_name} ${formatMoney(r.outstanding)} (due ${r.due_date})`
+            )
+            .join(" · "),
+        });
+      })
+      .catch((error) => {
+        toast({
+          variant: "destructive",
+          title: "Error checking credit reminders",
+          description: error.message,
+        });
+      });
+  }, [userId]);
+
   if (loading) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -54,15 +179,23 @@ const App = () => {
       <TooltipProvider>
         <Toaster />
         <Sonner />
+        {session && <SyncIndicator userId={session.user.id} />}
         <BrowserRouter>
           <Routes>
             <Route path="/auth" element={!session ? <Auth /> : <Navigate to="/" />} />
             <Route path="/" element={session ? <Dashboard /> : <Navigate to="/auth" />} />
             <Route path="/banks" element={session ? <Banks /> : <Navigate to="/auth" />} />
             <Route path="/transactions" element={session ? <Transactions /> : <Navigate to="/auth" />} />
+            <Route path="/transactions/new" element={session ? <QuickAdd /> : <Navigate to="/auth" />} />
             <Route path="/transfers" element={session ? <Transfers /> : <Navigate to="/auth" />} />
             <Route path="/credits" element={session ? <Credits /> : <Navigate to="/auth" />} />
+            <Route path="/people" element={session ? <People /> : <Navigate to="/auth" />} />
+            <Route path="/people/:id" element={session ? <PersonDetail /> : <Navigate to="/auth" />} />
+            <Route path="/recurring" element={session ? <Recurring /> : <Navigate to="/auth" />} />
+            <Route path="/budgets" element={session ? <Budgets /> : <Navigate to="/auth" />} />
+            <Route path="/categories" element={session ? <Categories /> : <Navigate to="/auth" />} />
             <Route path="/reports" element={session ? <Reports /> : <Navigate to="/auth" />} />
+            <Route path="/exchange-rates" element={session ? <ExchangeRates /> : <Navigate to="/auth" />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
@@ -0,0 +1,23 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { CURRENCIES } from "@/lib/currency";
+
+// Picks the currency totals are converted into; the choice is shared by every page on this device
+export const BaseCurrencySelect = () => {
+  const [baseCurrency, setBaseCurrency] = useBaseCurrency();
+
+  return (
+    <Select value={baseCurrency} onValueChange={setBaseCurrency}>
+      <SelectTrigger className="w-32" aria-label="Show totals in">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {CURRENCIES.map((currency) => (
+          <SelectItem key={currency.code} value={currency.code}>
+            {currency.code}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -0,0 +1,29 @@
+import { Progress } from "@/components/ui/progress";
+import { Money } from "@/components/Money";
+import { BudgetStatus } from "@/lib/budgets";
+import { getIconByName } from "@/lib/categories";
+
+interface BudgetProgressProps {
+  status: BudgetStatus;
+}
+
+export const BudgetProgress = ({ status }: BudgetProgressProps) => {
+  const Icon = getIconByName(status.category.icon);
+  const barColor =
+    status.percent >= 100 ? "[&>div]:bg-destructive" : status.percent >= 80 ? "[&>div]:bg-amber-500" : "[&>div]:bg-success";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <div className="flex items-center gap-2">
+          <Icon className="h-4 w-4" style={{ color: status.category.color }} />
+          <span className="font-medium text-foreground">{status.category.name}</span>
+        </div>
+        <span className="text-muted-foreground">
+          <Money amount={status.spent} /> / <Money amount={status.available} />
+        </span>
+      </div>
+      <Progress value={Math.min(status.percent, 100)} className={`h-2 ${barColor}`} />
+    </div>
+  );
+};
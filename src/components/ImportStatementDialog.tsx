@@ -0,0 +1,439 @@
+import { useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Upload } from "lucide-react";
+import { useCategories } from "@/hooks/use-categories";
+import { useBanks } from "@/hooks/use-banks";
+import { useImportTransactions } from "@/hooks/use-transactions";
+import {
+  ColumnMapping,
+  DATE_FORMATS,
+  STATEMENT_FIELDS,
+  StatementField,
+  detectDateFormat,
+  duplicateKey,
+  guessColumnMapping,
+  mapStatementRows,
+  parseCsv,
+} from "@/lib/statementImport";
+import { Money } from "@/components/Money";
+
+type Step = "upload" | "map" | "preview";
+
+const NONE = "none";
+
+const emptyMapping: ColumnMapping = { date: null, description: null, debit: null, credit: null, balance: null };
+
+const ImportStatementDialog = () => {
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>(emptyMapping);
+  const [dateFormat, setDateFormat] = useState(DATE_FORMATS[0]);
+  const [bankId, setBankId] = useState("");
+  const [incomeCategory, setIncomeCategory] = useState("Other Source");
+  const [expenseCategory, setExpenseCategory] = useState("Other");
+  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+  const [checkingDuplicates, setCheckingDuplicates] = useState(false);
+  // Transactions already recorded for the chosen bank over the statement's dates
+  const [existingKeys, setExistingKeys] = useState<Set<string>>(new Set());
+  const { incomeCategories, expenseCategories, getLabel } = useCategories();
+  const { data: banks = [] } = useBanks();
+  const selectedBank = banks.find((b) => b.id === bankId);
+  const importTransactions = useImportTransactions();
+  const { toast } = useToast();
+
+  const statementRows = useMemo(
+    () => mapStatementRows(dataRows, mapping, dateFormat),
+    [dataRows, mapping, dateFormat]
+  );
+
+  const isValidRow = (row: (typeof statementRows)[number]) => row.date !== null && row.type !== null && row.amount > 0;
+
+  const isDuplicate = (row: (typeof statementRows)[number]) =>
+    row.date !== null && existingKeys.has(duplicateKey(bankId, row.date, row.amount));
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setDataRows([]);
+    setMapping(emptyMapping);
+    setDateFormat(DATE_FORMATS[0]);
+    setBankId("");
+    setSelectedRows(new Set());
+    setExistingKeys(new Set());
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const rows = parseCsv(await file.text());
+      if (rows.length < 2) {
+        throw new Error("The file needs a header row and at least one data row");
+      }
+
+      const guessed = guessColumnMapping(rows[0]);
+      setFileName(file.name);
+      setHeaders(rows[0]);
+      setDataRows(rows.slice(1));
+      setMapping(guessed);
+      if (guessed.date !== null) {
+        setDateFormat(detectDateFormat(rows.slice(1).map((r) => r[guessed.date as number])));
+      }
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error reading file",
+        description: error.message,
+      });
+    }
+  };
+
+  const handleMappingChange = (field: StatementField, value: string) => {
+    const column = value === NONE ? null : Number(value);
+    setMapping({ ...mapping, [field]: column });
+    if (field === "date" && column !== null) {
+      setDateFormat(detectDateFormat(dataRows.map((r) => r[column])));
+    }
+  };
+
+  // Only the statement's own date range is checked for duplicates, a page of rows at a time
+  const fetchExistingKeys = async (from: string, to: string) => {
+    const keys = new Set<string>();
+    for (let offset = 0; ; offset += 1000) {
+      const { data, error } = await supabase
+        .from("transactions")
+        .select("bank_id, date, amount")
+        .eq("bank_id", bankId)
+        .gte("date", from)
+        .lte("date", to)
+        .order("id")
+        .range(offset, offset + 999);
+
+      if (error) throw error;
+      (data || []).forEach((t) => keys.add(duplicateKey(t.bank_id, t.date, t.amount)));
+      if (!data || data.length < 1000) return keys;
+    }
+  };
+
+  const goToPreview = async () => {
+    if (mapping.date === null || (mapping.debit === null && mapping.credit === null)) {
+      toast({
+        variant: "destructive",
+        title: "Incomplete mapping",
+        description: "Map the date column and at least one of debit or credit",
+      });
+      return;
+    }
+
+    const dates = statementRows
+      .filter(isValidRow)
+      .map((row) => row.date as string)
+      .sort();
+
+    setCheckingDuplicates(true);
+    try {
+      const keys = dates.length > 0 ? await fetchExistingKeys(dates[0], dates[dates.length - 1]) : new Set<string>();
+      setExistingKeys(keys);
+
+      // Pre-select every valid row that doesn't look like an existing transaction
+      setSelectedRows(
+        new Set(
+          statementRows
+            .filter((row) => isValidRow(row) && !keys.has(duplicateKey(bankId, row.date as string, row.amount)))
+            .map((row) => row.index)
+        )
+      );
+      setStep("preview");
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error checking for duplicates",
+        description: error.message,
+      });
+    } finally {
+      setCheckingDuplicates(false);
+    }
+  };
+
+  const toggleRow = (index: number) => {
+    setSelectedRows((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    const rows = statementRows
+      .filter((row) => selectedRows.has(row.index) && isValidRow(row))
+      .map((row) => ({
+        type: row.type,
+        amount: row.amount,
+        date: row.date,
+        category: row.type === "income" ? incomeCategory : expenseCategory,
+        notes: row.description || null,
+      }));
+
+    if (rows.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "Nothing to import",
+        description: "Select at least one row to import",
+      });
+      return;
+    }
+
+    try {
+      const data = await importTransactions.mutateAsync({ bankId, rows });
+
+      toast({
+        title: "Import successful",
+        description: `Imported ${data} transactions from ${fileName}`,
+      });
+      setOpen(false);
+      reset();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error importing statement",
+        description: error.message,
+      });
+    }
+  };
+
+  const duplicateCount = statementRows.filter((row) => isValidRow(row) && isDuplicate(row)).length;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Upload className="h-4 w-4" />
+          Import CSV
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import Bank Statement</DialogTitle>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="statement">Statement CSV</Label>
+              <input
+                id="statement"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFile}
+                className="block w-full text-sm text-muted-foreground file:mr-4 file:rounded-md file:border-0 file:bg-primary file:px-4 file:py-2 file:text-primary-foreground"
+              />
+              {fileName && (
+                <p className="text-sm text-muted-foreground">
+                  {fileName} • {dataRows.length} rows
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Bank Account</Label>
+              <Select value={bankId} onValueChange={setBankId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select bank" />
+                </SelectTrigger>
+                <SelectContent>
+                  {banks.map((bank) => (
+                    <SelectItem key={bank.id} value={bank.id}>
+                      {bank.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button className="w-full" disabled={!fileName || !bankId} onClick={() => setStep("map")}>
+              Next: Map Columns
+            </Button>
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              {STATEMENT_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="space-y-2">
+                  <Label>
+                    {label}
+                    {required && " *"}
+                  </Label>
+                  <Select
+                    value={mapping[field] === null ? NONE : String(mapping[field])}
+                    onValueChange={(value) => handleMappingChange(field, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Not mapped</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <div className="space-y-2">
+                <Label>Date Format</Label>
+                <Select value={dateFormat} onValueChange={setDateFormat}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_FORMATS.map((f) => (
+                      <SelectItem key={f} value={f}>
+                        {f}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Category for Credits</Label>
+                <Select value={incomeCategory} onValueChange={setIncomeCategory}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {incomeCategories.map((category) => (
+                      <SelectItem key={category.id} value={category.name}>
+                        {getLabel(category)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Category for Debits</Label>
+                <Select value={expenseCategory} onValueChange={setExpenseCategory}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {expenseCategories.map((category) => (
+                      <SelectItem key={category.id} value={category.name}>
+                        {getLabel(category)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              If the statement has a single signed amount column, map it to both debit and credit.
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setStep("upload")}>
+                Back
+              </Button>
+              <Button className="flex-1" disabled={checkingDuplicates} onClick={goToPreview}>
+                {checkingDuplicates ? "Checking for duplicates..." : "Next: Preview"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="secondary">{selectedRows.size} selected</Badge>
+              {duplicateCount > 0 && <Badge variant="destructive">{duplicateCount} likely duplicates</Badge>}
+            </div>
+            <div className="max-h-[50vh] overflow-y-auto rounded-md border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    {mapping.balance !== null && <TableHead className="text-right">Balance</TableHead>}
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statementRows.map((row) => {
+                    const valid = isValidRow(row);
+                    const duplicate = valid && isDuplicate(row);
+                    return (
+                      <TableRow key={row.index} className={valid ? "" : "opacity-50"}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedRows.has(row.index)}
+                            disabled={!valid}
+                            onCheckedChange={() => toggleRow(row.index)}
+                          />
+                        </TableCell>
+                        <TableCell>{row.date ? new Date(row.date).toLocaleDateString() : "Invalid date"}</TableCell>
+                        <TableCell className="max-w-[240px] truncate">{row.description}</TableCell>
+                        <TableCell className="capitalize">{row.type || "-"}</TableCell>
+                        <TableCell className="text-right">
+                          <Money
+                            amount={row.amount}
+                            currency={selectedBank?.currency}
+                            className={row.type === "income" ? "text-success" : "text-expense-light"}
+                          />
+                        </TableCell>
+                        {mapping.balance !== null && (
+                          <TableCell className="text-right">
+                            {row.balance !== null ? <Money amount={row.balance} currency={selectedBank?.currency} /> : "-"}
+                          </TableCell>
+                        )}
+                        <TableCell>
+                          {duplicate && <Badge variant="destructive">Duplicate?</Badge>}
+                          {!valid && <Badge variant="outline">Skipped</Badge>}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setStep("map")}>
+                Back
+              </Button>
+              <Button className="flex-1" disabled={importTransactions.isPending} onClick={handleImport}>
+                {importTransactions.isPending ? "Importing..." : `Import ${selectedRows.size} Transactions`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportStatementDialog;
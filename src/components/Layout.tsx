@@ -3,7 +3,9 @@ import { Link, useLocation, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import { LayoutDashboard, Wallet, ArrowLeftRight, TrendingUp, LogOut, DollarSign, Users } from "lucide-react";
+import { clearQueryCache } from "@/lib/offlineStore";
+import { PendingChanges } from "@/components/PendingChanges";
+import { LayoutDashboard, Wallet, ArrowLeftRight, TrendingUp, LogOut, DollarSign, Users, Repeat, Tags, PiggyBank, Contact, Coins } from "lucide-react";
 
 interface LayoutProps {
   children: ReactNode;
@@ -14,7 +16,10 @@ const Layout = ({ children }: LayoutProps) => {
   const navigate = useNavigate();
 
   const handleSignOut = async () => {
+    // The offline copy goes with the session; queued changes stay until this user signs in again
+    const { data: { session } } = await supabase.auth.getSession();
     await supabase.auth.signOut();
+    if (session) await clearQueryCache(session.user.id).catch(() => undefined);
     navigate("/auth");
   };
 
@@ -24,7 +29,12 @@ const Layout = ({ children }: LayoutProps) => {
     { to: "/transactions", icon: DollarSign, label: "Transactions" },
     { to: "/transfers", icon: ArrowLeftRight, label: "Transfers" },
     { to: "/credits", icon: Users, label: "Credits" },
+    { to: "/people", icon: Contact, label: "People" },
+    { to: "/recurring", icon: Repeat, label: "Recurring" },
+    { to: "/budgets", icon: PiggyBank, label: "Budgets" },
+    { to: "/categories", icon: Tags, label: "Categories" },
     { to: "/reports", icon: TrendingUp, label: "Reports" },
+    { to: "/exchange-rates", icon: Coins, label: "Exchange Rates" },
   ];
 
   return (
@@ -57,7 +67,8 @@ const Layout = ({ children }: LayoutProps) => {
               );
             })}
           </nav>
-          <div className="border-t border-border p-4">
+          <div className="space-y-2 border-t border-border p-4">
+            <PendingChanges />
             <Button onClick={handleSignOut} variant="outline" className="w-full justify-start gap-2">
               <LogOut className="h-5 w-5" />
               Sign Out
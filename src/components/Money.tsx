@@ -0,0 +1,23 @@
+import { cn } from "@/lib/utils";
+import { formatMoney, MoneyFormatOptions } from "@/lib/money";
+
+interface MoneyProps extends MoneyFormatOptions {
+  amount: number | string;
+  className?: string;
+  // Negative amounts show in red unless the surrounding text is already coloured
+  colorNegative?: boolean;
+}
+
+export const Money = ({ amount, className, colorNegative = true, ...options }: MoneyProps) => {
+  const negative = Number(amount) <= -0.005;
+
+  return (
+    <span
+      className={cn("whitespace-nowrap tabular-nums", negative && colorNegative && "text-destructive", className)}
+      // The compact form hides the exact figure, so it is kept for hover
+      title={options.compact ? formatMoney(amount, { ...options, compact: false }) : undefined}
+    >
+      {formatMoney(amount, options)}
+    </span>
+  );
+};
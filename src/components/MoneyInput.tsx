@@ -0,0 +1,88 @@
+import { useEffect, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { currencySymbol, DEFAULT_CURRENCY } from "@/lib/currency";
+import { formatAmountInput, parseMoney } from "@/lib/money";
+
+interface MoneyInputProps extends Omit<React.ComponentProps<"input">, "value" | "onChange" | "type"> {
+  // A plain number string ("120000.5"), or "" while the field is empty or unreadable
+  value: string;
+  onChange: (value: string) => void;
+  currency?: string | null;
+  allowNegative?: boolean;
+}
+
+const validationMessage = (text: string, amount: number | null, allowNegative: boolean) => {
+  if (!text.trim()) return "";
+  if (amount === null) return "Enter an amount like 1,20,000.50";
+  if (!allowNegative && amount < 0) return "Enter an amount of zero or more";
+  if (/\.\d{3,}$/.test(text.trim())) return "Use at most two decimal places";
+  return "";
+};
+
+const toText = (plain: string, currency?: string | null) =>
+  plain === "" || isNaN(Number(plain)) ? plain : formatAmountInput(Number(plain), currency);
+
+// Accepts amounts typed or pasted with grouping and a symbol ("₹1,20,000.50") and hands the form a plain
+// number string, so forms keep using parseFloat. The digits are grouped once the field loses focus
+export const MoneyInput = ({
+  value,
+  onChange,
+  currency,
+  allowNegative = false,
+  className,
+  onBlur,
+  ...props
+}: MoneyInputProps) => {
+  const [text, setText] = useState(() => toText(value, currency));
+  const input = useRef<HTMLInputElement>(null);
+  // What this field last handed the form, to tell its own updates from the form's
+  const emitted = useRef(value);
+  const symbol = currencySymbol(currency || DEFAULT_CURRENCY);
+
+  // Follow values set by the form (a reset, an edit being opened) without rewriting what is being typed
+  useEffect(() => {
+    if (value === emitted.current) return;
+    emitted.current = value;
+    setText(toText(value, currency));
+    input.current?.setCustomValidity("");
+  }, [value, currency]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const next = e.target.value;
+    const amount = parseMoney(next);
+    const message = validationMessage(next, amount, allowNegative);
+
+    e.target.setCustomValidity(message);
+    setText(next);
+    emitted.current = amount === null || message ? "" : String(amount);
+    onChange(emitted.current);
+  };
+
+  const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    const amount = parseMoney(text);
+    if (amount !== null && !validationMessage(text, amount, allowNegative)) {
+      setText(formatAmountInput(amount, currency));
+    }
+    onBlur?.(e);
+  };
+
+  return (
+    <div className="relative">
+      <span className="pointer-events-none absolute inset-y-0 left-3 flex items-center text-sm text-muted-foreground">
+        {symbol}
+      </span>
+      <Input
+        {...props}
+        ref={input}
+        type="text"
+        inputMode="decimal"
+        autoComplete="off"
+        className={cn(symbol.length > 1 ? "pl-12" : "pl-7", className)}
+        value={text}
+        onChange={handleChange}
+        onBlur={handleBlur}
+      />
+    </div>
+  );
+};
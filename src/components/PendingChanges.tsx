@@ -0,0 +1,114 @@
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, CloudOff, RefreshCw, UploadCloud } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useToast } from "@/hooks/use-toast";
+import { usePendingChanges } from "@/hooks/use-pending-changes";
+import { QueuedMutation, discardQueued, retryQueued } from "@/lib/offlineQueue";
+import { cn } from "@/lib/utils";
+
+const STATUS_LABELS: Record<QueuedMutation["status"], string> = {
+  pending: "Waiting",
+  conflict: "Conflict",
+  failed: "Failed",
+};
+
+// Sidebar indicator for changes made offline that haven't reached the server yet
+export const PendingChanges = () => {
+  const { items, online, syncing, sync } = usePendingChanges();
+  const { toast } = useToast();
+
+  if (online && items.length === 0) return null;
+
+  const needsAttention = items.filter((item) => item.status !== "pending").length;
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      await sync();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error syncing offline changes",
+        description: error.message,
+      });
+    }
+  };
+
+  const Icon = syncing ? RefreshCw : !online ? CloudOff : needsAttention > 0 ? AlertTriangle : UploadCloud;
+  const summary = syncing
+    ? "Syncing..."
+    : !online
+      ? items.length > 0
+        ? `Offline · ${items.length} pending`
+        : "Offline"
+      : needsAttention > 0
+        ? `${needsAttention} ${needsAttention === 1 ? "change needs" : "changes need"} attention`
+        : `${items.length} ${items.length === 1 ? "change" : "changes"} pending`;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" className="w-full justify-start gap-2 text-muted-foreground">
+          <Icon
+            className={cn("h-5 w-5", syncing && "animate-spin", needsAttention > 0 && !syncing && "text-destructive")}
+          />
+          {summary}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="right" align="end" className="w-80">
+        <div className="space-y-3">
+          <div>
+            <p className="font-medium">Pending changes</p>
+            <p className="text-xs text-muted-foreground">
+              {online
+                ? "Changes saved while offline are sent in the order they were made."
+                : "You're offline. New changes are saved here and sent when you reconnect."}
+            </p>
+          </div>
+          {items.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing waiting to sync.</p>
+          ) : (
+            <div className="max-h-72 space-y-2 overflow-y-auto">
+              {items.map((item) => (
+                <div key={item.id} className="rounded-lg border border-border p-2 text-sm">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium">{item.label}</p>
+                      <p className="text-xs text-muted-foreground">{format(parseISO(item.queuedAt), "MMM d, HH:mm")}</p>
+                    </div>
+                    <Badge variant={item.status === "pending" ? "secondary" : "destructive"}>
+                      {STATUS_LABELS[item.status]}
+                    </Badge>
+                  </div>
+                  {item.error && <p className="mt-1 text-xs text-destructive">{item.error}</p>}
+                  {item.status !== "pending" && (
+                    <div className="mt-2 flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!online || syncing}
+                        onClick={() => run(() => retryQueued(item, item.status === "conflict"))}
+                      >
+                        {item.status === "conflict" ? "Keep mine" : "Retry"}
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => run(() => discardQueued(item))}>
+                        Discard
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+          {online && items.some((item) => item.status === "pending") && (
+            <Button size="sm" className="w-full" disabled={syncing} onClick={() => run(() => Promise.resolve())}>
+              Sync now
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
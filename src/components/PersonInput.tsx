@@ -0,0 +1,42 @@
+import { useId } from "react";
+import { Input } from "@/components/ui/input";
+import { usePeople } from "@/hooks/use-people";
+
+interface PersonInputProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  required?: boolean;
+}
+
+// Free-text name input that suggests people from the directory. Names that match an alias
+// are shown with the person they will be saved under.
+export const PersonInput = ({ id, value, onChange, placeholder, required }: PersonInputProps) => {
+  const listId = useId();
+  const { people, findPerson } = usePeople();
+  const match = findPerson(value);
+  const resolvesToOther = !!match && match.name.toLowerCase() !== value.trim().toLowerCase();
+
+  return (
+    <div className="space-y-1">
+      <Input
+        id={id}
+        list={listId}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        autoComplete="off"
+        required={required}
+      />
+      <datalist id={listId}>
+        {people.map((person) => (
+          <option key={person.id} value={person.name}>
+            {person.aliases.length > 0 ? person.aliases.join(", ") : undefined}
+          </option>
+        ))}
+      </datalist>
+      {resolvesToOther && <p className="text-xs text-muted-foreground">Will be saved as {match.name}</p>}
+    </div>
+  );
+};
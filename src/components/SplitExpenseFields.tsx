@@ -0,0 +1,117 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PersonInput } from "@/components/PersonInput";
+import { Money } from "@/components/Money";
+import { MoneyInput } from "@/components/MoneyInput";
+import { Plus, X } from "lucide-react";
+import { SPLIT_MODES, SplitMode, SplitParticipant, calculateSplit } from "@/lib/splits";
+
+interface SplitExpenseFieldsProps {
+  total: number;
+  currency?: string | null;
+  mode: SplitMode;
+  participants: SplitParticipant[];
+  onModeChange: (mode: SplitMode) => void;
+  onParticipantsChange: (participants: SplitParticipant[]) => void;
+}
+
+export const SplitExpenseFields = ({
+  total,
+  currency,
+  mode,
+  participants,
+  onModeChange,
+  onParticipantsChange,
+}: SplitExpenseFieldsProps) => {
+  const split = calculateSplit(total, mode, participants);
+
+  const updateParticipant = (index: number, changes: Partial<SplitParticipant>) =>
+    onParticipantsChange(participants.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+
+  return (
+    <div className="space-y-3 rounded-md border border-border p-3">
+      <div className="space-y-2">
+        <Label>Split</Label>
+        <Select value={mode} onValueChange={(value: SplitMode) => onModeChange(value)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SPLIT_MODES.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {participants.map((participant, index) => (
+        <div key={index} className="flex items-start gap-2">
+          <div className="flex-1">
+            <PersonInput
+              value={participant.person_name}
+              onChange={(value) => updateParticipant(index, { person_name: value })}
+              placeholder="Person"
+              required
+            />
+          </div>
+          {mode === "equal" ? (
+            <span className="w-28 h-10 flex items-center justify-end text-sm text-muted-foreground">
+              <Money amount={split.shares[index]?.amount ?? 0} currency={currency} />
+            </span>
+          ) : mode === "percentage" ? (
+            <Input
+              type="number"
+              step="1"
+              min="0"
+              className="w-28"
+              value={participant.value}
+              onChange={(e) => updateParticipant(index, { value: e.target.value })}
+              placeholder="%"
+              required
+            />
+          ) : (
+            <MoneyInput
+              className="w-28"
+              currency={currency}
+              value={participant.value}
+              onChange={(value) => updateParticipant(index, { value })}
+              placeholder="Amount"
+              required
+            />
+          )}
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            onClick={() => onParticipantsChange(participants.filter((_, i) => i !== index))}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onParticipantsChange([...participants, { person_name: "", value: "" }])}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add Person
+      </Button>
+
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">My share (recorded as the expense)</span>
+        <Money amount={split.ownShare} currency={currency} className="font-medium text-foreground" />
+      </div>
+      {split.error && participants.length > 0 && <p className="text-xs text-destructive">{split.error}</p>}
+      <p className="text-xs text-muted-foreground">
+        Everyone else's share is added to Credits as money they owe me.
+      </p>
+    </div>
+  );
+};
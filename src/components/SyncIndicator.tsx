@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import { RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useRealtimeSync } from "@/hooks/use-realtime-sync";
+
+// How long the notice stays up after the last change from another device
+const VISIBLE_MS = 4000;
+
+interface SyncIndicatorProps {
+  userId: string;
+}
+
+// Keeps data live across devices and briefly notes when another one changed something
+export const SyncIndicator = ({ userId }: SyncIndicatorProps) => {
+  const remoteChangeAt = useRealtimeSync(userId);
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    if (!remoteChangeAt) return;
+
+    setVisible(true);
+    const timer = setTimeout(() => setVisible(false), VISIBLE_MS);
+    return () => clearTimeout(timer);
+  }, [remoteChangeAt]);
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className={cn(
+        "pointer-events-none fixed bottom-4 right-4 z-50 flex items-center gap-2 rounded-full border border-border bg-card px-3 py-1.5 text-xs text-muted-foreground shadow-card transition-opacity duration-300",
+        visible ? "opacity-100" : "opacity-0"
+      )}
+    >
+      <RefreshCw className="h-3 w-3 text-primary" />
+      Updated from another device
+    </div>
+  );
+};
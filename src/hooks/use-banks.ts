@@ -0,0 +1,168 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/queryKeys";
+import { AccountType, CardStatement } from "@/lib/accounts";
+
+export interface AccountDetails {
+  account_type: AccountType;
+  institution: string | null;
+  account_number_last4: string | null;
+  credit_limit: number | null;
+  statement_day: number | null;
+  payment_due_days: number | null;
+  interest_rate: number | null;
+}
+
+export interface Bank extends AccountDetails {
+  id: string;
+  name: string;
+  balance: number;
+  opening_balance: number;
+  color: string;
+  currency: string;
+}
+
+export interface BankInput extends AccountDetails {
+  id?: string;
+  name: string;
+  opening_balance: number;
+  color: string;
+  currency: string;
+}
+
+export interface LedgerBalance {
+  bank_id: string;
+  name: string;
+  stored_balance: number;
+  computed_balance: number;
+  difference: number;
+}
+
+export function useBanks() {
+  return useQuery({
+    queryKey: queryKeys.banks,
+    queryFn: async (): Promise<Bank[]> => {
+      const { data, error } = await supabase
+        .from("banks")
+        .select(
+          "id, name, balance, opening_balance, color, currency, account_type, institution, account_number_last4, credit_limit, statement_day, payment_due_days, interest_rate"
+        )
+        .order("created_at");
+
+      if (error) throw error;
+      return (data || []) as Bank[];
+    },
+    meta: { errorTitle: "Error loading banks" },
+  });
+}
+
+export function useLedgerBalances(enabled: boolean) {
+  return useQuery({
+    queryKey: queryKeys.ledgerBalances,
+    queryFn: async (): Promise<LedgerBalance[]> => {
+      const { data, error } = await supabase
+        .from("bank_ledger_balances")
+        .select("bank_id, name, stored_balance, computed_balance, difference")
+        .order("name");
+
+      if (error) throw error;
+      return (data || []) as LedgerBalance[];
+    },
+    enabled,
+    // Always recheck when the reconcile dialog opens
+    staleTime: 0,
+    meta: { errorTitle: "Error loading ledger balances" },
+  });
+}
+
+// The latest statement of every credit card with a statement day. Lives under "banks" so anything
+// that moves a balance refreshes it too
+export function useCardStatements() {
+  return useQuery({
+    queryKey: queryKeys.cardStatements,
+    queryFn: async (): Promise<CardStatement[]> => {
+      const { data, error } = await supabase.rpc("card_statements", {
+        p_as_of: format(new Date(), "yyyy-MM-dd"),
+      });
+
+      if (error) throw error;
+      return data || [];
+    },
+    meta: { errorTitle: "Error loading card statements" },
+  });
+}
+
+export function useSaveBank() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...bank }: BankInput) => {
+      if (id) {
+        // Changing the opening balance shifts the stored balance by the same delta (DB trigger)
+        const { error } = await supabase.from("banks").update(bank).eq("id", id);
+
+        if (error) throw error;
+        return;
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { error } = await supabase.from("banks").insert({
+        ...bank,
+        user_id: user.id,
+        balance: bank.opening_balance,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.banks }),
+  });
+}
+
+export function useDeleteBank() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("banks").delete().eq("id", id);
+
+      if (error) throw error;
+    },
+    // The account disappears straight away and comes back if the delete fails
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.banks });
+      const previous = queryClient.getQueryData<Bank[]>(queryKeys.banks);
+      queryClient.setQueryData<Bank[]>(queryKeys.banks, (banks) => banks?.filter((b) => b.id !== id));
+      return { previous };
+    },
+    onError: (_error, _id, context) => {
+      queryClient.setQueryData(queryKeys.banks, context?.previous);
+    },
+    // Deleting an account cascades to its transactions and transfers
+    onSettled: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.banks }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.transactions.all }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.transfers }),
+      ]),
+  });
+}
+
+export function useReconcileBank() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ bankId, keepStored }: { bankId: string; keepStored: boolean }) => {
+      const { error } = await supabase.rpc("reconcile_bank_balance", {
+        p_bank_id: bankId,
+        p_keep_stored: keepStored,
+      });
+
+      if (error) throw error;
+    },
+    // Also refreshes the ledger balances, which share the "banks" prefix
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.banks }),
+  });
+}
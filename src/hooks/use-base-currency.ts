@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from "react";
+import { getBaseCurrency, setBaseCurrency } from "@/lib/currency";
+
+const CHANGE_EVENT = "base-currency-change";
+
+// The currency Dashboard and Reports convert totals into, shared between pages on this device
+export function useBaseCurrency() {
+  const [baseCurrency, setState] = useState(getBaseCurrency);
+
+  useEffect(() => {
+    const sync = () => setState(getBaseCurrency());
+    window.addEventListener(CHANGE_EVENT, sync);
+    window.addEventListener("storage", sync);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, sync);
+      window.removeEventListener("storage", sync);
+    };
+  }, []);
+
+  const change = useCallback((code: string) => {
+    setBaseCurrency(code);
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  }, []);
+
+  return [baseCurrency, change] as const;
+}
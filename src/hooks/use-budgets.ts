@@ -0,0 +1,87 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/queryKeys";
+import { Budget, fetchBudgetExpenses, fetchBudgets } from "@/lib/budgets";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+
+export interface BudgetInput {
+  id?: string;
+  category_id: string;
+  amount: number;
+  month: string;
+  is_recurring: boolean;
+  rollover: boolean;
+}
+
+export function useBudgets() {
+  return useQuery({
+    queryKey: queryKeys.budgets,
+    queryFn: fetchBudgets,
+    meta: { errorTitle: "Error loading budgets" },
+  });
+}
+
+// Spending only depends on where the earliest budget starts and the currency it is counted in,
+// so that's all the key needs
+export function useBudgetExpenses(budgets: Budget[] | undefined) {
+  const fromMonth = budgets?.[0]?.month ?? null;
+  const [baseCurrency] = useBaseCurrency();
+
+  return useQuery({
+    queryKey: queryKeys.transactions.budgetExpenses(fromMonth, baseCurrency),
+    queryFn: () => fetchBudgetExpenses(budgets || [], baseCurrency),
+    enabled: budgets !== undefined,
+    meta: { errorTitle: "Error loading budget spending" },
+  });
+}
+
+export function useSaveBudget() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...budget }: BudgetInput) => {
+      if (id) {
+        const { error } = await supabase
+          .from("budgets")
+          .update({ amount: budget.amount, rollover: budget.rollover })
+          .eq("id", id);
+
+        if (error) throw error;
+        return;
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      // A recurring budget starting this month replaces any other one that starts in the same month
+      const { error } = await supabase
+        .from("budgets")
+        .upsert({ ...budget, user_id: user.id }, { onConflict: "user_id,category_id,month,is_recurring" });
+
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.budgets }),
+  });
+}
+
+export function useDeleteBudget() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("budgets").delete().eq("id", id);
+
+      if (error) throw error;
+    },
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.budgets });
+      const previous = queryClient.getQueryData<Budget[]>(queryKeys.budgets);
+      queryClient.setQueryData<Budget[]>(queryKeys.budgets, (budgets) => budgets?.filter((b) => b.id !== id));
+      return { previous };
+    },
+    onError: (_error, _id, context) => {
+      queryClient.setQueryData(queryKeys.budgets, context?.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.budgets }),
+  });
+}
@@ -0,0 +1,75 @@
+import { useCallback, useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Category, CategoryType, getCategoryIcon, getCategoryLabel, hasSubCategories } from "@/lib/categories";
+import { queryKeys } from "@/lib/queryKeys";
+
+const NO_CATEGORIES: Category[] = [];
+
+export function useCategories() {
+  const queryClient = useQueryClient();
+  const { data: categories = NO_CATEGORIES, isPending: loading } = useQuery({
+    queryKey: queryKeys.categories,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("categories")
+        .select("id, name, type, icon, color, is_archived, parent_id")
+        .order("name");
+
+      if (error) throw error;
+      return (data || []) as Category[];
+    },
+    meta: { errorTitle: "Error loading categories" },
+  });
+
+  // Renaming or merging categories rewrites the category on transactions and recurring rules too
+  const refresh = useCallback(
+    () =>
+      Promise.all(
+        [queryKeys.categories, queryKeys.transactions.all, queryKeys.recurring].map((queryKey) =>
+          queryClient.invalidateQueries({ queryKey })
+        )
+      ),
+    [queryClient]
+  );
+
+  // Transactions are always filed under a leaf, so parents with sub-categories are never offered
+  const isSelectable = useCallback(
+    (category: Category) => !category.is_archived && !hasSubCategories(category, categories),
+    [categories]
+  );
+
+  const incomeCategories = useMemo(
+    () => categories.filter((c) => c.type === "income" && isSelectable(c)),
+    [categories, isSelectable]
+  );
+  const expenseCategories = useMemo(
+    () => categories.filter((c) => c.type === "expense" && isSelectable(c)),
+    [categories, isSelectable]
+  );
+
+  const getLabel = useCallback((category: Category) => getCategoryLabel(category, categories), [categories]);
+
+  // Selectable categories of a type, plus the currently selected one even if it no longer is,
+  // ordered so sub-categories sit with their parent
+  const optionsFor = useCallback(
+    (type: CategoryType, selected?: string) =>
+      categories
+        .filter((c) => c.type === type && (isSelectable(c) || c.name === selected))
+        .sort((a, b) => getLabel(a).localeCompare(getLabel(b))),
+    [categories, isSelectable, getLabel]
+  );
+
+  const getIcon = useCallback((categoryName: string) => getCategoryIcon(categoryName, categories), [categories]);
+
+  return {
+    categories,
+    incomeCategories,
+    expenseCategories,
+    loading,
+    optionsFor,
+    getIcon,
+    getLabel,
+    refresh,
+  };
+}
@@ -0,0 +1,249 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { offlineMutation } from "@/lib/offlineQueue";
+import { queryKeys } from "@/lib/queryKeys";
+import { formatMoney } from "@/lib/money";
+import { CreditPayment, CreditType } from "@/lib/credits";
+import { invalidateLedger } from "@/hooks/use-transactions";
+
+export interface Credit {
+  id: string;
+  person_name: string;
+  amount: number;
+  type: CreditType;
+  description: string;
+  date: string;
+  due_date: string | null;
+  remind_days_before: number | null;
+  remind_every_days: number | null;
+  updated_at: string;
+}
+
+// Bank transactions created from a credit (credit_payment_id is null) or one of its repayments
+export interface LinkedTransaction {
+  id: string;
+  bank_id: string;
+  credit_id: string;
+  credit_payment_id: string | null;
+}
+
+export interface CreditInput {
+  id?: string;
+  person_name: string;
+  amount: number;
+  type: CreditType;
+  description: string;
+  date: string;
+  bank_id: string | null;
+  due_date: string | null;
+  remind_days_before: number | null;
+  remind_every_days: number | null;
+  // A new due date restarts the reminder schedule
+  reset_reminders: boolean;
+}
+
+export interface CreditPaymentInput {
+  credit_id: string;
+  amount: number;
+  date: string;
+  note: string | null;
+  bank_id: string | null;
+}
+
+const describeCredit = (credit: Pick<Credit, "type" | "person_name" | "amount">) =>
+  `${credit.type === "owe_me" ? "Lent to" : "Borrowed from"} ${credit.person_name} ${formatMoney(credit.amount)}`;
+
+// With a bank, the RPC also records the money leaving or entering that account
+const saveCredit = offlineMutation("saveCredit", async (credit: CreditInput) => {
+  const { data: creditId, error } = await supabase.rpc("save_credit", {
+    p_id: credit.id,
+    p_person_name: credit.person_name,
+    p_amount: credit.amount,
+    p_type: credit.type,
+    p_description: credit.description,
+    p_date: credit.date,
+    p_bank_id: credit.bank_id ?? undefined,
+  });
+
+  if (error) throw error;
+
+  const { error: scheduleError } = await supabase
+    .from("credits")
+    .update({
+      due_date: credit.due_date,
+      remind_days_before: credit.remind_days_before,
+      remind_every_days: credit.remind_every_days,
+      ...(credit.reset_reminders && { last_reminded_on: null }),
+    })
+    .eq("id", creditId);
+
+  if (scheduleError) throw scheduleError;
+  return creditId;
+});
+
+const deleteCredit = offlineMutation(
+  "deleteCredit",
+  async ({ id, reverseTransactions }: { id: string; reverseTransactions: boolean }) => {
+    const { error } = await supabase.rpc("delete_credit", {
+      p_id: id,
+      p_reverse_transactions: reverseTransactions,
+    });
+
+    if (error) throw error;
+  }
+);
+
+// The RPC refuses payments beyond the outstanding balance
+const recordCreditPayment = offlineMutation("recordCreditPayment", async (payment: CreditPaymentInput) => {
+  const { error } = await supabase.rpc("record_credit_payment", {
+    p_credit_id: payment.credit_id,
+    p_amount: payment.amount,
+    p_date: payment.date,
+    p_note: payment.note,
+    p_bank_id: payment.bank_id ?? undefined,
+  });
+
+  if (error) throw error;
+});
+
+const deleteCreditPayment = offlineMutation(
+  "deleteCreditPayment",
+  async ({ id, reverseTransaction }: { id: string; reverseTransaction: boolean }) => {
+    const { error } = await supabase.rpc("delete_credit_payment", {
+      p_id: id,
+      p_reverse_transaction: reverseTransaction,
+    });
+
+    if (error) throw error;
+  }
+);
+
+export function useCredits() {
+  return useQuery({
+    queryKey: queryKeys.credits.list,
+    queryFn: async () => {
+      const { data, error } = await supabase.from("credits").select("*").order("date", { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as Credit[];
+    },
+    meta: { errorTitle: "Error loading credits" },
+  });
+}
+
+export function useCreditPayments() {
+  return useQuery({
+    queryKey: queryKeys.credits.payments,
+    queryFn: async (): Promise<CreditPayment[]> => {
+      const { data, error } = await supabase
+        .from("credit_payments")
+        .select("id, credit_id, amount, date, note")
+        .order("date", { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+    meta: { errorTitle: "Error loading credit payments" },
+  });
+}
+
+export function useCreditLinks() {
+  return useQuery({
+    queryKey: queryKeys.transactions.creditLinks,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("transactions")
+        .select("id, bank_id, credit_id, credit_payment_id")
+        .not("credit_id", "is", null);
+
+      if (error) throw error;
+      return (data || []) as LinkedTransaction[];
+    },
+    meta: { errorTitle: "Error loading linked transactions" },
+  });
+}
+
+export function useSaveCredit() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (credit: CreditInput) => {
+      const existing = queryClient.getQueryData<Credit[]>(queryKeys.credits.list)?.find((c) => c.id === credit.id);
+      return saveCredit(credit, {
+        label: describeCredit(credit),
+        target: credit.id ? { table: "credits", id: credit.id, updatedAt: existing?.updated_at ?? null } : null,
+      });
+    },
+    onSuccess: () => invalidateLedger(queryClient),
+  });
+}
+
+export function useDeleteCredit() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ credit, reverseTransactions }: { credit: Credit; reverseTransactions: boolean }) =>
+      deleteCredit(
+        { id: credit.id, reverseTransactions },
+        {
+          label: `Delete ${describeCredit(credit)}`,
+          target: { table: "credits", id: credit.id, updatedAt: credit.updated_at },
+        }
+      ),
+    onMutate: async ({ credit }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.credits.list });
+      const previous = queryClient.getQueryData<Credit[]>(queryKeys.credits.list);
+      queryClient.setQueryData<Credit[]>(queryKeys.credits.list, (credits) =>
+        credits?.filter((c) => c.id !== credit.id)
+      );
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(queryKeys.credits.list, context?.previous);
+    },
+    onSettled: () => invalidateLedger(queryClient),
+  });
+}
+
+export function useRecordCreditPayment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (payment: CreditPaymentInput) => {
+      const credit = queryClient.getQueryData<Credit[]>(queryKeys.credits.list)?.find((c) => c.id === payment.credit_id);
+      return recordCreditPayment(payment, {
+        label: `Payment ${formatMoney(payment.amount)}${credit ? ` · ${credit.person_name}` : ""}`,
+        // A payment made offline against a credit deleted elsewhere must not go through
+        target: { table: "credits", id: payment.credit_id, updatedAt: null },
+      });
+    },
+    onSuccess: () => invalidateLedger(queryClient),
+  });
+}
+
+export function useDeleteCreditPayment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ payment, reverseTransaction }: { payment: CreditPayment; reverseTransaction: boolean }) =>
+      deleteCreditPayment(
+        { id: payment.id, reverseTransaction },
+        {
+          label: `Delete payment ${formatMoney(payment.amount)}`,
+          target: { table: "credit_payments", id: payment.id, updatedAt: null },
+        }
+      ),
+    onMutate: async ({ payment }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.credits.payments });
+      const previous = queryClient.getQueryData<CreditPayment[]>(queryKeys.credits.payments);
+      queryClient.setQueryData<CreditPayment[]>(queryKeys.credits.payments, (payments) =>
+        payments?.filter((p) => p.id !== payment.id)
+      );
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(queryKeys.credits.payments, context?.previous);
+    },
+    onSettled: () => invalidateLedger(queryClient),
+  });
+}
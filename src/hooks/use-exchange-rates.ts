@@ -0,0 +1,75 @@
+import { QueryClient, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { ExchangeRate, ExchangeRateInput } from "@/lib/currency";
+import { queryKeys } from "@/lib/queryKeys";
+
+export function useExchangeRates() {
+  return useQuery({
+    queryKey: queryKeys.exchangeRates,
+    queryFn: async (): Promise<ExchangeRate[]> => {
+      const { data, error } = await supabase
+        .from("exchange_rates")
+        .select("id, from_currency, to_currency, rate, date")
+        .order("date", { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    meta: { errorTitle: "Error loading exchange rates" },
+  });
+}
+
+// Converted totals depend on the rates, so they are refetched with them
+const invalidateRates = (queryClient: QueryClient) =>
+  Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.exchangeRates }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.transactions.all }),
+  ]);
+
+// Saving a second rate for the same pair and day replaces the first
+export function useSaveExchangeRates() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (rates: ExchangeRateInput[]) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { error } = await supabase
+        .from("exchange_rates")
+        .upsert(
+          rates.map((rate) => ({ ...rate, user_id: user.id })),
+          { onConflict: "user_id,from_currency,to_currency,date" }
+        );
+
+      if (error) throw error;
+    },
+    onSuccess: () => invalidateRates(queryClient),
+  });
+}
+
+export function useUpdateExchangeRate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...rate }: ExchangeRateInput & { id: string }) => {
+      const { error } = await supabase.from("exchange_rates").update(rate).eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => invalidateRates(queryClient),
+  });
+}
+
+export function useDeleteExchangeRate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("exchange_rates").delete().eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => invalidateRates(queryClient),
+  });
+}
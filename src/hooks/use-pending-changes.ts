@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from "react";
+import { onlineManager, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { QueuedMutation, getQueue, isReplaying, replayQueue, subscribeToQueue } from "@/lib/offlineQueue";
+
+// The signed-in user's queued changes and connection state, for the pending changes indicator
+export function usePendingChanges() {
+  const queryClient = useQueryClient();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [items, setItems] = useState<QueuedMutation[]>([]);
+  const [online, setOnline] = useState(onlineManager.isOnline());
+  const [syncing, setSyncing] = useState(isReplaying());
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => setUserId(session?.user.id ?? null));
+    return onlineManager.subscribe(setOnline);
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const load = () => {
+      setSyncing(isReplaying());
+      getQueue(userId)
+        .then(setItems)
+        .catch((error) => console.error("Error loading pending changes:", error));
+    };
+
+    load();
+    return subscribeToQueue(load);
+  }, [userId]);
+
+  const sync = useCallback(() => (userId ? replayQueue(queryClient, userId) : Promise.resolve(0)), [queryClient, userId]);
+
+  return { items, online, syncing, sync };
+}
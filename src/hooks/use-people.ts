@@ -0,0 +1,121 @@
+import { useCallback } from "react";
+import { QueryClient, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Person, findPerson } from "@/lib/people";
+import { queryKeys } from "@/lib/queryKeys";
+
+const NO_PEOPLE: Person[] = [];
+
+export interface PersonInput {
+  id?: string;
+  // The name the person is currently saved under, when editing
+  previousName?: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  notes: string | null;
+  aliases: string[];
+}
+
+export function usePeople() {
+  const queryClient = useQueryClient();
+  const { data: people = NO_PEOPLE, isPending: loading } = useQuery({
+    queryKey: queryKeys.people.all,
+    queryFn: async (): Promise<Person[]> => {
+      const { data, error } = await supabase
+        .from("people")
+        .select("id, name, phone, email, notes, aliases")
+        .order("name");
+
+      if (error) throw error;
+      return data || [];
+    },
+    meta: { errorTitle: "Error loading people" },
+  });
+
+  const refresh = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: queryKeys.people.all }),
+    [queryClient]
+  );
+
+  const find = useCallback((name: string) => findPerson(name, people), [people]);
+
+  return {
+    people,
+    loading,
+    findPerson: find,
+    refresh,
+  };
+}
+
+export function usePerson(id: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.people.detail(id || ""),
+    queryFn: async (): Promise<Person | null> => {
+      const { data, error } = await supabase
+        .from("people")
+        .select("id, name, phone, email, notes, aliases")
+        .eq("id", id!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+    meta: { errorTitle: "Error loading person" },
+  });
+}
+
+// Renames and merges rewrite the names on credits and transactions, so those are refetched too
+const invalidatePeople = (queryClient: QueryClient) =>
+  Promise.all(
+    [queryKeys.people.all, queryKeys.credits.all, queryKeys.transactions.all].map((queryKey) =>
+      queryClient.invalidateQueries({ queryKey })
+    )
+  );
+
+export function useSavePerson() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, previousName, name, ...details }: PersonInput) => {
+      if (id) {
+        // Renaming rewrites every credit and transaction under the old name, so it goes through the RPC
+        if (name.trim() !== previousName) {
+          const { error: renameError } = await supabase.rpc("rename_person", { p_id: id, p_name: name });
+
+          if (renameError) throw renameError;
+        }
+
+        const { error } = await supabase.from("people").update(details).eq("id", id);
+
+        if (error) throw error;
+        return;
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { error } = await supabase.from("people").insert({ ...details, user_id: user.id, name: name.trim() });
+
+      if (error) throw error;
+    },
+    onSuccess: () => invalidatePeople(queryClient),
+  });
+}
+
+export function useMergePeople() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ sourceId, targetId }: { sourceId: string; targetId: string }) => {
+      const { error } = await supabase.rpc("merge_people", {
+        p_source_id: sourceId,
+        p_target_id: targetId,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => invalidatePeople(queryClient),
+  });
+}
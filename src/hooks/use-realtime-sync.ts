@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { InvalidateQueryFilters, useQueryClient } from "@tanstack/react-query";
+import { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { CreditPayment } from "@/lib/credits";
+import { queryKeys } from "@/lib/queryKeys";
+import { Transaction } from "@/lib/transactions";
+import { Bank } from "@/hooks/use-banks";
+import { Credit } from "@/hooks/use-credits";
+import { Transfer } from "@/hooks/use-transfers";
+import { setCachedLists } from "@/hooks/use-transactions";
+
+// A change arriving this soon after one of our own writes is taken to be its echo
+const OWN_WRITE_WINDOW_MS = 5000;
+
+// Bursts of changes, like a statement import, are folded into one refetch
+const REFETCH_DELAY_MS = 300;
+
+// Applies an inserted, updated or deleted row to a cached list of rows
+const applyChange = <T extends { id: string }>(
+  rows: T[] | undefined,
+  payload: RealtimePostgresChangesPayload<T>,
+  insert: "first" | "last"
+) => {
+  if (!rows) return rows;
+  if (payload.eventType === "DELETE") return rows.filter((row) => row.id !== payload.old.id);
+
+  const changed = payload.new;
+  if (rows.some((row) => row.id === changed.id)) {
+    return rows.map((row) => (row.id === changed.id ? { ...row, ...changed } : row));
+  }
+  if (payload.eventType === "UPDATE") return rows;
+  return insert === "first" ? [changed, ...rows] : [...rows, changed];
+};
+
+// Keeps the cache in step with writes made on other devices or tabs. Changed rows are merged
+// into the cached lists straight away, and anything derived from them (totals, balances, joins)
+// is refetched. Returns when another device last changed something, for the sync indicator.
+export function useRealtimeSync(userId: string) {
+  const queryClient = useQueryClient();
+  const [remoteChangeAt, setRemoteChangeAt] = useState<number | null>(null);
+
+  useEffect(() => {
+    let lastOwnWrite = 0;
+    const unsubscribeMutations = queryClient.getMutationCache().subscribe((event) => {
+      if (event.type === "updated") lastOwnWrite = Date.now();
+    });
+    const isOwnWrite = () => queryClient.isMutating() > 0 || Date.now() - lastOwnWrite < OWN_WRITE_WINDOW_MS;
+
+    const pending = new Map<string, InvalidateQueryFilters>();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const refetch = (name: string, filters: InvalidateQueryFilters) => {
+      pending.set(name, filters);
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        pending.forEach((filters) => queryClient.invalidateQueries(filters));
+        pending.clear();
+      }, REFETCH_DELAY_MS);
+    };
+
+    const received = () => {
+      if (!isOwnWrite()) setRemoteChangeAt(Date.now());
+    };
+
+    const filter = `user_id=eq.${userId}`;
+    let subscribedBefore = false;
+
+    const channel = supabase.channel(`ledger:${userId}`);
+
+    // Realtime can't filter deletes, so they are listened for without the user filter. The old
+    // row of a delete still carries its id, which is all the handlers need from it.
+    const watch = <T extends { id: string }>(
+      table: string,
+      onChange: (payload: RealtimePostgresChangesPayload<T>) => void
+    ) => {
+      channel
+        .on<T>("postgres_changes", { event: "INSERT", schema: "public", table, filter }, onChange)
+        .on<T>("postgres_changes", { event: "UPDATE", schema: "public", table, filter }, onChange)
+        .on<T>("postgres_changes", { event: "DELETE", schema: "public", table }, onChange);
+    };
+
+    watch<Bank>("banks", (payload) => {
+      received();
+      queryClient.setQueryData<Bank[]>(queryKeys.banks, (banks) => applyChange(banks, payload, "last"));
+      refetch("ledger", { queryKey: queryKeys.ledgerBalances });
+      refetch("statements", { queryKey: queryKeys.cardStatements });
+    });
+    watch<Omit<Transaction, "banks">>("transactions", (payload) => {
+      received();
+      if (payload.eventType === "INSERT") {
+        // A new row's place in each filtered, sorted list is only known to the server
+        refetch("transactions", { queryKey: queryKeys.transactions.all });
+      } else {
+        if (payload.eventType === "DELETE") {
+          setCachedLists(queryClient, (transactions) => transactions.filter((t) => t.id !== payload.old.id));
+        } else {
+          const changed = payload.new;
+          const bank = queryClient.getQueryData<Bank[]>(queryKeys.banks)?.find((b) => b.id === changed.bank_id);
+          setCachedLists(queryClient, (transactions) =>
+            transactions.map((t) =>
+              t.id === changed.id
+                ? { ...t, ...changed, banks: bank ? { name: bank.name, currency: bank.currency } : t.banks }
+                : t
+            )
+          );
+        }
+        refetch("transaction-totals", {
+          queryKey: queryKeys.transactions.all,
+          predicate: (query) => query.queryKey[1] !== "list",
+        });
+      }
+      // A new name on a transaction adds someone to the people directory
+      refetch("people", { queryKey: queryKeys.people.all });
+    });
+    watch<Transfer>("transfers", (payload) => {
+      received();
+      // Inserts and updates need the account names joined in, so they come from a refetch
+      queryClient.setQueryData<Transfer[]>(queryKeys.transfers, (transfers) =>
+        payload.eventType === "DELETE" ? applyChange(transfers, payload, "first") : transfers
+      );
+      refetch("transfers", { queryKey: queryKeys.transfers });
+    });
+    watch<Credit>("credits", (payload) => {
+      received();
+      queryClient.setQueryData<Credit[]>(queryKeys.credits.list, (credits) => applyChange(credits, payload, "first"));
+      refetch("people", { queryKey: queryKeys.people.all });
+    });
+    watch<CreditPayment>("credit_payments", (payload) => {
+      received();
+      queryClient.setQueryData<CreditPayment[]>(queryKeys.credits.payments, (payments) =>
+        applyChange(payments, payload, "last")
+      );
+    });
+
+    channel.subscribe((status) => {
+      if (status !== "SUBSCRIBED") return;
+      // Changes made while the connection was down were never delivered
+      if (subscribedBefore) queryClient.invalidateQueries();
+      subscribedBefore = true;
+    });
+
+    return () => {
+      clearTimeout(timer);
+      unsubscribeMutations();
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient, userId]);
+
+  return remoteChangeAt;
+}
@@ -0,0 +1,282 @@
+import { InfiniteData, QueryClient, useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Category, CategoryType } from "@/lib/categories";
+import { offlineMutation } from "@/lib/offlineQueue";
+import { formatMoney } from "@/lib/money";
+import { queryKeys } from "@/lib/queryKeys";
+import { SplitShare } from "@/lib/splits";
+import { Bank } from "@/hooks/use-banks";
+import {
+  TotalsPeriod,
+  TotalsQuery,
+  Transaction,
+  TransactionCursor,
+  TransactionFilters,
+  TransactionPage,
+  expandCategories,
+  fetchPersonTransactions,
+  fetchSplitPeople,
+  fetchTransactionTotals,
+  fetchTransactionsPage,
+} from "@/lib/transactions";
+
+export interface TransactionListPage extends TransactionPage {
+  splitPeople: Record<string, string[]>;
+}
+
+type TransactionListData = InfiniteData<TransactionListPage, TransactionCursor | null>;
+
+export interface TransactionInput {
+  id?: string;
+  type: CategoryType;
+  amount: number;
+  date: string;
+  category: string;
+  notes: string;
+  bank_id: string;
+  person_name: string;
+  // Set when the amount was charged in another currency
+  original_amount?: number | null;
+  original_currency?: string | null;
+  // Picked for a new transaction before it is first sent, so a retry after a lost response finds it
+  new_id?: string;
+}
+
+export interface SplitExpenseInput {
+  // Picked before the split is first sent, like TransactionInput.new_id
+  id?: string;
+  bank_id: string;
+  amount: number;
+  date: string;
+  category: string;
+  notes: string;
+  own_share: number;
+  shares: SplitShare[];
+}
+
+// A type alias rather than an interface so the rows can be passed as JSON
+export type ImportedTransaction = {
+  type: CategoryType | null;
+  amount: number;
+  date: string | null;
+  category: string;
+  notes: string | null;
+};
+
+// A transaction moves a bank balance, may be linked to a credit, and a new person name adds
+// someone to the directory, so all of those are refetched after any change
+export const invalidateLedger = (queryClient: QueryClient) =>
+  Promise.all(
+    [queryKeys.transactions.all, queryKeys.banks, queryKeys.credits.all, queryKeys.people.all].map((queryKey) =>
+      queryClient.invalidateQueries({ queryKey })
+    )
+  );
+
+// Applies `update` to every cached page of every transactions list
+export const setCachedLists = (queryClient: QueryClient, update: (transactions: Transaction[]) => Transaction[]) =>
+  queryClient.setQueriesData<TransactionListData>({ queryKey: queryKeys.transactions.lists }, (data) =>
+    data
+      ? { ...data, pages: data.pages.map((page) => ({ ...page, transactions: update(page.transactions) })) }
+      : data
+  );
+
+// Like setCachedLists, but first stops in-flight fetches and returns what to restore on failure
+const updateCachedLists = async (
+  queryClient: QueryClient,
+  update: (transactions: Transaction[]) => Transaction[]
+) => {
+  await queryClient.cancelQueries({ queryKey: queryKeys.transactions.lists });
+  const previous = queryClient.getQueriesData<TransactionListData>({ queryKey: queryKeys.transactions.lists });
+  setCachedLists(queryClient, update);
+  return { previous };
+};
+
+const restoreCachedLists = (queryClient: QueryClient, context?: Awaited<ReturnType<typeof updateCachedLists>>) =>
+  context?.previous.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+
+const findCachedTransaction = (queryClient: QueryClient, id: string) =>
+  queryClient
+    .getQueriesData<TransactionListData>({ queryKey: queryKeys.transactions.lists })
+    .flatMap(([, data]) => data?.pages.flatMap((page) => page.transactions) || [])
+    .find((t) => t.id === id);
+
+const describeTransaction = (transaction: Pick<Transaction, "type" | "amount" | "category">) =>
+  `${transaction.type === "income" ? "Income" : "Expense"} ${formatMoney(transaction.amount)} · ${transaction.category}`;
+
+// The RPC writes the transaction and adjusts the bank balance atomically
+const saveTransaction = offlineMutation("saveTransaction", async (transaction: TransactionInput) => {
+  const { data, error } = await supabase.rpc("save_transaction", {
+    p_id: transaction.id,
+    p_type: transaction.type,
+    p_amount: transaction.amount,
+    p_date: transaction.date,
+    p_category: transaction.category,
+    p_notes: transaction.notes,
+    p_bank_id: transaction.bank_id,
+    p_person_name: transaction.person_name,
+    p_original_amount: transaction.original_amount ?? undefined,
+    p_original_currency: transaction.original_currency ?? undefined,
+    p_new_id: transaction.new_id,
+  });
+
+  if (error) throw error;
+  return data;
+});
+
+const saveSplitExpense = offlineMutation("saveSplitExpense", async (expense: SplitExpenseInput) => {
+  const { data, error } = await supabase.rpc("save_split_expense", {
+    p_id: expense.id,
+    p_bank_id: expense.bank_id,
+    p_amount: expense.amount,
+    p_date: expense.date,
+    p_category: expense.category,
+    p_notes: expense.notes,
+    p_own_share: expense.own_share,
+    p_shares: expense.shares.map((share) => ({ person_name: share.person_name, amount: share.amount })),
+  });
+
+  if (error) throw error;
+  return data;
+});
+
+// Deletes the transaction and restores the bank balance
+const deleteTransaction = offlineMutation(
+  "deleteTransaction",
+  async ({ id, reverseCredit }: { id: string; reverseCredit: boolean }) => {
+    const { error } = await supabase.rpc("delete_transaction", {
+      p_id: id,
+      p_reverse_credit: reverseCredit,
+    });
+
+    if (error) throw error;
+  }
+);
+
+export function useTransactionList(filters: TransactionFilters, categories: Category[]) {
+  return useInfiniteQuery({
+    // Keyed on the expanded names too, so sub-categories are picked up once categories load
+    queryKey: queryKeys.transactions.list(filters, expandCategories(filters.categories, categories)),
+    queryFn: async ({ pageParam }): Promise<TransactionListPage> => {
+      const page = await fetchTransactionsPage(filters, categories, pageParam);
+      return { ...page, splitPeople: await fetchSplitPeople(page.transactions.map((t) => t.id)) };
+    },
+    initialPageParam: null as TransactionCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    meta: { errorTitle: "Error loading transactions" },
+  });
+}
+
+export function useTransactionTotals(period: TotalsPeriod, byCategory: boolean, query: TotalsQuery = {}) {
+  return useQuery({
+    queryKey: queryKeys.transactions.totals(period, byCategory, query),
+    queryFn: () => fetchTransactionTotals(period, byCategory, query),
+    meta: { errorTitle: "Error loading totals" },
+  });
+}
+
+export function useRecentTransactions(limit: number) {
+  return useQuery({
+    queryKey: queryKeys.transactions.recent(limit),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("transactions")
+        .select("*, banks(name, currency)")
+        .order("date", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []) as Transaction[];
+    },
+    meta: { errorTitle: "Error loading recent transactions" },
+  });
+}
+
+export function usePersonTransactions(personName: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.transactions.byPerson(personName || ""),
+    queryFn: () => fetchPersonTransactions(personName!),
+    enabled: !!personName,
+    meta: { errorTitle: "Error loading transactions" },
+  });
+}
+
+export function useSaveTransaction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (transaction: TransactionInput) =>
+      saveTransaction(transaction.id ? transaction : { ...transaction, new_id: crypto.randomUUID() }, {
+        label: describeTransaction(transaction),
+        target: transaction.id
+          ? {
+              table: "transactions",
+              id: transaction.id,
+              updatedAt: findCachedTransaction(queryClient, transaction.id)?.updated_at ?? null,
+            }
+          : null,
+      }),
+    // Edits show up in the list before the server confirms them
+    onMutate: (transaction) => {
+      if (!transaction.id) return;
+
+      const bank = queryClient.getQueryData<Bank[]>(queryKeys.banks)?.find((b) => b.id === transaction.bank_id);
+      return updateCachedLists(queryClient, (transactions) =>
+        transactions.map((t) =>
+          t.id === transaction.id ? { ...t, ...transaction, banks: bank ? { name: bank.name, currency: bank.currency } : t.banks } : t
+        )
+      );
+    },
+    onError: (_error, _transaction, context) => restoreCachedLists(queryClient, context),
+    onSettled: () => invalidateLedger(queryClient),
+  });
+}
+
+export function useSaveSplitExpense() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (expense: SplitExpenseInput) =>
+      saveSplitExpense({ ...expense, id: crypto.randomUUID() }, {
+        label: `Split expense ${formatMoney(expense.amount)} · ${expense.category}`,
+      }),
+    onSuccess: () => invalidateLedger(queryClient),
+  });
+}
+
+export function useDeleteTransaction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ transaction, reverseCredit }: { transaction: Transaction; reverseCredit: boolean }) =>
+      deleteTransaction(
+        { id: transaction.id, reverseCredit },
+        {
+          label: `Delete ${describeTransaction(transaction)}`,
+          target: { table: "transactions", id: transaction.id, updatedAt: transaction.updated_at },
+        }
+      ),
+    onMutate: ({ transaction }) =>
+      updateCachedLists(queryClient, (transactions) => transactions.filter((t) => t.id !== transaction.id)),
+    onError: (_error, _variables, context) => restoreCachedLists(queryClient, context),
+    onSettled: () => invalidateLedger(queryClient),
+  });
+}
+
+export function useImportTransactions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    // Inserts every row and applies the net balance change in one database transaction
+    mutationFn: async ({ bankId, rows }: { bankId: string; rows: ImportedTransaction[] }) => {
+      const { data, error } = await supabase.rpc("import_transactions", {
+        p_bank_id: bankId,
+        p_rows: rows,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => invalidateLedger(queryClient),
+  });
+}
@@ -0,0 +1,132 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { offlineMutation } from "@/lib/offlineQueue";
+import { queryKeys } from "@/lib/queryKeys";
+import { formatMoney } from "@/lib/money";
+import { Bank } from "@/hooks/use-banks";
+
+export interface Transfer {
+  id: string;
+  from_bank_id: string;
+  to_bank_id: string;
+  amount: number;
+  date: string;
+  notes: string;
+  is_card_payment: boolean;
+  // What arrived in the destination account when it holds a different currency
+  to_amount: number | null;
+  updated_at: string;
+  from_bank: { name: string; currency: string };
+  to_bank: { name: string; currency: string };
+}
+
+export interface TransferInput {
+  id?: string;
+  // Picked for a new transfer before it is first sent, so a retry after a lost response finds it
+  new_id?: string;
+  from_bank_id: string;
+  to_bank_id: string;
+  amount: number;
+  date: string;
+  notes: string;
+  is_card_payment: boolean;
+  to_amount: number | null;
+}
+
+const describeTransfer = (transfer: Pick<Transfer, "amount">, banks: { from: string; to: string }) =>
+  `Transfer ${formatMoney(transfer.amount)} · ${banks.from} → ${banks.to}`;
+
+// The RPC validates both accounts and moves the balances atomically
+const saveTransfer = offlineMutation("saveTransfer", async (transfer: TransferInput) => {
+  const { data: transferId, error } = await supabase.rpc("save_transfer", {
+    p_id: transfer.id,
+    p_from_bank_id: transfer.from_bank_id,
+    p_to_bank_id: transfer.to_bank_id,
+    p_amount: transfer.amount,
+    p_date: transfer.date,
+    p_notes: transfer.notes,
+    p_is_card_payment: transfer.is_card_payment,
+    p_to_amount: transfer.to_amount ?? undefined,
+    p_new_id: transfer.new_id,
+  });
+
+  if (error) throw error;
+  return transferId;
+});
+
+// Deletes the transfer and restores both balances
+const deleteTransfer = offlineMutation("deleteTransfer", async (id: string) => {
+  const { error } = await supabase.rpc("delete_transfer", { p_id: id });
+
+  if (error) throw error;
+});
+
+export function useTransfers() {
+  return useQuery({
+    queryKey: queryKeys.transfers,
+    queryFn: async (): Promise<Transfer[]> => {
+      const { data, error } = await supabase
+        .from("transfers")
+        .select(`
+          *,
+          from_bank:banks!transfers_from_bank_id_fkey(name, currency),
+          to_bank:banks!transfers_to_bank_id_fkey(name, currency)
+        `)
+        .order("date", { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    meta: { errorTitle: "Error loading transfers" },
+  });
+}
+
+export function useSaveTransfer() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (transfer: TransferInput) => {
+      const banks = queryClient.getQueryData<Bank[]>(queryKeys.banks);
+      const bankName = (id: string) => banks?.find((b) => b.id === id)?.name || "Unknown account";
+      const existing = queryClient.getQueryData<Transfer[]>(queryKeys.transfers)?.find((t) => t.id === transfer.id);
+
+      return saveTransfer(transfer.id ? transfer : { ...transfer, new_id: crypto.randomUUID() }, {
+        label: describeTransfer(transfer, { from: bankName(transfer.from_bank_id), to: bankName(transfer.to_bank_id) }),
+        target: transfer.id
+          ? { table: "transfers", id: transfer.id, updatedAt: existing?.updated_at ?? null }
+          : null,
+      });
+    },
+    onSuccess: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.transfers }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.banks }),
+      ]),
+  });
+}
+
+export function useDeleteTransfer() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (transfer: Transfer) =>
+      deleteTransfer(transfer.id, {
+        label: `Delete ${describeTransfer(transfer, { from: transfer.from_bank.name, to: transfer.to_bank.name })}`,
+        target: { table: "transfers", id: transfer.id, updatedAt: transfer.updated_at },
+      }),
+    onMutate: async ({ id }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.transfers });
+      const previous = queryClient.getQueryData<Transfer[]>(queryKeys.transfers);
+      queryClient.setQueryData<Transfer[]>(queryKeys.transfers, (transfers) => transfers?.filter((t) => t.id !== id));
+      return { previous };
+    },
+    onError: (_error, _transfer, context) => {
+      queryClient.setQueryData(queryKeys.transfers, context?.previous);
+    },
+    onSettled: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.transfers }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.banks }),
+      ]),
+  });
+}
@@ -16,42 +16,206 @@ export type Database = {
     Tables: {
       banks: {
         Row: {
+          account_number_last4: string | null
+          account_type: string
           balance: number | null
           color: string | null
           created_at: string | null
+          credit_limit: number | null
+          currency: string
           id: string
+          institution: string | null
+          interest_rate: number | null
           name: string
+          opening_balance: number
+          payment_due_days: number | null
+          statement_day: number | null
           updated_at: string | null
           user_id: string
         }
         Insert: {
+          account_number_last4?: string | null
+          account_type?: string
           balance?: number | null
           color?: string | null
           created_at?: string | null
+          credit_limit?: number | null
+          currency?: string
           id?: string
+          institution?: string | null
+          interest_rate?: number | null
           name: string
+          opening_balance?: number
+          payment_due_days?: number | null
+          statement_day?: number | null
           updated_at?: string | null
           user_id: string
         }
         Update: {
+          account_number_last4?: string | null
+          account_type?: string
           balance?: number | null
           color?: string | null
           created_at?: string | null
+          credit_limit?: number | null
+          currency?: string
           id?: string
+          institution?: string | null
+          interest_rate?: number | null
           name?: string
+          opening_balance?: number
+          payment_due_days?: number | null
+          statement_day?: number | null
           updated_at?: string | null
           user_id?: string
         }
         Relationships: []
       }
+      budgets: {
+        Row: {
+          amount: number
+          category_id: string
+          created_at: string | null
+          id: string
+          is_recurring: boolean
+          month: string
+          rollover: boolean
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category_id: string
+          created_at?: string | null
+          id?: string
+          is_recurring?: boolean
+          month: string
+          rollover?: boolean
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category_id?: string
+          created_at?: string | null
+          id?: string
+          is_recurring?: boolean
+          month?: string
+          rollover?: boolean
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budgets_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          color: string
+          created_at: string | null
+          icon: string
+          id: string
+          is_archived: boolean
+          name: string
+          parent_id: string | null
+          type: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string | null
+          icon?: string
+          id?: string
+          is_archived?: boolean
+          name: string
+          parent_id?: string | null
+          type: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string | null
+          icon?: string
+          id?: string
+          is_archived?: boolean
+          name?: string
+          parent_id?: string | null
+          type?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          credit_id: string
+          date: string
+          id: string
+          note: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          credit_id: string
+          date?: string
+          id?: string
+          note?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          credit_id?: string
+          date?: string
+          id?: string
+          note?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_payments_credit_id_fkey"
+            columns: ["credit_id"]
+            isOneToOne: false
+            referencedRelation: "credits"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       credits: {
         Row: {
           amount: number
           created_at: string
           date: string
           description: string | null
+          due_date: string | null
           id: string
+          last_reminded_on: string | null
           person_name: string
+          remind_days_before: number | null
+          remind_every_days: number | null
+          split_transaction_id: string | null
           type: string
           updated_at: string
           user_id: string
@@ -61,8 +225,13 @@ export type Database = {
           created_at?: string
           date?: string
           description?: string | null
+          due_date?: string | null
           id?: string
+          last_reminded_on?: string | null
           person_name: string
+          remind_days_before?: number | null
+          remind_every_days?: number | null
+          split_transaction_id?: string | null
           type: string
           updated_at?: string
           user_id: string
@@ -72,24 +241,179 @@ export type Database = {
           created_at?: string
           date?: string
           description?: string | null
+          due_date?: string | null
           id?: string
+          last_reminded_on?: string | null
           person_name?: string
+          remind_days_before?: number | null
+          remind_every_days?: number | null
+          split_transaction_id?: string | null
           type?: string
           updated_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "credits_split_transaction_id_fkey"
+            columns: ["split_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exchange_rates: {
+        Row: {
+          created_at: string
+          date: string
+          from_currency: string
+          id: string
+          rate: number
+          to_currency: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          from_currency: string
+          id?: string
+          rate: number
+          to_currency: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          from_currency?: string
+          id?: string
+          rate?: number
+          to_currency?: string
+          updated_at?: string
+          user_id?: string
+        }
         Relationships: []
       }
+      people: {
+        Row: {
+          aliases: string[]
+          created_at: string
+          email: string | null
+          id: string
+          name: string
+          notes: string | null
+          phone: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string
+          email?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string
+          email?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      recurring_transactions: {
+        Row: {
+          amount: number
+          bank_id: string
+          category: string | null
+          created_at: string | null
+          day_of_month: number | null
+          end_date: string | null
+          frequency: string
+          id: string
+          is_active: boolean
+          last_run_date: string | null
+          next_run_date: string
+          notes: string | null
+          person_name: string | null
+          start_date: string
+          type: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          bank_id: string
+          category?: string | null
+          created_at?: string | null
+          day_of_month?: number | null
+          end_date?: string | null
+          frequency: string
+          id?: string
+          is_active?: boolean
+          last_run_date?: string | null
+          next_run_date?: string
+          notes?: string | null
+          person_name?: string | null
+          start_date: string
+          type: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          bank_id?: string
+          category?: string | null
+          created_at?: string | null
+          day_of_month?: number | null
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          is_active?: boolean
+          last_run_date?: string | null
+          next_run_date?: string
+          notes?: string | null
+          person_name?: string | null
+          start_date?: string
+          type?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_transactions_bank_id_fkey"
+            columns: ["bank_id"]
+            isOneToOne: false
+            referencedRelation: "banks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transactions: {
         Row: {
           amount: number
           bank_id: string
           category: string | null
           created_at: string | null
+          credit_id: string | null
+          credit_payment_id: string | null
           date: string
           id: string
           notes: string | null
+          original_amount: number | null
+          original_currency: string | null
           person_name: string | null
+          recurring_transaction_id: string | null
           type: string
           updated_at: string | null
           user_id: string
@@ -99,10 +423,15 @@ export type Database = {
           bank_id: string
           category?: string | null
           created_at?: string | null
+          credit_id?: string | null
+          credit_payment_id?: string | null
           date: string
           id?: string
           notes?: string | null
+          original_amount?: number | null
+          original_currency?: string | null
           person_name?: string | null
+          recurring_transaction_id?: string | null
           type: string
           updated_at?: string | null
           user_id: string
@@ -112,10 +441,15 @@ export type Database = {
           bank_id?: string
           category?: string | null
           created_at?: string | null
+          credit_id?: string | null
+          credit_payment_id?: string | null
           date?: string
           id?: string
           notes?: string | null
+          original_amount?: number | null
+          original_currency?: string | null
           person_name?: string | null
+          recurring_transaction_id?: string | null
           type?: string
           updated_at?: string | null
           user_id?: string
@@ -128,6 +462,27 @@ export type Database = {
             referencedRelation: "banks"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_credit_id_fkey"
+            columns: ["credit_id"]
+            isOneToOne: false
+            referencedRelation: "credits"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_credit_payment_id_fkey"
+            columns: ["credit_payment_id"]
+            isOneToOne: false
+            referencedRelation: "credit_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_recurring_transaction_id_fkey"
+            columns: ["recurring_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_transactions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       transfers: {
@@ -137,8 +492,11 @@ export type Database = {
           date: string
           from_bank_id: string
           id: string
+          is_card_payment: boolean
           notes: string | null
+          to_amount: number | null
           to_bank_id: string
+          updated_at: string | null
           user_id: string
         }
         Insert: {
@@ -147,8 +505,11 @@ export type Database = {
           date: string
           from_bank_id: string
           id?: string
+          is_card_payment?: boolean
           notes?: string | null
+          to_amount?: number | null
           to_bank_id: string
+          updated_at?: string | null
           user_id: string
         }
         Update: {
@@ -157,8 +518,11 @@ export type Database = {
           date?: string
           from_bank_id?: string
           id?: string
+          is_card_payment?: boolean
           notes?: string | null
+          to_amount?: number | null
           to_bank_id?: string
+          updated_at?: string | null
           user_id?: string
         }
         Relationships: [
@@ -180,10 +544,188 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      bank_ledger_balances: {
+        Row: {
+          bank_id: string | null
+          computed_balance: number | null
+          difference: number | null
+          name: string | null
+          opening_balance: number | null
+          stored_balance: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      card_statements: {
+        Args: { p_as_of?: string }
+        Returns: {
+          amount_due: number
+          bank_id: string
+          due_date: string
+          minimum_due: number
+          paid: number
+          period_start: string
+          statement_balance: number
+          statement_date: string
+          unbilled: number
+        }[]
+      }
+      claim_due_credit_reminders: {
+        Args: { p_today?: string }
+        Returns: {
+          credit_id: string
+          credit_type: string
+          due_date: string
+          outstanding: number
+          person_name: string
+        }[]
+      }
+      delete_credit: {
+        Args: { p_id: string; p_reverse_transactions?: boolean }
+        Returns: undefined
+      }
+      delete_credit_payment: {
+        Args: { p_id: string; p_reverse_transaction?: boolean }
+        Returns: undefined
+      }
+      delete_transaction: {
+        Args: { p_id: string; p_reverse_credit?: boolean }
+        Returns: undefined
+      }
+      delete_transfer: { Args: { p_id: string }; Returns: undefined }
+      ensure_credit_category: {
+        Args: { p_user_id: string; p_type: string }
+        Returns: string
+      }
+      exchange_rate: {
+        Args: { p_from: string; p_on: string; p_to: string }
+        Returns: number
+      }
+      import_transactions: {
+        Args: { p_bank_id: string; p_rows: Json }
+        Returns: number
+      }
+      merge_categories: {
+        Args: { p_source_id: string; p_target_id: string }
+        Returns: undefined
+      }
+      merge_people: {
+        Args: { p_source_id: string; p_target_id: string }
+        Returns: undefined
+      }
+      process_recurring_transactions: {
+        Args: { p_today?: string }
+        Returns: number
+      }
+      reconcile_bank_balance: {
+        Args: { p_bank_id: string; p_keep_stored?: boolean }
+        Returns: undefined
+      }
+      record_credit_payment: {
+        Args: {
+          p_amount: number
+          p_bank_id?: string
+          p_credit_id: string
+          p_date?: string
+          p_note?: string
+        }
+        Returns: string
+      }
+      rename_category: {
+        Args: { p_id: string; p_name: string }
+        Returns: undefined
+      }
+      rename_person: {
+        Args: { p_id: string; p_name: string }
+        Returns: undefined
+      }
+      restore_backup: {
+        Args: { p_payload: Json; p_replace?: boolean }
+        Returns: undefined
+      }
+      save_credit: {
+        Args: {
+          p_amount: number
+          p_bank_id?: string
+          p_date: string
+          p_description?: string
+          p_id?: string
+          p_new_id?: string
+          p_person_name: string
+          p_type: string
+        }
+        Returns: string
+      }
+      save_split_expense: {
+        Args: {
+          p_amount: number
+          p_bank_id: string
+          p_category: string
+          p_date: string
+          p_id?: string
+          p_notes?: string
+          p_own_share: number
+          p_shares: Json
+        }
+        Returns: string
+      }
+      save_transaction: {
+        Args: {
+          p_amount: number
+          p_bank_id: string
+          p_category?: string
+          p_date: string
+          p_id?: string
+          p_new_id?: string
+          p_notes?: string
+          p_original_amount?: number
+          p_original_currency?: string
+          p_person_name?: string
+          p_type: string
+        }
+        Returns: string
+      }
+      save_transfer: {
+        Args: {
+          p_amount: number
+          p_date: string
+          p_from_bank_id: string
+          p_id?: string
+          p_is_card_payment?: boolean
+          p_new_id?: string
+          p_notes?: string
+          p_to_amount?: number
+          p_to_bank_id: string
+        }
+        Returns: string
+      }
+      statement_date_in_month: {
+        Args: { p_month: string; p_statement_day: number }
+        Returns: string
+      }
+      transaction_totals: {
+        Args: {
+          p_bank_id?: string
+          p_base_currency?: string
+          p_by_category?: boolean
+          p_categories?: string[]
+          p_from?: string
+          p_period?: string
+          p_search?: string
+          p_to?: string
+          p_type?: string
+        }
+        Returns: {
+          category: string
+          count: number
+          period: string
+          total: number
+          type: string
+          unconverted: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,82 @@
+import { CreditCard, Landmark, LineChart, LucideIcon, Wallet, HandCoins } from "lucide-react";
+import { addMoney, fromPaise, toPaise } from "@/lib/money";
+
+export type AccountType = "savings" | "credit_card" | "cash" | "loan" | "investment";
+
+export interface AccountTypeInfo {
+  value: AccountType;
+  label: string;
+  icon: LucideIcon;
+  // Credit cards and loans: the balance is what is owed, stored as a negative amount
+  liability: boolean;
+}
+
+// In the order accounts are grouped on the Banks page
+export const ACCOUNT_TYPES: AccountTypeInfo[] = [
+  { value: "savings", label: "Bank Accounts", icon: Landmark, liability: false },
+  { value: "cash", label: "Cash Wallets", icon: Wallet, liability: false },
+  { value: "investment", label: "Investments", icon: LineChart, liability: false },
+  { value: "credit_card", label: "Credit Cards", icon: CreditCard, liability: true },
+  { value: "loan", label: "Loans", icon: HandCoins, liability: true },
+];
+
+// Singular names for the account type picker
+export const ACCOUNT_TYPE_NAMES: Record<AccountType, string> = {
+  savings: "Bank account",
+  cash: "Cash wallet",
+  investment: "Investment",
+  credit_card: "Credit card",
+  loan: "Loan",
+};
+
+export const getAccountType = (type: string | null | undefined): AccountTypeInfo =>
+  ACCOUNT_TYPES.find((t) => t.value === type) ?? ACCOUNT_TYPES[0];
+
+export const isLiability = (type: string | null | undefined) => getAccountType(type).liability;
+
+export const maskAccountNumber = (last4: string | null | undefined) => (last4 ? `•••• ${last4}` : "");
+
+// A liability's balance goes negative as it's used; an overpaid card shows nothing owed
+export const getAmountOwed = (balance: number) => Math.max(0, -Number(balance));
+
+export const getAvailableCredit = (account: { balance: number; credit_limit: number | null }) =>
+  account.credit_limit == null ? null : Math.max(0, addMoney(account.credit_limit, account.balance));
+
+// Net worth: liabilities already carry negative balances, so a plain sum nets them off
+export const summarizeBalances = (accounts: { balance: number; account_type: string }[]) => {
+  const paise = accounts.reduce(
+    (acc, account) => {
+      const balance = toPaise(account.balance);
+      if (isLiability(account.account_type)) acc.liabilities -= balance;
+      else acc.assets += balance;
+      acc.net += balance;
+      return acc;
+    },
+    { assets: 0, liabilities: 0, net: 0 }
+  );
+  return { assets: fromPaise(paise.assets), liabilities: fromPaise(paise.liabilities), net: fromPaise(paise.net) };
+};
+
+// Only a transfer from an account holding money into a credit card can pay the card's bill
+export const canPayCardBill = (from: { account_type: string } | undefined, to: { account_type: string } | undefined) =>
+  !!from && !!to && to.account_type === "credit_card" && !isLiability(from.account_type);
+
+export interface CardStatement {
+  bank_id: string;
+  period_start: string;
+  statement_date: string;
+  due_date: string | null;
+  statement_balance: number;
+  paid: number;
+  amount_due: number;
+  minimum_due: number;
+  unbilled: number;
+}
+
+export type StatementStatus = "nothing_due" | "paid" | "due" | "overdue";
+
+export const getStatementStatus = (statement: CardStatement, today: string): StatementStatus => {
+  if (Number(statement.statement_balance) < 0.005) return "nothing_due";
+  if (Number(statement.amount_due) < 0.005) return "paid";
+  return statement.due_date && statement.due_date < today ? "overdue" : "due";
+};
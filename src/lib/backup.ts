@@ -0,0 +1,426 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+
+export const BACKUP_FORMAT = "bank-boss-backup";
+export const BACKUP_VERSION = 2;
+
+// Supabase returns at most 1000 rows per request by default
+const PAGE_SIZE = 1000;
+
+const amount = z.coerce.number().finite();
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+
+const bankSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1),
+  balance: amount.nullable(),
+  opening_balance: amount.default(0),
+  color: z.string().nullable().optional(),
+  created_at: z.string().nullable().optional(),
+  // Older backups predate account types; restoring them gives plain bank accounts
+  account_type: z.enum(["savings", "credit_card", "cash", "loan", "investment"]).optional(),
+  institution: z.string().nullable().optional(),
+  account_number_last4: z.string().regex(/^\d{4}$/).nullable().optional(),
+  credit_limit: amount.positive().nullable().optional(),
+  statement_day: z.number().int().min(1).max(31).nullable().optional(),
+  payment_due_days: z.number().int().min(1).max(60).nullable().optional(),
+  interest_rate: amount.nonnegative().nullable().optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/).optional(),
+});
+
+const transactionSchema = z.object({
+  id: z.string().uuid(),
+  bank_id: z.string().uuid(),
+  type: z.enum(["income", "expense"]),
+  amount: amount.positive(),
+  date: isoDate,
+  category: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  person_name: z.string().nullable().optional(),
+  original_amount: amount.positive().nullable().optional(),
+  original_currency: z.string().regex(/^[A-Z]{3}$/).nullable().optional(),
+  recurring_transaction_id: z.string().uuid().nullable().optional(),
+  credit_id: z.string().uuid().nullable().optional(),
+  credit_payment_id: z.string().uuid().nullable().optional(),
+});
+
+const transferSchema = z.object({
+  id: z.string().uuid(),
+  from_bank_id: z.string().uuid(),
+  to_bank_id: z.string().uuid(),
+  amount: amount.positive(),
+  date: isoDate,
+  notes: z.string().nullable().optional(),
+  is_card_payment: z.boolean().optional(),
+  to_amount: amount.positive().nullable().optional(),
+});
+
+const creditSchema = z.object({
+  id: z.string().uuid(),
+  person_name: z.string().min(1),
+  amount: amount,
+  type: z.enum(["owe_me", "i_owe"]),
+  description: z.string().nullable().optional(),
+  date: isoDate,
+  due_date: isoDate.nullable().optional(),
+  remind_days_before: z.number().int().nonnegative().nullable().optional(),
+  remind_every_days: z.number().int().positive().nullable().optional(),
+  split_transaction_id: z.string().uuid().nullable().optional(),
+});
+
+const creditPaymentSchema = z.object({
+  id: z.string().uuid(),
+  credit_id: z.string().uuid(),
+  amount: amount.positive(),
+  date: isoDate,
+  note: z.string().nullable().optional(),
+});
+
+const recurringTransactionSchema = z.object({
+  id: z.string().uuid(),
+  bank_id: z.string().uuid(),
+  type: z.enum(["income", "expense"]),
+  amount: amount.positive(),
+  category: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  person_name: z.string().nullable().optional(),
+  frequency: z.enum(["daily", "weekly", "monthly", "yearly"]),
+  day_of_month: z.number().int().min(1).max(31).nullable().optional(),
+  start_date: isoDate,
+  end_date: isoDate.nullable().optional(),
+  next_run_date: isoDate,
+  last_run_date: isoDate.nullable().optional(),
+  is_active: z.boolean().optional(),
+});
+
+const categorySchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1),
+  type: z.enum(["income", "expense"]),
+  icon: z.string().optional(),
+  color: z.string().optional(),
+  is_archived: z.boolean().optional(),
+  parent_id: z.string().uuid().nullable().optional(),
+});
+
+const budgetSchema = z.object({
+  id: z.string().uuid(),
+  category_id: z.string().uuid(),
+  amount: amount.positive(),
+  month: isoDate,
+  is_recurring: z.boolean().optional(),
+  rollover: z.boolean().optional(),
+});
+
+const personSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1),
+  phone: z.string().nullable().optional(),
+  email: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  aliases: z.array(z.string()).default([]),
+});
+
+const exchangeRateSchema = z.object({
+  from_currency: z.string().regex(/^[A-Z]{3}$/),
+  to_currency: z.string().regex(/^[A-Z]{3}$/),
+  rate: amount.positive(),
+  date: isoDate,
+});
+
+export const backupSchema = z
+  .object({
+    format: z.literal(BACKUP_FORMAT),
+    // Version 1 files lack the links between credits and transactions; they restore without them
+    version: z.number().int().min(1).max(BACKUP_VERSION),
+    exported_at: z.string(),
+    banks: z.array(bankSchema),
+    transactions: z.array(transactionSchema),
+    transfers: z.array(transferSchema),
+    credits: z.array(creditSchema),
+    // Older backups predate repayment tracking
+    credit_payments: z.array(creditPaymentSchema).default([]),
+    exchange_rates: z.array(exchangeRateSchema).default([]),
+    recurring_transactions: z.array(recurringTransactionSchema).default([]),
+    // Left out of older backups, so restoring those keeps the current categories, budgets and people
+    categories: z.array(categorySchema).optional(),
+    budgets: z.array(budgetSchema).optional(),
+    people: z.array(personSchema).optional(),
+  })
+  .superRefine((backup, ctx) => {
+    const bankIds = new Set(backup.banks.map((b) => b.id));
+
+    const scheduleIds = new Set(backup.recurring_transactions.map((r) => r.id));
+
+    backup.recurring_transactions.forEach((r, index) => {
+      if (!bankIds.has(r.bank_id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["recurring_transactions", index, "bank_id"],
+          message: "Recurring transaction references a bank that is not in the backup",
+        });
+      }
+    });
+
+    backup.transactions.forEach((t, index) => {
+      if (t.recurring_transaction_id && !scheduleIds.has(t.recurring_transaction_id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["transactions", index, "recurring_transaction_id"],
+          message: "Transaction references a recurring transaction that is not in the backup",
+        });
+      }
+      if (!bankIds.has(t.bank_id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["transactions", index, "bank_id"],
+          message: "Transaction references a bank that is not in the backup",
+        });
+      }
+    });
+
+    backup.transfers.forEach((t, index) => {
+      if (!bankIds.has(t.from_bank_id) || !bankIds.has(t.to_bank_id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["transfers", index],
+          message: "Transfer references a bank that is not in the backup",
+        });
+      }
+    });
+
+    const creditIds = new Set(backup.credits.map((c) => c.id));
+    const paymentIds = new Set(backup.credit_payments.map((p) => p.id));
+    const transactionIds = new Set(backup.transactions.map((t) => t.id));
+
+    backup.transactions.forEach((t, index) => {
+      const missingCredit = t.credit_id && !creditIds.has(t.credit_id);
+      const missingPayment = t.credit_payment_id && !paymentIds.has(t.credit_payment_id);
+      if (missingCredit || missingPayment) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["transactions", index],
+          message: "Transaction references a credit that is not in the backup",
+        });
+      }
+    });
+
+    backup.credits.forEach((c, index) => {
+      if (c.split_transaction_id && !transactionIds.has(c.split_transaction_id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["credits", index, "split_transaction_id"],
+          message: "Credit references a transaction that is not in the backup",
+        });
+      }
+    });
+
+    backup.credit_payments.forEach((p, index) => {
+      if (!creditIds.has(p.credit_id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["credit_payments", index, "credit_id"],
+          message: "Payment references a credit that is not in the backup",
+        });
+      }
+    });
+
+    const categoryIds = new Set((backup.categories ?? []).map((c) => c.id));
+
+    backup.categories?.forEach((c, index) => {
+      if (c.parent_id && !categoryIds.has(c.parent_id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["categories", index, "parent_id"],
+          message: "Category references a parent that is not in the backup",
+        });
+      }
+    });
+
+    backup.budgets?.forEach((b, index) => {
+      if (!categoryIds.has(b.category_id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["budgets", index, "category_id"],
+          message: "Budget references a category that is not in the backup",
+        });
+      }
+    });
+  });
+
+export type Backup = z.infer<typeof backupSchema>;
+
+type BackupTable =
+  | "banks"
+  | "transactions"
+  | "transfers"
+  | "credits"
+  | "credit_payments"
+  | "exchange_rates"
+  | "recurring_transactions"
+  | "categories"
+  | "budgets"
+  | "people";
+
+const fetchAll = async (table: BackupTable, columns: string) => {
+  const rows: Record<string, unknown>[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...((data || []) as unknown as Record<string, unknown>[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+export const createBackup = async (): Promise<Backup> => {
+  const [
+    banks,
+    transactions,
+    transfers,
+    credits,
+    credit_payments,
+    exchange_rates,
+    recurring_transactions,
+    categories,
+    budgets,
+    people,
+  ] = await Promise.all([
+    fetchAll(
+      "banks",
+      "id, name, balance, opening_balance, color, created_at, currency, account_type, institution, account_number_last4, credit_limit, statement_day, payment_due_days, interest_rate"
+    ),
+    fetchAll(
+      "transactions",
+      "id, bank_id, type, amount, date, category, notes, person_name, original_amount, original_currency, recurring_transaction_id, credit_id, credit_payment_id"
+    ),
+    fetchAll("transfers", "id, from_bank_id, to_bank_id, amount, to_amount, date, notes, is_card_payment"),
+    fetchAll(
+      "credits",
+      "id, person_name, amount, type, description, date, due_date, remind_days_before, remind_every_days, split_transaction_id"
+    ),
+    fetchAll("credit_payments", "id, credit_id, amount, date, note"),
+    fetchAll("exchange_rates", "from_currency, to_currency, rate, date"),
+    fetchAll(
+      "recurring_transactions",
+      "id, bank_id, type, amount, category, notes, person_name, frequency, day_of_month, start_date, end_date, next_run_date, last_run_date, is_active"
+    ),
+    fetchAll("categories", "id, name, type, icon, color, is_archived, parent_id"),
+    fetchAll("budgets", "id, category_id, amount, month, is_recurring, rollover"),
+    fetchAll("people", "id, name, phone, email, notes, aliases"),
+  ]);
+
+  return backupSchema.parse({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: new Date().toISOString(),
+    banks,
+    transactions,
+    transfers,
+    credits,
+    credit_payments,
+    exchange_rates,
+    recurring_transactions,
+    categories,
+    budgets,
+    people,
+  });
+};
+
+// Validate untrusted file contents, turning zod issues into a readable message
+export const parseBackup = (text: string): Backup => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  const result = backupSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid backup file: ${issue.path.join(".") || "root"} - ${issue.message}`);
+  }
+  return result.data;
+};
+
+// Give every row a fresh id and rewrite references so a merge never collides with existing data
+export const remapBackupIds = (backup: Backup): Backup => {
+  const bankIds = new Map(backup.banks.map((b) => [b.id, crypto.randomUUID()]));
+  const creditIds = new Map(backup.credits.map((c) => [c.id, crypto.randomUUID()]));
+  const paymentIds = new Map(backup.credit_payments.map((p) => [p.id, crypto.randomUUID()]));
+  const transactionIds = new Map(backup.transactions.map((t) => [t.id, crypto.randomUUID()]));
+  const scheduleIds = new Map(backup.recurring_transactions.map((r) => [r.id, crypto.randomUUID()]));
+  const categoryIds = new Map((backup.categories ?? []).map((c) => [c.id, crypto.randomUUID()]));
+
+  return {
+    ...backup,
+    banks: backup.banks.map((b) => ({ ...b, id: bankIds.get(b.id)! })),
+    transactions: backup.transactions.map((t) => ({
+      ...t,
+      id: transactionIds.get(t.id)!,
+      bank_id: bankIds.get(t.bank_id)!,
+      recurring_transaction_id: t.recurring_transaction_id ? scheduleIds.get(t.recurring_transaction_id)! : null,
+      credit_id: t.credit_id ? creditIds.get(t.credit_id)! : null,
+      credit_payment_id: t.credit_payment_id ? paymentIds.get(t.credit_payment_id)! : null,
+    })),
+    transfers: backup.transfers.map((t) => ({
+      ...t,
+      id: crypto.randomUUID(),
+      from_bank_id: bankIds.get(t.from_bank_id)!,
+      to_bank_id: bankIds.get(t.to_bank_id)!,
+    })),
+    credits: backup.credits.map((c) => ({
+      ...c,
+      id: creditIds.get(c.id)!,
+      split_transaction_id: c.split_transaction_id ? transactionIds.get(c.split_transaction_id)! : null,
+    })),
+    credit_payments: backup.credit_payments.map((p) => ({
+      ...p,
+      id: paymentIds.get(p.id)!,
+      credit_id: creditIds.get(p.credit_id)!,
+    })),
+    recurring_transactions: backup.recurring_transactions.map((r) => ({
+      ...r,
+      id: scheduleIds.get(r.id)!,
+      bank_id: bankIds.get(r.bank_id)!,
+    })),
+    categories: backup.categories?.map((c) => ({
+      ...c,
+      id: categoryIds.get(c.id)!,
+      parent_id: c.parent_id ? categoryIds.get(c.parent_id)! : null,
+    })),
+    budgets: backup.budgets?.map((b) => ({
+      ...b,
+      id: crypto.randomUUID(),
+      category_id: categoryIds.get(b.category_id)!,
+    })),
+    people: backup.people?.map((p) => ({ ...p, id: crypto.randomUUID() })),
+  };
+};
+
+export const restoreBackup = async (backup: Backup, mode: "merge" | "replace") => {
+  const remapped = remapBackupIds(backup);
+  const { error } = await supabase.rpc("restore_backup", {
+    p_payload: {
+      banks: remapped.banks,
+      transactions: remapped.transactions,
+      transfers: remapped.transfers,
+      credits: remapped.credits,
+      credit_payments: remapped.credit_payments,
+      exchange_rates: remapped.exchange_rates,
+      recurring_transactions: remapped.recurring_transactions,
+      categories: remapped.categories,
+      budgets: remapped.budgets,
+      people: remapped.people,
+    },
+    p_replace: mode === "replace",
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,166 @@
+import { addMonths, format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Category, getRootCategoryName } from "@/lib/categories";
+import { fetchTransactionTotals } from "@/lib/transactions";
+import { addMoney, subtractMoney } from "@/lib/money";
+
+export interface Budget {
+  id: string;
+  category_id: string;
+  amount: number;
+  month: string;
+  is_recurring: boolean;
+  rollover: boolean;
+}
+
+export interface BudgetStatus {
+  category: Category;
+  budget: Budget;
+  carried: number;
+  available: number;
+  spent: number;
+  percent: number;
+}
+
+export interface BudgetAlert {
+  status: BudgetStatus;
+  threshold: number;
+}
+
+export interface BudgetExpense {
+  category: string;
+  type: "income" | "expense";
+  amount: number;
+  date: string;
+}
+
+// Percentages of a budget that trigger a warning, highest first
+export const BUDGET_THRESHOLDS = [100, 80];
+
+// Budgets are keyed by the first day of their month, e.g. "2025-11-01"
+export const toMonthKey = (date: Date | string) =>
+  typeof date === "string" ? `${date.slice(0, 7)}-01` : format(date, "yyyy-MM-01");
+
+export const shiftMonth = (monthKey: string, months: number) => toMonthKey(addMonths(parseISO(monthKey), months));
+
+// A one-off budget for the month wins; otherwise the latest recurring budget that has started
+export const getBudgetForMonth = (budgets: Budget[], categoryId: string, monthKey: string): Budget | undefined => {
+  const forCategory = budgets.filter((b) => b.category_id === categoryId && b.month <= monthKey);
+  const oneOff = forCategory.find((b) => !b.is_recurring && b.month === monthKey);
+  if (oneOff) return oneOff;
+
+  return forCategory
+    .filter((b) => b.is_recurring)
+    .sort((a, b) => b.month.localeCompare(a.month))[0];
+};
+
+// Spending against a parent category includes its sub-categories
+const spentByMonth = (category: Category, categories: Category[], expenses: BudgetExpense[]) => {
+  const totals: Record<string, number> = {};
+
+  expenses.forEach((expense) => {
+    if (expense.type !== "expense") return;
+    if (
+      expense.category !== category.name &&
+      getRootCategoryName(expense.category, "expense", categories) !== category.name
+    ) {
+      return;
+    }
+    const monthKey = toMonthKey(expense.date);
+    totals[monthKey] = addMoney(totals[monthKey], expense.amount);
+  });
+
+  return totals;
+};
+
+export const calculateBudgetStatuses = (
+  budgets: Budget[],
+  categories: Category[],
+  expenses: BudgetExpense[],
+  monthKey: string
+): BudgetStatus[] => {
+  const statuses: BudgetStatus[] = [];
+  const categoryIds = [...new Set(budgets.map((b) => b.category_id))];
+
+  categoryIds.forEach((categoryId) => {
+    const category = categories.find((c) => c.id === categoryId);
+    const budget = getBudgetForMonth(budgets, categoryId, monthKey);
+    if (!category || !budget) return;
+
+    const spent = spentByMonth(category, categories, expenses);
+
+    // Walk forward from the category's first budgeted month, carrying unused amounts
+    // through every month whose budget has rollover switched on
+    let carried = 0;
+    const firstMonth = budgets
+      .filter((b) => b.category_id === categoryId)
+      .reduce((earliest, b) => (b.month < earliest ? b.month : earliest), monthKey);
+    for (let month = firstMonth; month < monthKey; month = shiftMonth(month, 1)) {
+      const applied = getBudgetForMonth(budgets, categoryId, month);
+      if (!applied) {
+        carried = 0;
+        continue;
+      }
+      const available = addMoney(applied.amount, applied.rollover ? carried : 0);
+      carried = Math.max(0, subtractMoney(available, spent[month]));
+    }
+
+    if (!budget.rollover) carried = 0;
+    const available = addMoney(budget.amount, carried);
+    const spentThisMonth = spent[monthKey] || 0;
+
+    statuses.push({
+      category,
+      budget,
+      carried,
+      available,
+      spent: spentThisMonth,
+      percent: available > 0 ? (spentThisMonth / available) * 100 : 0,
+    });
+  });
+
+  return statuses.sort((a, b) => b.percent - a.percent);
+};
+
+export const fetchBudgets = async (): Promise<Budget[]> => {
+  const { data, error } = await supabase
+    .from("budgets")
+    .select("id, category_id, amount, month, is_recurring, rollover")
+    .order("month");
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Monthly expense totals per category from the first budgeted month onwards, which is all the
+// rollover walk needs. Each total is dated the first of its month and converted into `baseCurrency`
+export const fetchBudgetExpenses = async (budgets: Budget[], baseCurrency: string): Promise<BudgetExpense[]> => {
+  if (budgets.length === 0) return [];
+
+  const totals = await fetchTransactionTotals("month", true, { from: budgets[0].month, type: "expense", baseCurrency });
+  return totals.map((t) => ({ category: t.category || "", type: t.type, amount: Number(t.total), date: t.period! }));
+};
+
+// Budgets that an expense of `amount` just pushed past one of BUDGET_THRESHOLDS
+export const checkBudgetThresholds = async (
+  categoryName: string,
+  date: string,
+  amount: number,
+  categories: Category[],
+  baseCurrency: string
+): Promise<BudgetAlert[]> => {
+  const budgets = await fetchBudgets();
+  const expenses = await fetchBudgetExpenses(budgets, baseCurrency);
+  const root = getRootCategoryName(categoryName, "expense", categories);
+  const alerts: BudgetAlert[] = [];
+
+  calculateBudgetStatuses(budgets, categories, expenses, toMonthKey(date))
+    .filter((status) => status.category.name === categoryName || status.category.name === root)
+    .forEach((status) => {
+      const before = status.available > 0 ? (subtractMoney(status.spent, amount) / status.available) * 100 : 0;
+      const threshold = BUDGET_THRESHOLDS.find((t) => status.percent >= t && before < t);
+      if (threshold) alerts.push({ status, threshold });
+    });
+
+  return alerts;
+};
@@ -1,8 +1,8 @@
-import { 
-  Wallet, 
-  TrendingUp, 
-  Landmark, 
-  PlusCircle, 
+import {
+  Wallet,
+  TrendingUp,
+  Landmark,
+  PlusCircle,
   Briefcase,
   Fuel,
   Activity,
@@ -14,41 +14,146 @@ import {
   Gift,
   Package,
   MoreHorizontal,
+  Car,
+  Bus,
+  Coffee,
+  ShoppingCart,
+  GraduationCap,
+  Baby,
+  PawPrint,
+  Dumbbell,
+  Film,
+  Music,
+  Smartphone,
+  Wifi,
+  Zap,
+  Droplet,
+  Shirt,
+  Scissors,
+  Heart,
+  Shield,
+  PiggyBank,
+  Banknote,
+  Building,
+  Receipt,
   LucideIcon
 } from "lucide-react";
+import { addMoney } from "@/lib/money";
 
-export interface CategoryItem {
+export type CategoryType = "income" | "expense";
+
+export interface Category {
+  id: string;
   name: string;
-  icon: LucideIcon;
+  type: CategoryType;
+  icon: string;
+  color: string;
+  is_archived: boolean;
+  parent_id: string | null;
+}
+
+export interface CategoryTotals {
+  income: number;
+  expense: number;
+}
+
+export interface CategoryRollUp extends CategoryTotals {
+  // Totals per category that rolled up into this one, including the parent's own transactions
+  children: Record<string, CategoryTotals>;
 }
 
-export const INCOME_CATEGORIES: CategoryItem[] = [
-  { name: "Salary", icon: Wallet },
-  { name: "Share Trading", icon: TrendingUp },
-  { name: "HPK Bank", icon: Landmark },
-  { name: "Other Source", icon: PlusCircle },
-  { name: "Freelance", icon: Briefcase },
-];
-
-export const EXPENSE_CATEGORIES: CategoryItem[] = [
-  { name: "Fuel", icon: Fuel },
-  { name: "Medical", icon: Activity },
-  { name: "EMI", icon: CreditCard },
-  { name: "Rent", icon: Home },
-  { name: "Dining", icon: Utensils },
-  { name: "Shopping", icon: ShoppingBag },
-  { name: "Travel", icon: Plane },
-  { name: "Donation", icon: Gift },
-  { name: "Home Needs", icon: Package },
-  { name: "Other", icon: MoreHorizontal },
-];
-
-export type IncomeCategory = typeof INCOME_CATEGORIES[number]["name"];
-export type ExpenseCategory = typeof EXPENSE_CATEGORIES[number]["name"];
-export type Category = IncomeCategory | ExpenseCategory;
-
-export const getCategoryIcon = (categoryName: string): LucideIcon => {
-  const allCategories = [...INCOME_CATEGORIES, ...EXPENSE_CATEGORIES];
-  const category = allCategories.find(cat => cat.name === categoryName);
-  return category?.icon || MoreHorizontal;
+// Icons a category can use, keyed by the name stored in categories.icon
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  Wallet,
+  TrendingUp,
+  Landmark,
+  PlusCircle,
+  Briefcase,
+  Fuel,
+  Activity,
+  CreditCard,
+  Home,
+  Utensils,
+  ShoppingBag,
+  Plane,
+  Gift,
+  Package,
+  MoreHorizontal,
+  Car,
+  Bus,
+  Coffee,
+  ShoppingCart,
+  GraduationCap,
+  Baby,
+  PawPrint,
+  Dumbbell,
+  Film,
+  Music,
+  Smartphone,
+  Wifi,
+  Zap,
+  Droplet,
+  Shirt,
+  Scissors,
+  Heart,
+  Shield,
+  PiggyBank,
+  Banknote,
+  Building,
+  Receipt,
+};
+
+export const getIconByName = (iconName: string | null | undefined): LucideIcon => {
+  return (iconName && CATEGORY_ICONS[iconName]) || MoreHorizontal;
+};
+
+export const getCategoryIcon = (categoryName: string, categories: Category[]): LucideIcon => {
+  const category = categories.find(cat => cat.name === categoryName);
+  return getIconByName(category?.icon);
+};
+
+const findCategory = (categoryName: string, type: CategoryType, categories: Category[]) =>
+  categories.find(cat => cat.name === categoryName && cat.type === type);
+
+export const hasSubCategories = (category: Category, categories: Category[]): boolean => {
+  return categories.some(cat => cat.parent_id === category.id);
+};
+
+// The top-level category a transaction's category rolls up into
+export const getRootCategoryName = (categoryName: string, type: CategoryType, categories: Category[]): string => {
+  const category = findCategory(categoryName, type, categories);
+  const parent = category?.parent_id ? categories.find(cat => cat.id === category.parent_id) : undefined;
+  return parent ? parent.name : categoryName;
+};
+
+// "Food › Dining" for sub-categories, the plain name otherwise
+export const getCategoryLabel = (category: Category, categories: Category[]): string => {
+  const parent = category.parent_id ? categories.find(cat => cat.id === category.parent_id) : undefined;
+  return parent ? `${parent.name} › ${category.name}` : category.name;
+};
+
+export const rollUpCategoryTotals = (
+  transactions: { category: string; type: CategoryType; amount: number }[],
+  categories: Category[]
+): Record<string, CategoryRollUp> => {
+  const totals: Record<string, CategoryRollUp> = {};
+
+  transactions.forEach((transaction) => {
+    const category = transaction.category || "Uncategorized";
+    const root = getRootCategoryName(category, transaction.type, categories);
+
+    if (!totals[root]) {
+      totals[root] = { income: 0, expense: 0, children: {} };
+    }
+    if (!totals[root].children[category]) {
+      totals[root].children[category] = { income: 0, expense: 0 };
+    }
+    totals[root][transaction.type] = addMoney(totals[root][transaction.type], transaction.amount);
+    totals[root].children[category][transaction.type] = addMoney(
+      totals[root].children[category][transaction.type],
+      transaction.amount
+    );
+  });
+
+  return totals;
 };
@@ -0,0 +1,140 @@
+import { addDays, format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { addMoney, formatMoney, subtractMoney, sumMoney } from "@/lib/money";
+
+export type CreditType = "owe_me" | "i_owe";
+
+export type CreditStatus = "open" | "settled";
+
+export interface CreditPayment {
+  id: string;
+  credit_id: string;
+  amount: number;
+  date: string;
+  note: string | null;
+}
+
+export interface DueReminder {
+  credit_id: string;
+  person_name: string;
+  credit_type: string;
+  outstanding: number;
+  due_date: string;
+}
+
+export interface ReminderCredit {
+  id: string;
+  amount: number;
+  date: string;
+  due_date: string | null;
+  description: string | null;
+}
+
+export interface PersonBalance {
+  name: string;
+  owedToMe: number;
+  iOwe: number;
+  net: number;
+}
+
+// Sum of repayments recorded against each credit, keyed by credit id
+export const getPaidByCredit = (payments: CreditPayment[]) =>
+  payments.reduce<Record<string, number>>((acc, payment) => {
+    acc[payment.credit_id] = addMoney(acc[payment.credit_id], payment.amount);
+    return acc;
+  }, {});
+
+export const getOutstanding = (credit: { id: string; amount: number }, paidByCredit: Record<string, number>) =>
+  Math.max(0, subtractMoney(credit.amount, paidByCredit[credit.id]));
+
+export const getCreditStatus = (outstanding: number): CreditStatus => (outstanding < 0.005 ? "settled" : "open");
+
+// Outstanding amounts per person, largest net position first
+export const getPersonBalances = (
+  credits: { id: string; person_name: string; amount: number; type: CreditType }[],
+  paidByCredit: Record<string, number>
+): PersonBalance[] => {
+  const balances = credits.reduce<Record<string, PersonBalance>>((acc, credit) => {
+    const outstanding = getOutstanding(credit, paidByCredit);
+    const person = acc[credit.person_name] || { name: credit.person_name, owedToMe: 0, iOwe: 0, net: 0 };
+
+    if (credit.type === "owe_me") {
+      person.owedToMe = addMoney(person.owedToMe, outstanding);
+    } else {
+      person.iOwe = addMoney(person.iOwe, outstanding);
+    }
+    person.net = subtractMoney(person.owedToMe, person.iOwe);
+    acc[credit.person_name] = person;
+    return acc;
+  }, {});
+
+  return Object.values(balances).sort((a, b) => Math.abs(b.net) - Math.abs(a.net));
+};
+
+// How long before the due date the first reminder shows; "none" switches reminders off
+export const REMIND_BEFORE_OPTIONS = [
+  { value: "none", label: "No reminder" },
+  { value: "0", label: "On the due date" },
+  { value: "1", label: "1 day before" },
+  { value: "3", label: "3 days before" },
+  { value: "7", label: "1 week before" },
+];
+
+export const REMIND_EVERY_OPTIONS = [
+  { value: "none", label: "Don't repeat" },
+  { value: "1", label: "Every day" },
+  { value: "3", label: "Every 3 days" },
+  { value: "7", label: "Every week" },
+  { value: "30", label: "Every 30 days" },
+];
+
+export const toDateKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+export const isOverdue = (credit: { due_date: string | null }, outstanding: number, today: string) =>
+  !!credit.due_date && credit.due_date < today && getCreditStatus(outstanding) === "open";
+
+// Open credits falling due from today through the next `days` days
+export const isDueWithin = (credit: { due_date: string | null }, outstanding: number, today: string, days: number) =>
+  !!credit.due_date &&
+  credit.due_date >= today &&
+  credit.due_date <= toDateKey(addDays(parseISO(today), days)) &&
+  getCreditStatus(outstanding) === "open";
+
+const formatReminderDate = (date: string) => format(parseISO(date), "d MMM yyyy");
+
+// Plain-text message listing what a person still owes, ready to paste into WhatsApp or SMS
+export const buildReminderText = (
+  personName: string,
+  credits: ReminderCredit[],
+  paidByCredit: Record<string, number>
+) => {
+  const open = credits.filter((c) => getCreditStatus(getOutstanding(c, paidByCredit)) === "open");
+  const total = sumMoney(open.map((c) => getOutstanding(c, paidByCredit)));
+
+  const lines = open.map((credit) => {
+    const paid = paidByCredit[credit.id] || 0;
+    const outstanding = getOutstanding(credit, paidByCredit);
+    let line = `• ${formatMoney(credit.amount)} on ${formatReminderDate(credit.date)}`;
+    if (credit.description) line += ` (${credit.description})`;
+    if (paid > 0) line += ` - ${formatMoney(paid)} paid, ${formatMoney(outstanding)} left`;
+    if (credit.due_date) line += `, due ${formatReminderDate(credit.due_date)}`;
+    return line;
+  });
+
+  return [
+    `Hi ${personName}, a friendly reminder about the money you owe me:`,
+    ...lines,
+    `Total outstanding: ${formatMoney(total)}`,
+    "Thank you!",
+  ].join("\n");
+};
+
+// Reminders that fell due since the app was last opened; each is returned once per interval
+export const claimDueCreditReminders = async (): Promise<DueReminder[]> => {
+  const { data, error } = await supabase.rpc("claim_due_credit_reminders", {
+    p_today: toDateKey(new Date()),
+  });
+
+  if (error) throw error;
+  return data || [];
+};
@@ -0,0 +1,112 @@
+import { format, isValid, parse } from "date-fns";
+
+export const DEFAULT_CURRENCY = "INR";
+
+const BASE_CURRENCY_KEY = "base-currency";
+
+export interface CurrencyInfo {
+  code: string;
+  symbol: string;
+  name: string;
+}
+
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: "INR", symbol: "₹", name: "Indian Rupee" },
+  { code: "USD", symbol: "$", name: "US Dollar" },
+  { code: "AED", symbol: "AED", name: "UAE Dirham" },
+  { code: "EUR", symbol: "€", name: "Euro" },
+  { code: "GBP", symbol: "£", name: "British Pound" },
+  { code: "SAR", symbol: "SAR", name: "Saudi Riyal" },
+  { code: "QAR", symbol: "QAR", name: "Qatari Riyal" },
+  { code: "KWD", symbol: "KWD", name: "Kuwaiti Dinar" },
+  { code: "OMR", symbol: "OMR", name: "Omani Rial" },
+  { code: "SGD", symbol: "S$", name: "Singapore Dollar" },
+  { code: "AUD", symbol: "A$", name: "Australian Dollar" },
+  { code: "CAD", symbol: "C$", name: "Canadian Dollar" },
+  { code: "JPY", symbol: "¥", name: "Japanese Yen" },
+];
+
+export const isCurrencyCode = (value: string) => /^[A-Z]{3}$/.test(value);
+
+export const currencySymbol = (code: string) => CURRENCIES.find((c) => c.code === code)?.symbol ?? code;
+
+export interface ExchangeRate {
+  id: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  date: string;
+}
+
+export interface ExchangeRateInput {
+  id?: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  date: string;
+}
+
+// Mirrors public.exchange_rate: the latest rate on or before the day, else the earliest after it,
+// with rates entered the other way round inverted. Null when the pair has no rate at all.
+export const findRate = (rates: ExchangeRate[], from: string, to: string, on: string): number | null => {
+  if (from === to) return 1;
+
+  const candidates = rates.filter(
+    (r) => (r.from_currency === from && r.to_currency === to) || (r.from_currency === to && r.to_currency === from)
+  );
+  if (candidates.length === 0) return null;
+
+  const distance = (date: string) => Math.abs(new Date(date).getTime() - new Date(on).getTime());
+  const [best] = [...candidates].sort(
+    (a, b) =>
+      Number(a.date > on) - Number(b.date > on) ||
+      distance(a.date) - distance(b.date) ||
+      Number(b.from_currency === from) - Number(a.from_currency === from)
+  );
+  return best.from_currency === from ? Number(best.rate) : 1 / Number(best.rate);
+};
+
+// The base currency totals are shown in on this device
+export const getBaseCurrency = () => localStorage.getItem(BASE_CURRENCY_KEY) || DEFAULT_CURRENCY;
+
+export const setBaseCurrency = (code: string) => localStorage.setItem(BASE_CURRENCY_KEY, code);
+
+export interface ParsedRates {
+  rates: ExchangeRateInput[];
+  errors: string[];
+}
+
+const CSV_DATE_FORMATS = ["yyyy-MM-dd", "dd/MM/yyyy", "dd-MM-yyyy"];
+
+// Rates CSV: date, from, to, rate, one per line, with an optional header row
+export const parseRatesCsv = (text: string): ParsedRates => {
+  const result: ParsedRates = { rates: [], errors: [] };
+
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .forEach((line, index) => {
+      if (!line) return;
+
+      const [rawDate = "", rawFrom = "", rawTo = "", rawRate = ""] = line.split(",").map((cell) => cell.trim());
+      if (index === 0 && rawDate.toLowerCase() === "date") return;
+
+      const row = index + 1;
+      const date = CSV_DATE_FORMATS.map((f) => parse(rawDate, f, new Date())).find(isValid);
+      const from = rawFrom.toUpperCase();
+      const to = rawTo.toUpperCase();
+      const rate = parseFloat(rawRate);
+
+      if (!date) {
+        result.errors.push(`Line ${row}: "${rawDate}" is not a date`);
+      } else if (!isCurrencyCode(from) || !isCurrencyCode(to) || from === to) {
+        result.errors.push(`Line ${row}: expected two different currency codes like USD and INR`);
+      } else if (!Number.isFinite(rate) || rate <= 0) {
+        result.errors.push(`Line ${row}: "${rawRate}" is not a valid rate`);
+      } else {
+        result.rates.push({ date: format(date, "yyyy-MM-dd"), from_currency: from, to_currency: to, rate });
+      }
+    });
+
+  return result;
+};
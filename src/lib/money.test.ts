@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { addMoney, convertTotal, fromPaise, roundMoney, subtractMoney, sumMoney, toPaise } from "@/lib/money";
+
+// Amounts as Postgres returns DECIMAL(15,2) columns, from a fixed seed so failures are repeatable
+const decimalAmounts = (count: number) => {
+  let seed = 42;
+  const next = () => (seed = (seed * 16807) % 2147483647);
+  return Array.from({ length: count }, () => {
+    const cents = next() % 10_000_000;
+    const sign = next() % 5 === 0 ? "-" : "";
+    return `${sign}${Math.floor(cents / 100)}.${String(cents % 100).padStart(2, "0")}`;
+  });
+};
+
+// What SUM(amount) gives for DECIMAL(15,2): exact integer cents, worked out without floats
+const decimalSum = (amounts: string[]) => {
+  const cents = amounts.reduce((sum, amount) => sum + BigInt(amount.replace(".", "")), 0n);
+  const sign = cents < 0n ? "-" : "";
+  const digits = (cents < 0n ? -cents : cents).toString().padStart(3, "0");
+  return `${sign}${digits.slice(0, -2)}.${digits.slice(-2)}`;
+};
+
+describe("sumMoney", () => {
+  it("matches the exact decimal sum of many 2-decimal amounts", () => {
+    const amounts = decimalAmounts(5000);
+    const expected = decimalSum(amounts);
+
+    expect(sumMoney(amounts)).toBe(Number(expected));
+    expect(sumMoney(amounts).toFixed(2)).toBe(expected);
+  });
+
+  it("matches the exact decimal sum at every step of a running total", () => {
+    const amounts = decimalAmounts(500);
+    amounts.forEach((_, index) => {
+      const upTo = amounts.slice(0, index + 1);
+      expect(sumMoney(upTo)).toBe(Number(decimalSum(upTo)));
+    });
+  });
+
+  it("does not drift where float addition does", () => {
+    expect(sumMoney([0.1, 0.2])).toBe(0.3);
+    expect(sumMoney(Array(10).fill(0.1))).toBe(1);
+    expect(sumMoney(Array(3).fill("19.99"))).toBe(59.97);
+    expect(sumMoney(["1000000.10", "-999999.90"])).toBe(0.2);
+  });
+
+  it("treats an empty list and missing amounts as zero", () => {
+    expect(sumMoney([])).toBe(0);
+    expect(sumMoney([null, undefined, "12.50"])).toBe(12.5);
+  });
+});
+
+describe("toPaise", () => {
+  it("rounds halfway cases away from zero like Postgres ROUND", () => {
+    expect(toPaise(1.005)).toBe(101);
+    expect(toPaise(-1.005)).toBe(-101);
+    expect(toPaise(2.675)).toBe(268);
+    expect(toPaise(-0.005)).toBe(-1);
+    expect(toPaise(0.005)).toBe(1);
+    expect(roundMoney(2.675)).toBe(2.68);
+  });
+
+  it("rounds below halfway towards zero without leaving a negative zero", () => {
+    expect(toPaise(1.004)).toBe(100);
+    expect(Object.is(toPaise(-0.004), 0)).toBe(true);
+  });
+
+  it("reads numeric strings", () => {
+    expect(toPaise("1234.56")).toBe(123456);
+    expect(toPaise("-0.01")).toBe(-1);
+  });
+});
+
+describe("addMoney and subtractMoney", () => {
+  it("count null and undefined as zero", () => {
+    expect(addMoney(null, 5.25)).toBe(5.25);
+    expect(addMoney(undefined, undefined)).toBe(0);
+    expect(addMoney(0.1, null, 0.2, undefined)).toBe(0.3);
+    expect(subtractMoney(null, 2.5)).toBe(-2.5);
+    expect(subtractMoney(10, undefined)).toBe(10);
+    expect(subtractMoney(undefined, null)).toBe(0);
+  });
+
+  it("give exact differences", () => {
+    expect(subtractMoney(0.3, 0.1)).toBe(0.2);
+    expect(subtractMoney("100.00", "99.99")).toBe(0.01);
+    expect(subtractMoney(5, 7.5)).toBe(-2.5);
+  });
+});
+
+describe("fromPaise", () => {
+  it("round-trips every 2-decimal amount through toPaise", () => {
+    decimalAmounts(5000).forEach((amount) => {
+      expect(fromPaise(toPaise(amount))).toBe(Number(amount));
+    });
+    for (let paise = -1000; paise <= 1000; paise++) {
+      expect(toPaise(fromPaise(paise))).toBe(paise);
+    }
+  });
+});
+
+describe("convertTotal", () => {
+  const rates = [
+    { id: "1", from_currency: "USD", to_currency: "INR", rate: 83.3333, date: "2025-11-01" },
+    { id: "2", from_currency: "INR", to_currency: "AED", rate: 0.044, date: "2025-11-01" },
+  ];
+
+  it("rounds each converted amount to paise before adding", () => {
+    const { total, missing } = convertTotal(
+      [
+        { amount: 0.1, currency: "USD" },
+        { amount: 0.1, currency: "USD" },
+        { amount: 0.1, currency: "USD" },
+        { amount: 100.1, currency: "INR" },
+      ],
+      "INR",
+      rates,
+      "2025-11-30"
+    );
+
+    // 0.1 USD is 8.33333 INR, which rounds to 8.33 each time
+    expect(total).toBe(125.09);
+    expect(missing.size).toBe(0);
+  });
+
+  it("leaves out and names currencies without a rate, inverting rates entered the other way round", () => {
+    const { total, missing } = convertTotal(
+      [
+        { amount: 44, currency: "AED" },
+        { amount: 10, currency: "GBP" },
+      ],
+      "INR",
+      rates,
+      "2025-11-30"
+    );
+
+    expect(total).toBe(1000);
+    expect([...missing]).toEqual(["GBP"]);
+  });
+});
@@ -0,0 +1,105 @@
+import { currencySymbol, DEFAULT_CURRENCY, ExchangeRate, findRate } from "@/lib/currency";
+
+// Rupees group in lakhs and crores (1,20,00,000); other currencies follow the browser's locale
+const localeFor = (currency: string) => (currency === "INR" ? "en-IN" : undefined);
+
+export interface MoneyFormatOptions {
+  currency?: string | null;
+  // Overrides the currency's own symbol, e.g. "Rs." or "" for a bare number
+  symbol?: string;
+  // Short form for tight spaces: ₹1.2L, ₹3.4Cr, $1.2M
+  compact?: boolean;
+  // "+" in front of positive amounts, for changes and differences
+  showPlus?: boolean;
+}
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const numberFormat = (currency: string, compact: boolean) => {
+  const key = `${currency}|${compact}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(
+      localeFor(currency),
+      compact
+        ? { notation: "compact", maximumFractionDigits: 1 }
+        : { minimumFractionDigits: 2, maximumFractionDigits: 2 }
+    );
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+// Codes used as symbols (AED, QAR) read better with a space before the number
+const withSymbol = (symbol: string, digits: string) => (/^[A-Z]{2,}$/.test(symbol) ? `${symbol} ${digits}` : `${symbol}${digits}`);
+
+// The one way amounts are written out: sign first, then the symbol, then grouped digits (-₹1,20,000.50)
+export const formatMoney = (amount: number | string, options: MoneyFormatOptions = {}) => {
+  const currency = options.currency || DEFAULT_CURRENCY;
+  const symbol = options.symbol ?? currencySymbol(currency);
+  const value = Number(amount) || 0;
+  // Never print "-₹0.00" for a rounding leftover
+  const rounded = Math.abs(value) < 0.005 ? 0 : value;
+
+  const digits = numberFormat(currency, !!options.compact).format(Math.abs(rounded));
+  const sign = rounded < 0 ? "-" : options.showPlus && rounded > 0 ? "+" : "";
+  return `${sign}${withSymbol(symbol, digits)}`;
+};
+
+// Grouped digits without a symbol, as shown in the money input after it loses focus
+export const formatAmountInput = (amount: number, currency?: string | null) =>
+  numberFormat(currency || DEFAULT_CURRENCY, false).format(amount);
+
+// Reads amounts the way people type or paste them: "1,20,000.50", "₹ 2,500", "Rs.1,234.5", "-300".
+// Null for anything that isn't a plain amount
+export const parseMoney = (text: string): number | null => {
+  const cleaned = text.replace(/[\s,]/g, "").replace(/^(-?)(?:[A-Za-z]+\.?|[^\d.A-Za-z-])*/, "$1");
+  if (!/^-?(\d+\.?\d*|\.\d+)$/.test(cleaned)) return null;
+  return Number(cleaned);
+};
+
+// Sums and differences are worked out in whole paise, the way the database adds up its DECIMAL(15,2)
+// columns, so long lists of amounts don't drift into 0.30000000000000004
+export type Paise = number;
+
+// Rounds half away from zero like Postgres ROUND; toPrecision first so 1.005 * 100 (100.49999…) counts as 100.5
+export const toPaise = (amount: number | string | null | undefined): Paise => {
+  const value = Number(amount) || 0;
+  const paise = Math.round(Number((Math.abs(value) * 100).toPrecision(15)));
+  return value < 0 && paise !== 0 ? -paise : paise;
+};
+
+export const fromPaise = (paise: Paise) => paise / 100;
+
+export const roundMoney = (amount: number | string | null | undefined) => fromPaise(toPaise(amount));
+
+export const sumMoney = (amounts: Iterable<number | string | null | undefined>) => {
+  let total = 0;
+  for (const amount of amounts) total += toPaise(amount);
+  return fromPaise(total);
+};
+
+export const addMoney = (...amounts: (number | string | null | undefined)[]) => sumMoney(amounts);
+
+export const subtractMoney = (amount: number | string | null | undefined, less: number | string | null | undefined) =>
+  fromPaise(toPaise(amount) - toPaise(less));
+
+// Sums amounts held in different currencies into one; anything without a rate is left out and counted.
+// Each converted amount is rounded to paise before it is added
+export const convertTotal = (
+  amounts: { amount: number; currency: string }[],
+  base: string,
+  rates: ExchangeRate[],
+  on: string
+) => {
+  const { paise, missing } = amounts.reduce(
+    (acc, { amount, currency }) => {
+      const rate = findRate(rates, currency, base, on);
+      if (rate === null) acc.missing.add(currency);
+      else acc.paise += toPaise(Number(amount) * rate);
+      return acc;
+    },
+    { paise: 0, missing: new Set<string>() }
+  );
+  return { total: fromPaise(paise), missing };
+};
@@ -0,0 +1,207 @@
+import { QueryClient, onlineManager } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { deleteValue, readAll, writeValue } from "@/lib/offlineStore";
+
+export type OfflineMutationKind =
+  | "saveTransaction"
+  | "saveSplitExpense"
+  | "deleteTransaction"
+  | "saveTransfer"
+  | "deleteTransfer"
+  | "saveCredit"
+  | "deleteCredit"
+  | "recordCreditPayment"
+  | "deleteCreditPayment";
+
+export type QueueStatus = "pending" | "conflict" | "failed";
+
+// The existing row a queued edit or delete applies to
+export interface QueueTarget {
+  table: "transactions" | "transfers" | "credits" | "credit_payments";
+  id: string;
+  // The row's updated_at when the change was made offline; null only checks the row still exists
+  updatedAt: string | null;
+}
+
+export interface QueuedMutation {
+  id: string;
+  userId: string;
+  kind: OfflineMutationKind;
+  input: unknown;
+  // Shown in the pending changes list, e.g. "Expense ₹120.00 · Food"
+  label: string;
+  target: QueueTarget | null;
+  queuedAt: string;
+  status: QueueStatus;
+  error: string | null;
+  // Set when the user chose to keep their change over one made elsewhere
+  force: boolean;
+}
+
+export interface QueueDetails {
+  label: string;
+  target?: QueueTarget | null;
+}
+
+// What a mutation resolves to when it was saved for later instead of sent
+export const QUEUED: unique symbol = Symbol("queued");
+
+// Shown in place of the usual confirmation when a change was queued
+export const SAVED_OFFLINE = {
+  title: "Saved offline",
+  description: "It will sync when you're back online.",
+};
+
+type Executor = (input: unknown) => Promise<unknown>;
+
+const executors = new Map<OfflineMutationKind, Executor>();
+const listeners = new Set<() => void>();
+let replaying: Promise<number> | null = null;
+
+const notify = () => listeners.forEach((listener) => listener());
+
+// Called whenever the queue changes. Returns a function that unsubscribes
+export const subscribeToQueue = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const isReplaying = () => replaying !== null;
+
+export const getQueue = async (userId: string) =>
+  (await readAll<QueuedMutation>("queue"))
+    .filter((item) => item.userId === userId)
+    .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+
+const saveItem = async (item: QueuedMutation) => {
+  await writeValue("queue", item);
+  notify();
+};
+
+const removeItem = async (id: string) => {
+  await deleteValue("queue", id);
+  notify();
+};
+
+// A request that never reached the server, as opposed to one the server refused
+const isNetworkError = (error: unknown) => {
+  if (!onlineManager.isOnline()) return true;
+  const message = (error as { message?: string } | null)?.message || "";
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+};
+
+// Wraps a mutation so that, without a connection, it is stored and replayed later instead of failing.
+// The wrapped function resolves to QUEUED in that case
+export const offlineMutation = <TInput, TResult>(
+  kind: OfflineMutationKind,
+  mutate: (input: TInput) => Promise<TResult>
+) => {
+  executors.set(kind, mutate as Executor);
+
+  return async (input: TInput, details: QueueDetails): Promise<TResult | typeof QUEUED> => {
+    if (onlineManager.isOnline()) {
+      try {
+        return await mutate(input);
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+
+    // The session is kept locally, so this works offline
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error("Not authenticated");
+
+    // A row already changed by an earlier queued change will have moved on by the time this one is
+    // sent, so only its existence can be checked
+    const target = details.target ?? null;
+    const queue = await getQueue(session.user.id);
+    const follows = target && queue.some((item) => item.target?.id === target.id);
+
+    await saveItem({
+      id: crypto.randomUUID(),
+      userId: session.user.id,
+      kind,
+      input,
+      label: details.label,
+      target: follows ? { ...target, updatedAt: null } : target,
+      queuedAt: new Date().toISOString(),
+      status: "pending",
+      error: null,
+      force: false,
+    });
+    return QUEUED;
+  };
+};
+
+// Whether the row a queued edit or delete applies to is still as it was when the change was made
+const checkTarget = async (target: QueueTarget) => {
+  const { data, error } = await supabase.from(target.table).select("updated_at").eq("id", target.id).maybeSingle();
+
+  if (error) throw error;
+  if (!data) return "missing";
+  return target.updatedAt && data.updated_at !== target.updatedAt ? "changed" : "unchanged";
+};
+
+const replayItem = async (item: QueuedMutation) => {
+  const state = item.target && !item.force ? await checkTarget(item.target) : "unchanged";
+  if (state === "missing" && item.kind.startsWith("delete")) {
+    // Already gone, so there is nothing left to do
+    await removeItem(item.id);
+    return true;
+  }
+  if (state !== "unchanged") {
+    await saveItem({
+      ...item,
+      status: "conflict",
+      error:
+        state === "missing"
+          ? "It was deleted on another device."
+          : "It was changed on another device after you edited it offline.",
+    });
+    return false;
+  }
+
+  const execute = executors.get(item.kind);
+  if (!execute) {
+    await saveItem({ ...item, status: "failed", error: "This kind of change can't be synced." });
+    return false;
+  }
+
+  await execute(item.input);
+  await removeItem(item.id);
+  return true;
+};
+
+// Sends the user's pending changes in the order they were made, then refetches if any went through.
+// Conflicting or refused changes are held back for the user to resolve; a lost connection stops the run
+export const replayQueue = (queryClient: QueryClient, userId: string) => {
+  replaying ??= (async () => {
+    let applied = 0;
+    try {
+      for (const item of await getQueue(userId)) {
+        if (item.status !== "pending") continue;
+        try {
+          if (await replayItem(item)) applied++;
+        } catch (error) {
+          if (isNetworkError(error)) break;
+          await saveItem({ ...item, status: "failed", error: (error as Error).message });
+        }
+      }
+    } finally {
+      replaying = null;
+      notify();
+    }
+    if (applied > 0) await queryClient.invalidateQueries();
+    return applied;
+  })();
+  notify();
+  return replaying;
+};
+
+// Sends a held-back change on the next replay; with `force` it overrides changes made elsewhere
+export const retryQueued = (item: QueuedMutation, force = false) =>
+  saveItem({ ...item, status: "pending", error: null, force: force || item.force });
+
+export const discardQueued = (item: QueuedMutation) => removeItem(item.id);
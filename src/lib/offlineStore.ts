@@ -0,0 +1,77 @@
+import { QueryClient, dehydrate, hydrate } from "@tanstack/react-query";
+
+const DB_NAME = "finance-tracker";
+const DB_VERSION = 1;
+
+// "snapshots" holds a copy of each user's cached queries, "queue" the changes waiting to sync
+export type OfflineStoreName = "snapshots" | "queue";
+
+// Writes to the local copy are batched rather than made on every cache update
+const PERSIST_DELAY_MS = 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore("snapshots");
+      request.result.createObjectStore("queue", { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+};
+
+const run = async <T>(
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const readValue = <T>(storeName: OfflineStoreName, key: string) =>
+  run<T | undefined>(storeName, "readonly", (store) => store.get(key));
+
+export const readAll = <T>(storeName: OfflineStoreName) => run<T[]>(storeName, "readonly", (store) => store.getAll());
+
+// Stores with a key path ("queue") take the key from the value itself
+export const writeValue = (storeName: OfflineStoreName, value: unknown, key?: string) =>
+  run<IDBValidKey>(storeName, "readwrite", (store) => store.put(value, key));
+
+export const deleteValue = (storeName: OfflineStoreName, key: string) =>
+  run<undefined>(storeName, "readwrite", (store) => store.delete(key));
+
+// Loads the user's last saved copy of the cache, so pages have data before (or without) a connection
+export const restoreQueryCache = async (queryClient: QueryClient, userId: string) => {
+  const snapshot = await readValue<ReturnType<typeof dehydrate>>("snapshots", userId);
+  if (snapshot) hydrate(queryClient, snapshot);
+};
+
+// Keeps the saved copy in step with the cache. Returns a function that stops persisting
+export const persistQueryCache = (queryClient: QueryClient, userId: string) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const unsubscribe = queryClient.getQueryCache().subscribe(() => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      writeValue("snapshots", dehydrate(queryClient), userId).catch((error) =>
+        console.error("Error saving offline copy:", error)
+      );
+    }, PERSIST_DELAY_MS);
+  });
+
+  return () => {
+    clearTimeout(timer);
+    unsubscribe();
+  };
+};
+
+export const clearQueryCache = (userId: string) => deleteValue("snapshots", userId);
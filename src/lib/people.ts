@@ -0,0 +1,30 @@
+export interface Person {
+  id: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  notes: string | null;
+  aliases: string[];
+}
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+// Mirrors the database's name resolution: an exact name match wins over an alias
+export const findPerson = (name: string, people: Person[]): Person | undefined => {
+  const key = normalize(name);
+  if (!key) return undefined;
+
+  return (
+    people.find((p) => normalize(p.name) === key) ||
+    people.find((p) => p.aliases.some((alias) => normalize(alias) === key))
+  );
+};
+
+export const parseAliases = (text: string) => [
+  ...new Set(
+    text
+      .split(",")
+      .map((alias) => alias.trim())
+      .filter(Boolean)
+  ),
+];
@@ -0,0 +1,35 @@
+import { TotalsPeriod, TotalsQuery, TransactionFilters } from "@/lib/transactions";
+
+// Every cached query is keyed from here. Anything derived from transactions lives under
+// "transactions" so a single invalidation refreshes the lists, totals and budget spending together
+export const queryKeys = {
+  banks: ["banks"] as const,
+  ledgerBalances: ["banks", "ledger"] as const,
+  cardStatements: ["banks", "statements"] as const,
+  transactions: {
+    all: ["transactions"] as const,
+    lists: ["transactions", "list"] as const,
+    list: (filters: TransactionFilters, categories: string[]) => ["transactions", "list", filters, categories] as const,
+    recent: (limit: number) => ["transactions", "recent", limit] as const,
+    totals: (period: TotalsPeriod, byCategory: boolean, query: TotalsQuery) =>
+      ["transactions", "totals", period, byCategory, query] as const,
+    budgetExpenses: (fromMonth: string | null, baseCurrency: string) =>
+      ["transactions", "budget-expenses", fromMonth, baseCurrency] as const,
+    creditLinks: ["transactions", "credit-links"] as const,
+    byPerson: (name: string) => ["transactions", "person", name] as const,
+  },
+  transfers: ["transfers"] as const,
+  credits: {
+    all: ["credits"] as const,
+    list: ["credits", "list"] as const,
+    payments: ["credits", "payments"] as const,
+  },
+  people: {
+    all: ["people"] as const,
+    detail: (id: string) => ["people", id] as const,
+  },
+  categories: ["categories"] as const,
+  budgets: ["budgets"] as const,
+  recurring: ["recurring"] as const,
+  exchangeRates: ["exchange-rates"] as const,
+};
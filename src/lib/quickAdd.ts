@@ -0,0 +1,25 @@
+import { CategoryType } from "@/lib/categories";
+
+const STORAGE_KEY = "quick-add:last-used";
+
+export interface LastUsed {
+  bankId: string;
+  category: string;
+}
+
+// The bank and category last picked for each type on this device, used to prefill new transactions
+const readAll = (): Partial<Record<CategoryType, LastUsed>> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+export const getLastUsed = (type: CategoryType): LastUsed | null => readAll()[type] ?? null;
+
+export const rememberLastUsed = (type: CategoryType, lastUsed: LastUsed) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readAll(), [type]: lastUsed }));
+};
+
+export const parseQuickAddType = (value: string | null): CategoryType => (value === "income" ? "income" : "expense");
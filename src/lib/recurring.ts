@@ -0,0 +1,34 @@
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+
+export type Frequency = "daily" | "weekly" | "monthly" | "yearly";
+
+export const FREQUENCIES: { value: Frequency; label: string }[] = [
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+  { value: "yearly", label: "Yearly" },
+];
+
+const ordinal = (day: number) => {
+  const suffix = day % 10 === 1 && day !== 11 ? "st" : day % 10 === 2 && day !== 12 ? "nd" : day % 10 === 3 && day !== 13 ? "rd" : "th";
+  return `${day}${suffix}`;
+};
+
+export const describeSchedule = (frequency: Frequency, dayOfMonth: number | null) => {
+  if (frequency === "monthly" && dayOfMonth) {
+    return `Monthly on the ${ordinal(dayOfMonth)}`;
+  }
+  return FREQUENCIES.find((f) => f.value === frequency)?.label || frequency;
+};
+
+// Post every occurrence that has fallen due up to today (in the user's timezone).
+// Returns the number of transactions created.
+export const processDueRecurringTransactions = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc("process_recurring_transactions", {
+    p_today: format(new Date(), "yyyy-MM-dd"),
+  });
+
+  if (error) throw error;
+  return data || 0;
+};
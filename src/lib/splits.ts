@@ -0,0 +1,57 @@
+import { roundMoney, subtractMoney, sumMoney } from "@/lib/money";
+
+export type SplitMode = "equal" | "percentage" | "exact";
+
+export const SPLIT_MODES: { value: SplitMode; label: string }[] = [
+  { value: "equal", label: "Equally" },
+  { value: "percentage", label: "By percentage" },
+  { value: "exact", label: "By exact amounts" },
+];
+
+export interface SplitParticipant {
+  person_name: string;
+  // A percentage or an amount depending on the mode; unused when splitting equally
+  value: string;
+}
+
+export interface SplitShare {
+  person_name: string;
+  amount: number;
+}
+
+export interface SplitResult {
+  ownShare: number;
+  shares: SplitShare[];
+  error?: string;
+}
+
+// Work out everyone's share of `total`. Our own share takes whatever is left, so rounding
+// never makes the shares drift from the total.
+export const calculateSplit = (total: number, mode: SplitMode, participants: SplitParticipant[]): SplitResult => {
+  if (!(total > 0)) return { ownShare: 0, shares: [], error: "Enter the total amount first" };
+  if (participants.length === 0) return { ownShare: total, shares: [], error: "Add at least one person" };
+  if (participants.some((p) => !p.person_name.trim())) {
+    return { ownShare: total, shares: [], error: "Every person needs a name" };
+  }
+
+  const shares = participants.map((p) => {
+    const value = parseFloat(p.value) || 0;
+    const amount =
+      mode === "equal"
+        ? total / (participants.length + 1)
+        : mode === "percentage"
+          ? (total * value) / 100
+          : value;
+    return { person_name: p.person_name.trim(), amount: roundMoney(amount) };
+  });
+
+  const ownShare = subtractMoney(total, sumMoney(shares.map((s) => s.amount)));
+
+  if (shares.some((s) => s.amount <= 0)) {
+    return { ownShare, shares, error: "Every share must be greater than zero" };
+  }
+  if (ownShare < 0) {
+    return { ownShare, shares, error: "The shares add up to more than the total" };
+  }
+  return { ownShare, shares };
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { detectDateFormat, parseStatementDate } from "@/lib/statementImport";
+
+describe("parseStatementDate", () => {
+  it("parses a four-digit year", () => {
+    expect(parseStatementDate("05/03/2024", "dd/MM/yyyy")).toBe("2024-03-05");
+  });
+
+  it("rejects a two-digit year read with a four-digit format", () => {
+    expect(parseStatementDate("05/03/24", "dd/MM/yyyy")).toBeNull();
+    expect(parseStatementDate("05/03/24", "MM/dd/yyyy")).toBeNull();
+  });
+});
+
+describe("detectDateFormat", () => {
+  it("picks the two-digit year format for two-digit year samples", () => {
+    const format = detectDateFormat(["05/03/24", "28/02/24", "01/12/23"]);
+
+    expect(format).toBe("dd/MM/yy");
+    expect(parseStatementDate("05/03/24", format)).toBe("2024-03-05");
+  });
+
+  it("keeps the four-digit year format for four-digit year samples", () => {
+    expect(detectDateFormat(["05/03/2024", "28/02/2024"])).toBe("dd/MM/yyyy");
+  });
+});
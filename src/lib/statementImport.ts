@@ -0,0 +1,158 @@
+import { format, isValid, parse } from "date-fns";
+
+export type StatementField = "date" | "description" | "debit" | "credit" | "balance";
+
+export type ColumnMapping = Record<StatementField, number | null>;
+
+export const STATEMENT_FIELDS: { field: StatementField; label: string; required: boolean }[] = [
+  { field: "date", label: "Date", required: true },
+  { field: "description", label: "Description", required: false },
+  { field: "debit", label: "Debit (money out)", required: false },
+  { field: "credit", label: "Credit (money in)", required: false },
+  { field: "balance", label: "Balance", required: false },
+];
+
+export const DATE_FORMATS = ["dd/MM/yyyy", "dd-MM-yyyy", "MM/dd/yyyy", "yyyy-MM-dd", "dd MMM yyyy", "dd-MMM-yyyy", "dd/MM/yy"];
+
+export interface StatementRow {
+  index: number;
+  date: string | null;
+  description: string;
+  type: "income" | "expense" | null;
+  amount: number;
+  balance: number | null;
+}
+
+// Parse CSV text into rows of cells, honouring quoted fields, escaped quotes and CRLF line endings
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+};
+
+// Parse amounts as printed on statements, e.g. "1,20,000.50", "₹ 450.00", "Rs. 450", "(300.00)" or "12.00 Dr"
+export const parseStatementAmount = (value: string | undefined): number | null => {
+  if (!value) return null;
+  let cleaned = value.trim();
+  if (!cleaned) return null;
+
+  const negative = /^\(.*\)$/.test(cleaned) || cleaned.startsWith("-") || /dr\.?$/i.test(cleaned);
+  cleaned = cleaned.replace(/rs\.|inr/gi, "").replace(/[^0-9.]/g, "");
+  if (!cleaned) return null;
+
+  const amount = parseFloat(cleaned);
+  if (isNaN(amount)) return null;
+  return negative ? -amount : amount;
+};
+
+// Years before 1900 are rejected, so a two-digit year like "05/03/24" doesn't pass as 0024 under a yyyy format
+export const parseStatementDate = (value: string | undefined, dateFormat: string): string | null => {
+  if (!value) return null;
+  const parsed = parse(value.trim(), dateFormat, new Date());
+  return isValid(parsed) && parsed.getFullYear() >= 1900 ? format(parsed, "yyyy-MM-dd") : null;
+};
+
+// Pick the first date format that parses every sampled value
+export const detectDateFormat = (values: string[]): string => {
+  const sample = values.filter((v) => v && v.trim()).slice(0, 20);
+  return DATE_FORMATS.find((f) => sample.every((v) => parseStatementDate(v, f) !== null)) || DATE_FORMATS[0];
+};
+
+// Guess a column for each field from common bank statement header names
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const find = (pattern: RegExp) => {
+    const index = headers.findIndex((h) => pattern.test(h.trim()));
+    return index === -1 ? null : index;
+  };
+
+  return {
+    date: find(/date/i),
+    description: find(/desc|narration|particular|remark|details/i),
+    debit: find(/debit|withdraw|^dr\.?$/i),
+    credit: find(/credit|deposit|^cr\.?$/i),
+    balance: find(/balance/i),
+  };
+};
+
+export const mapStatementRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  dateFormat: string
+): StatementRow[] => {
+  const cellAt = (row: string[], field: StatementField) =>
+    mapping[field] === null ? undefined : row[mapping[field] as number];
+
+  return rows.map((row, index) => {
+    const debit = parseStatementAmount(cellAt(row, "debit"));
+    const credit = parseStatementAmount(cellAt(row, "credit"));
+
+    let type: StatementRow["type"] = null;
+    let amount = 0;
+
+    // A single signed amount column mapped to both debit and credit is also supported
+    if (mapping.debit !== null && mapping.debit === mapping.credit) {
+      if (debit) {
+        type = debit < 0 ? "expense" : "income";
+        amount = Math.abs(debit);
+      }
+    } else if (debit && Math.abs(debit) > 0) {
+      type = "expense";
+      amount = Math.abs(debit);
+    } else if (credit && Math.abs(credit) > 0) {
+      type = "income";
+      amount = Math.abs(credit);
+    }
+
+    return {
+      index,
+      date: parseStatementDate(cellAt(row, "date"), dateFormat),
+      description: (cellAt(row, "description") || "").trim(),
+      type,
+      amount,
+      balance: parseStatementAmount(cellAt(row, "balance")),
+    };
+  });
+};
+
+export const duplicateKey = (bankId: string, date: string, amount: number) =>
+  `${bankId}|${date}|${Number(amount).toFixed(2)}`;
@@ -0,0 +1,331 @@
+import { endOfMonth, endOfYear, format, parseISO, startOfMonth, startOfYear, subDays, subMonths } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Category, CategoryType } from "@/lib/categories";
+import { sumMoney } from "@/lib/money";
+
+export type DateRangePreset = "all" | "7days" | "30days" | "thisMonth" | "lastMonth" | "thisYear" | "custom";
+
+export type TransactionSort = "date_desc" | "date_asc" | "amount_desc" | "amount_asc";
+
+export type TotalsPeriod = "all" | "month" | "day";
+
+export interface Transaction {
+  id: string;
+  type: CategoryType;
+  amount: number;
+  date: string;
+  category: string;
+  notes: string;
+  bank_id: string;
+  person_name: string;
+  credit_id: string | null;
+  credit_payment_id: string | null;
+  original_amount: number | null;
+  original_currency: string | null;
+  updated_at: string;
+  banks: { name: string; currency: string };
+}
+
+export interface TransactionFilters {
+  range: DateRangePreset;
+  // yyyy-MM-dd bounds, only used by the custom range
+  from: string | null;
+  to: string | null;
+  categories: string[];
+  bankId: string | null;
+  type: CategoryType | null;
+  search: string;
+  sort: TransactionSort;
+}
+
+// Where the next page starts: the sort value and id of the last row already loaded
+export interface TransactionCursor {
+  value: string | number;
+  id: string;
+}
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  nextCursor: TransactionCursor | null;
+}
+
+export interface TransactionTotal {
+  period: string | null;
+  category: string | null;
+  type: CategoryType;
+  total: number;
+  count: number;
+  // Transactions left out of a converted total for want of an exchange rate
+  unconverted: number;
+}
+
+// What transaction_totals sums over; every field is optional
+export interface TotalsQuery {
+  from?: string | null;
+  to?: string | null;
+  categories?: string[];
+  bankId?: string | null;
+  type?: CategoryType | null;
+  search?: string;
+  // Convert every amount into this currency before summing
+  baseCurrency?: string;
+}
+
+export const PAGE_SIZE = 50;
+
+// Supabase returns at most this many rows per request, so longer results are fetched in batches
+const MAX_ROWS = 1000;
+
+export const DATE_RANGE_PRESETS: { value: DateRangePreset; label: string }[] = [
+  { value: "all", label: "All Time" },
+  { value: "7days", label: "Last 7 Days" },
+  { value: "30days", label: "Last 30 Days" },
+  { value: "thisMonth", label: "This Month" },
+  { value: "lastMonth", label: "Last Month" },
+  { value: "thisYear", label: "This Year" },
+];
+
+export const TRANSACTION_SORTS: { value: TransactionSort; label: string }[] = [
+  { value: "date_desc", label: "Newest first" },
+  { value: "date_asc", label: "Oldest first" },
+  { value: "amount_desc", label: "Largest amount" },
+  { value: "amount_asc", label: "Smallest amount" },
+];
+
+export const DEFAULT_FILTERS: TransactionFilters = {
+  range: "all",
+  from: null,
+  to: null,
+  categories: [],
+  bankId: null,
+  type: null,
+  search: "",
+  sort: "date_desc",
+};
+
+// Filters live in the URL (?range=thisMonth&category=Food&category=Fuel&q=rent) so views can be bookmarked
+export const filtersFromParams = (params: URLSearchParams): TransactionFilters => {
+  const range = params.get("range");
+  const type = params.get("type");
+  const sort = params.get("sort");
+
+  return {
+    range:
+      range === "custom" || DATE_RANGE_PRESETS.some((p) => p.value === range)
+        ? (range as DateRangePreset)
+        : DEFAULT_FILTERS.range,
+    from: params.get("from"),
+    to: params.get("to"),
+    categories: params.getAll("category"),
+    bankId: params.get("bank"),
+    type: type === "income" || type === "expense" ? type : null,
+    search: params.get("q") || "",
+    sort: TRANSACTION_SORTS.some((s) => s.value === sort) ? (sort as TransactionSort) : DEFAULT_FILTERS.sort,
+  };
+};
+
+export const filtersToParams = (filters: TransactionFilters) => {
+  const params = new URLSearchParams();
+  if (filters.range !== "all") params.set("range", filters.range);
+  if (filters.range === "custom" && filters.from && filters.to) {
+    params.set("from", filters.from);
+    params.set("to", filters.to);
+  }
+  filters.categories.forEach((category) => params.append("category", category));
+  if (filters.bankId) params.set("bank", filters.bankId);
+  if (filters.type) params.set("type", filters.type);
+  if (filters.search.trim()) params.set("q", filters.search.trim());
+  if (filters.sort !== "date_desc") params.set("sort", filters.sort);
+  return params;
+};
+
+export const hasActiveFilters = (filters: TransactionFilters) =>
+  filtersToParams({ ...filters, sort: DEFAULT_FILTERS.sort }).toString() !== "";
+
+const toDateKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+// Inclusive yyyy-MM-dd bounds for the selected range, or null for all time
+export const getDateRange = (filters: TransactionFilters, today = new Date()): { from: string; to: string } | null => {
+  switch (filters.range) {
+    case "7days":
+      return { from: toDateKey(subDays(today, 7)), to: toDateKey(today) };
+    case "30days":
+      return { from: toDateKey(subDays(today, 30)), to: toDateKey(today) };
+    case "thisMonth":
+      return { from: toDateKey(startOfMonth(today)), to: toDateKey(endOfMonth(today)) };
+    case "lastMonth": {
+      const lastMonth = subMonths(today, 1);
+      return { from: toDateKey(startOfMonth(lastMonth)), to: toDateKey(endOfMonth(lastMonth)) };
+    }
+    case "thisYear":
+      return { from: toDateKey(startOfYear(today)), to: toDateKey(endOfYear(today)) };
+    case "custom":
+      return filters.from && filters.to ? { from: filters.from, to: filters.to } : null;
+    default:
+      return null;
+  }
+};
+
+export const getDateRangeLabel = (filters: TransactionFilters) => {
+  if (filters.range === "custom") {
+    return filters.from && filters.to
+      ? `${format(parseISO(filters.from), "MMM d")} - ${format(parseISO(filters.to), "MMM d, yyyy")}`
+      : "Custom Range";
+  }
+  return DATE_RANGE_PRESETS.find((p) => p.value === filters.range)?.label || "All Time";
+};
+
+// Selecting a parent category also matches its sub-categories
+export const expandCategories = (names: string[], categories: Category[]) => {
+  const parentIds = categories.filter((c) => names.includes(c.name)).map((c) => c.id);
+  const children = categories.filter((c) => c.parent_id && parentIds.includes(c.parent_id)).map((c) => c.name);
+  return [...new Set([...names, ...children])];
+};
+
+// Commas, parentheses and wildcards would break out of the PostgREST filter syntax
+export const sanitizeSearch = (search: string) => search.replace(/[,()*%_\\]/g, " ").trim();
+
+const sortColumn = (sort: TransactionSort) => (sort.startsWith("amount") ? "amount" : "date");
+
+const isAscending = (sort: TransactionSort) => sort.endsWith("_asc");
+
+const buildQuery = (filters: TransactionFilters, categories: Category[]) => {
+  const column = sortColumn(filters.sort);
+  const ascending = isAscending(filters.sort);
+  let query = supabase
+    .from("transactions")
+    .select("*, banks(name, currency)")
+    .order(column, { ascending })
+    .order("id", { ascending });
+
+  const range = getDateRange(filters);
+  if (range) query = query.gte("date", range.from).lte("date", range.to);
+  if (filters.categories.length > 0) query = query.in("category", expandCategories(filters.categories, categories));
+  if (filters.bankId) query = query.eq("bank_id", filters.bankId);
+  if (filters.type) query = query.eq("type", filters.type);
+
+  const search = sanitizeSearch(filters.search);
+  if (search) {
+    query = query.or(`notes.ilike.*${search}*,person_name.ilike.*${search}*,category.ilike.*${search}*`);
+  }
+  return query;
+};
+
+// One page of the list in the selected order. Paging is keyed on the last row rather than an
+// offset, so rows added or deleted meanwhile don't shift the pages
+export const fetchTransactionsPage = async (
+  filters: TransactionFilters,
+  categories: Category[],
+  cursor: TransactionCursor | null = null
+): Promise<TransactionPage> => {
+  const column = sortColumn(filters.sort);
+  const op = isAscending(filters.sort) ? "gt" : "lt";
+  let query = buildQuery(filters, categories);
+  if (cursor) {
+    query = query.or(`${column}.${op}.${cursor.value},and(${column}.eq.${cursor.value},id.${op}.${cursor.id})`);
+  }
+
+  const { data, error } = await query.limit(PAGE_SIZE);
+
+  if (error) throw error;
+  const transactions = (data || []) as Transaction[];
+  const last = transactions[transactions.length - 1];
+  return {
+    transactions,
+    nextCursor: transactions.length === PAGE_SIZE ? { value: last[column], id: last.id } : null,
+  };
+};
+
+// Names of the people each expense was split with, keyed by transaction id. Looked up for each
+// page so the badges don't need every credit up front
+export const fetchSplitPeople = async (transactionIds: string[]) => {
+  if (transactionIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("credits")
+    .select("person_name, split_transaction_id")
+    .in("split_transaction_id", transactionIds);
+
+  if (error) throw error;
+  return (data || []).reduce<Record<string, string[]>>((acc, credit) => {
+    const id = credit.split_transaction_id!;
+    acc[id] = [...(acc[id] || []), credit.person_name];
+    return acc;
+  }, {});
+};
+
+// Every transaction matching the filters, e.g. for a CSV export
+export const fetchAllTransactions = async (filters: TransactionFilters, categories: Category[]) => {
+  const transactions: Transaction[] = [];
+  for (let from = 0; ; from += MAX_ROWS) {
+    const { data, error } = await buildQuery(filters, categories).range(from, from + MAX_ROWS - 1);
+
+    if (error) throw error;
+    transactions.push(...((data || []) as Transaction[]));
+    if (!data || data.length < MAX_ROWS) return transactions;
+  }
+};
+
+// Every transaction naming a person, newest first
+export const fetchPersonTransactions = async (personName: string) => {
+  const transactions: Transaction[] = [];
+  for (let from = 0; ; from += MAX_ROWS) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("*, banks(name, currency)")
+      .eq("person_name", personName)
+      .order("date", { ascending: false })
+      .order("id", { ascending: false })
+      .range(from, from + MAX_ROWS - 1);
+
+    if (error) throw error;
+    transactions.push(...((data || []) as Transaction[]));
+    if (!data || data.length < MAX_ROWS) return transactions;
+  }
+};
+
+// The totals behind the list the same filters produce
+export const totalsQueryFor = (filters: TransactionFilters, categories: Category[]): TotalsQuery => {
+  const range = getDateRange(filters);
+  return {
+    from: range?.from,
+    to: range?.to,
+    categories: filters.categories.length > 0 ? expandCategories(filters.categories, categories) : undefined,
+    bankId: filters.bankId,
+    type: filters.type,
+    search: filters.search,
+  };
+};
+
+// Totals per type, optionally per period and category, summed by the database
+export const fetchTransactionTotals = async (
+  period: TotalsPeriod,
+  byCategory: boolean,
+  query: TotalsQuery = {}
+): Promise<TransactionTotal[]> => {
+  const search = sanitizeSearch(query.search || "");
+  const totals: TransactionTotal[] = [];
+
+  for (let from = 0; ; from += MAX_ROWS) {
+    const { data, error } = await supabase
+      .rpc("transaction_totals", {
+        p_period: period,
+        p_by_category: byCategory,
+        p_from: query.from || undefined,
+        p_to: query.to || undefined,
+        p_categories: query.categories,
+        p_bank_id: query.bankId || undefined,
+        p_type: query.type || undefined,
+        p_search: search || undefined,
+        p_base_currency: query.baseCurrency,
+      })
+      .range(from, from + MAX_ROWS - 1);
+
+    if (error) throw error;
+    totals.push(...((data || []) as TransactionTotal[]));
+    if (!data || data.length < MAX_ROWS) return totals;
+  }
+};
+
+export const sumTotals = (totals: TransactionTotal[], type: CategoryType) =>
+  sumMoney(totals.filter((t) => t.type === type).map((t) => t.total));
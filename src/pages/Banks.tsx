@@ -1,86 +1,112 @@
-import { useEffect, useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { format, parseISO } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import {
+  Bank,
+  useBanks,
+  useCardStatements,
+  useDeleteBank,
+  useLedgerBalances,
+  useReconcileBank,
+  useSaveBank,
+} from "@/hooks/use-banks";
 import Layout from "@/components/Layout";
-import { Plus, Trash2, Edit } from "lucide-react";
-import { RupeeIcon } from "@/components/RupeeIcon";
+import { Plus, Trash2, Edit, Scale } from "lucide-react";
+import { Money } from "@/components/Money";
+import { MoneyInput } from "@/components/MoneyInput";
+import {
+  ACCOUNT_TYPES,
+  ACCOUNT_TYPE_NAMES,
+  AccountType,
+  getAmountOwed,
+  getAvailableCredit,
+  getStatementStatus,
+  isLiability,
+  maskAccountNumber,
+  StatementStatus,
+} from "@/lib/accounts";
+import { CURRENCIES, DEFAULT_CURRENCY } from "@/lib/currency";
+import { convertTotal, toPaise } from "@/lib/money";
+import { useExchangeRates } from "@/hooks/use-exchange-rates";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
 
-interface Bank {
-  id: string;
-  name: string;
-  balance: number;
-  color: string;
-}
+const emptyForm = {
+  name: "",
+  account_type: "savings" as AccountType,
+  opening_balance: "0",
+  color: "#3b82f6",
+  currency: DEFAULT_CURRENCY,
+  institution: "",
+  account_number_last4: "",
+  credit_limit: "",
+  statement_day: "",
+  payment_due_days: "",
+  interest_rate: "",
+};
+
+const toNumber = (value: string) => (value.trim() === "" ? null : parseFloat(value));
+
+const STATEMENT_BADGES: Record<StatementStatus, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  nothing_due: { label: "Nothing due", variant: "secondary" },
+  paid: { label: "Paid", variant: "secondary" },
+  due: { label: "Due", variant: "default" },
+  overdue: { label: "Overdue", variant: "destructive" },
+};
+
+const formatDay = (date: string) => format(parseISO(date), "MMM d");
 
 const Banks = () => {
-  const [banks, setBanks] = useState<Bank[]>([]);
-  const [loading, setLoading] = useState(true);
   const [open, setOpen] = useState(false);
   const [editingBank, setEditingBank] = useState<Bank | null>(null);
-  const [formData, setFormData] = useState({ name: "", balance: "0", color: "#3b82f6" });
+  const [formData, setFormData] = useState(emptyForm);
+  const [reconcileOpen, setReconcileOpen] = useState(false);
   const { toast } = useToast();
-
-  useEffect(() => {
-    fetchBanks();
-  }, []);
-
-  const fetchBanks = async () => {
-    try {
-      const { data, error } = await supabase.from("banks").select("*").order("created_at");
-
-      if (error) throw error;
-      setBanks(data || []);
-    } catch (error: any) {
-      toast({
-        variant: "destructive",
-        title: "Error loading banks",
-        description: error.message,
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
+  const { data: banks = [], isPending: loading } = useBanks();
+  const { data: ledgerBalances = [] } = useLedgerBalances(reconcileOpen);
+  const { data: statements = [] } = useCardStatements();
+  const { data: rates = [] } = useExchangeRates();
+  const [baseCurrency] = useBaseCurrency();
+  const today = format(new Date(), "yyyy-MM-dd");
+  const saveBank = useSaveBank();
+  const deleteBank = useDeleteBank();
+  const reconcileBank = useReconcileBank();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const { data: { user } } = await supabase.auth.getUser();
-    
-    if (!user) return;
+
+    const type = formData.account_type;
+    const openingBalance = parseFloat(formData.opening_balance);
 
     try {
-      if (editingBank) {
-        const { error } = await supabase
-          .from("banks")
-          .update({
-            name: formData.name,
-            balance: parseFloat(formData.balance),
-            color: formData.color,
-          })
-          .eq("id", editingBank.id);
-
-        if (error) throw error;
-        toast({ title: "Bank account updated successfully" });
-      } else {
-        const { error } = await supabase.from("banks").insert({
-          user_id: user.id,
-          name: formData.name,
-          balance: parseFloat(formData.balance),
-          color: formData.color,
-        });
-
-        if (error) throw error;
-        toast({ title: "Bank account created successfully" });
-      }
+      // Fields that don't apply to the chosen type are cleared, so changing type leaves nothing stale
+      await saveBank.mutateAsync({
+        id: editingBank?.id,
+        name: formData.name,
+        account_type: type,
+        // For cards and loans the form asks for the amount owed, which is stored as a negative balance
+        opening_balance: isLiability(type) ? -openingBalance : openingBalance,
+        color: formData.color,
+        currency: formData.currency,
+        institution: type !== "cash" ? formData.institution.trim() || null : null,
+        account_number_last4: type !== "cash" ? formData.account_number_last4 || null : null,
+        credit_limit: type === "credit_card" ? toNumber(formData.credit_limit) : null,
+        statement_day: type === "credit_card" ? toNumber(formData.statement_day) : null,
+        payment_due_days: type === "credit_card" ? toNumber(formData.payment_due_days) : null,
+        interest_rate: type === "loan" ? toNumber(formData.interest_rate) : null,
+      });
+      toast({ title: editingBank ? "Account updated successfully" : "Account created successfully" });
 
       setOpen(false);
       setEditingBank(null);
-      setFormData({ name: "", balance: "0", color: "#3b82f6" });
-      fetchBanks();
+      setFormData(emptyForm);
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -92,11 +118,8 @@ const Banks = () => {
 
   const handleDelete = async (id: string) => {
     try {
-      const { error } = await supabase.from("banks").delete().eq("id", id);
-
-      if (error) throw error;
+      await deleteBank.mutateAsync(id);
       toast({ title: "Bank account deleted successfully" });
-      fetchBanks();
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -110,8 +133,16 @@ const Banks = () => {
     setEditingBank(bank);
     setFormData({
       name: bank.name,
-      balance: bank.balance.toString(),
+      account_type: bank.account_type,
+      opening_balance: (isLiability(bank.account_type) ? -bank.opening_balance : bank.opening_balance).toString(),
       color: bank.color,
+      currency: bank.currency,
+      institution: bank.institution ?? "",
+      account_number_last4: bank.account_number_last4 ?? "",
+      credit_limit: bank.credit_limit?.toString() ?? "",
+      statement_day: bank.statement_day?.toString() ?? "",
+      payment_due_days: bank.payment_due_days?.toString() ?? "",
+      interest_rate: bank.interest_rate?.toString() ?? "",
     });
     setOpen(true);
   };
@@ -119,7 +150,20 @@ const Banks = () => {
   const handleDialogClose = () => {
     setOpen(false);
     setEditingBank(null);
-    setFormData({ name: "", balance: "0", color: "#3b82f6" });
+    setFormData(emptyForm);
+  };
+
+  const handleReconcile = async (bankId: string, keepStored: boolean) => {
+    try {
+      await reconcileBank.mutateAsync({ bankId, keepStored });
+      toast({ title: "Bank balance reconciled successfully" });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error reconciling balance",
+        description: error.message,
+      });
+    }
   };
 
   if (loading) {
@@ -137,42 +181,227 @@ const Banks = () => {
       <div className="space-y-8">
         <div className="flex items-center justify-between">
           <div>
-            <h1 className="text-4xl font-bold text-foreground">Bank Accounts</h1>
-            <p className="text-muted-foreground mt-2">Manage My Bank Accounts</p>
+            <h1 className="text-4xl font-bold text-foreground">Accounts</h1>
+            <p className="text-muted-foreground mt-2">Banks, Cards, Cash, Loans and Investments</p>
           </div>
+          <div className="flex items-center gap-3">
+          <Dialog open={reconcileOpen} onOpenChange={setReconcileOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" className="gap-2">
+                <Scale className="h-4 w-4" />
+                Reconcile
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Reconcile Balances</DialogTitle>
+              </DialogHeader>
+              <p className="text-sm text-muted-foreground">
+                Ledger balance is the opening balance plus income, minus expenses, adjusted for transfers.
+              </p>
+              {ledgerBalances.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No bank accounts to reconcile.</p>
+              ) : (
+                <div className="space-y-4">
+                  {ledgerBalances.map((ledger) => {
+                    const difference = Number(ledger.difference);
+                    const inSync = toPaise(difference) === 0;
+                    const ledgerCurrency = banks.find((b) => b.id === ledger.bank_id)?.currency;
+                    return (
+                      <div
+                        key={ledger.bank_id}
+                        className="space-y-2 border-b border-border pb-4 last:border-0"
+                      >
+                        <p className="font-semibold text-foreground">{ledger.name}</p>
+                        <div className="grid grid-cols-3 gap-2 text-sm">
+                          <div>
+                            <p className="text-muted-foreground">Stored</p>
+                            <p>
+                              <Money amount={ledger.stored_balance} currency={ledgerCurrency} />
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-muted-foreground">Ledger</p>
+                            <p>
+                              <Money amount={ledger.computed_balance} currency={ledgerCurrency} />
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-muted-foreground">Difference</p>
+                            <p className={inSync ? "text-success" : "text-destructive"}>
+                              <Money amount={difference} currency={ledgerCurrency} showPlus />
+                            </p>
+                          </div>
+                        </div>
+                        {!inSync && (
+                          <div className="flex gap-2">
+                            <Button size="sm" onClick={() => handleReconcile(ledger.bank_id, false)}>
+                              Use Ledger Balance
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => handleReconcile(ledger.bank_id, true)}>
+                              Keep Stored, Adjust Opening
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </DialogContent>
+          </Dialog>
           <Dialog open={open} onOpenChange={setOpen}>
             <DialogTrigger asChild>
               <Button onClick={() => handleDialogClose()}>
                 <Plus className="mr-2 h-4 w-4" />
-                Add Bank Account
+                Add Account
               </Button>
             </DialogTrigger>
-            <DialogContent>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
               <DialogHeader>
-                <DialogTitle>{editingBank ? "Edit" : "Add"} Bank Account</DialogTitle>
+                <DialogTitle>{editingBank ? "Edit" : "Add"} Account</DialogTitle>
               </DialogHeader>
               <form onSubmit={handleSubmit} className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="name">Bank Name</Label>
+                  <Label htmlFor="account_type">Account Type</Label>
+                  <Select
+                    value={formData.account_type}
+                    onValueChange={(value) => setFormData({ ...formData, account_type: value as AccountType })}
+                  >
+                    <SelectTrigger id="account_type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ACCOUNT_TYPES.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {ACCOUNT_TYPE_NAMES[type.value]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="name">Name</Label>
                   <Input
                     id="name"
                     value={formData.name}
                     onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                    placeholder="e.g., Chase Checking"
+                    placeholder={formData.account_type === "cash" ? "e.g., Wallet" : "e.g., Chase Checking"}
                     required
                   />
                 </div>
-                <div className="space-y-2">
-                  <Label htmlFor="balance">Initial Balance</Label>
-                  <Input
-                    id="balance"
-                    type="number"
-                    step="0.01"
-                    value={formData.balance}
-                    onChange={(e) => setFormData({ ...formData, balance: e.target.value })}
-                    required
-                  />
+                {formData.account_type !== "cash" && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="institution">Institution (Optional)</Label>
+                      <Input
+                        id="institution"
+                        value={formData.institution}
+                        onChange={(e) => setFormData({ ...formData, institution: e.target.value })}
+                        placeholder="e.g., HDFC Bank"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="account_number_last4">Last 4 Digits (Optional)</Label>
+                      <Input
+                        id="account_number_last4"
+                        inputMode="numeric"
+                        pattern="[0-9]{4}"
+                        maxLength={4}
+                        value={formData.account_number_last4}
+                        onChange={(e) =>
+                          setFormData({ ...formData, account_number_last4: e.target.value.replace(/\D/g, "") })
+                        }
+                        placeholder="1234"
+                      />
+                    </div>
+                  </div>
+                )}
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="currency">Currency</Label>
+                    {/* Existing amounts are in the account's currency, so it's fixed once created */}
+                    <Select
+                      value={formData.currency}
+                      onValueChange={(value) => setFormData({ ...formData, currency: value })}
+                      disabled={!!editingBank}
+                    >
+                      <SelectTrigger id="currency">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CURRENCIES.map((currency) => (
+                          <SelectItem key={currency.code} value={currency.code}>
+                            {currency.code} · {currency.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-2 space-y-2">
+                    <Label htmlFor="opening_balance">
+                      {isLiability(formData.account_type) ? "Opening Amount Owed" : "Opening Balance"}
+                    </Label>
+                    <MoneyInput
+                      id="opening_balance"
+                      currency={formData.currency}
+                      allowNegative
+                      value={formData.opening_balance}
+                      onChange={(opening_balance) => setFormData({ ...formData, opening_balance })}
+                      required
+                    />
+                  </div>
                 </div>
+                {formData.account_type === "credit_card" && (
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="credit_limit">Credit Limit</Label>
+                      <MoneyInput
+                        id="credit_limit"
+                        currency={formData.currency}
+                        value={formData.credit_limit}
+                        onChange={(credit_limit) => setFormData({ ...formData, credit_limit })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="statement_day">Statement Day</Label>
+                      <Input
+                        id="statement_day"
+                        type="number"
+                        min="1"
+                        max="31"
+                        value={formData.statement_day}
+                        onChange={(e) => setFormData({ ...formData, statement_day: e.target.value })}
+                        placeholder="1-31"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="payment_due_days">Due After (Days)</Label>
+                      <Input
+                        id="payment_due_days"
+                        type="number"
+                        min="1"
+                        max="60"
+                        value={formData.payment_due_days}
+                        onChange={(e) => setFormData({ ...formData, payment_due_days: e.target.value })}
+                        placeholder="e.g., 20"
+                      />
+                    </div>
+                  </div>
+                )}
+                {formData.account_type === "loan" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="interest_rate">Interest Rate (% per year)</Label>
+                    <Input
+                      id="interest_rate"
+                      type="number"
+                      step="0.001"
+                      min="0"
+                      value={formData.interest_rate}
+                      onChange={(e) => setFormData({ ...formData, interest_rate: e.target.value })}
+                    />
+                  </div>
+                )}
                 <div className="space-y-2">
                   <Label htmlFor="color">Color</Label>
                   <Input
@@ -183,58 +412,194 @@ const Banks = () => {
                   />
                 </div>
                 <Button type="submit" className="w-full">
-                  {editingBank ? "Update" : "Create"} Bank Account
+                  {editingBank ? "Update" : "Create"} Account
                 </Button>
               </form>
             </DialogContent>
           </Dialog>
+          </div>
         </div>
 
         {banks.length === 0 ? (
           <Card className="shadow-card">
             <CardContent className="flex flex-col items-center justify-center py-12">
               <p className="text-muted-foreground text-center">
-                No bank accounts yet. Create your first one to get started!
+                No accounts yet. Create your first one to get started!
               </p>
             </CardContent>
           </Card>
         ) : (
-          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {banks.map((bank) => (
-              <Card key={bank.id} className="shadow-card hover:shadow-elevated transition-shadow">
-                <CardHeader>
-                  <CardTitle className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <div
-                        className="h-4 w-4 rounded-full"
-                        style={{ backgroundColor: bank.color }}
-                      />
-                      <span className="text-xl">{bank.name}</span>
-                    </div>
-                    <div className="flex gap-2">
-                      <Button size="icon" variant="ghost" onClick={() => handleEdit(bank)}>
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        size="icon"
-                        variant="ghost"
-                        onClick={() => handleDelete(bank.id)}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-3xl font-bold text-foreground flex items-center gap-1">
-                    <span className="text-success flex items-center gap-1">
-                      <RupeeIcon size={24} />
-                      {Number(bank.balance).toFixed(2)}
-                    </span>
-                  </p>
-                </CardContent>
-              </Card>
-            ))}
+          <div className="space-y-8">
+            {ACCOUNT_TYPES.map((type) => {
+              const accounts = banks.filter((bank) => bank.account_type === type.value);
+              if (accounts.length === 0) return null;
+
+              const TypeIcon = type.icon;
+              // Accounts in other currencies are converted at today's rate
+              const subtotal = convertTotal(
+                accounts.map((bank) => ({
+                  amount: type.liability ? getAmountOwed(bank.balance) : Number(bank.balance),
+                  currency: bank.currency,
+                })),
+                baseCurrency,
+                rates,
+                today
+              );
+              return (
+                <section key={type.value} className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <h2 className="flex items-center gap-2 text-xl font-semibold text-foreground">
+                      <TypeIcon className="h-5 w-5 text-muted-foreground" />
+                      {type.label} ({accounts.length})
+                    </h2>
+                    <p
+                      className={`flex items-center gap-1 font-semibold ${
+                        type.liability ? "text-destructive" : "text-foreground"
+                      }`}
+                      title={
+                        subtotal.missing.size > 0
+                          ? `No exchange rate for ${[...subtotal.missing].join(", ")}; not included`
+                          : undefined
+                      }
+                    >
+                      {type.liability ? "Owed" : "Total"}
+                      <Money amount={subtotal.total} currency={baseCurrency} />
+                      {subtotal.missing.size > 0 && "*"}
+                    </p>
+                  </div>
+                  <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                    {accounts.map((bank) => {
+                      const details = [bank.institution, maskAccountNumber(bank.account_number_last4)].filter(Boolean);
+                      const availableCredit = getAvailableCredit(bank);
+                      const statement = statements.find((s) => s.bank_id === bank.id);
+                      const statementStatus = statement && getStatementStatus(statement, today);
+                      return (
+                        <Card key={bank.id} className="shadow-card hover:shadow-elevated transition-shadow">
+                          <CardHeader>
+                            <CardTitle className="flex items-center justify-between">
+                              <div className="flex items-center gap-3">
+                                <div
+                                  className="h-4 w-4 rounded-full"
+                                  style={{ backgroundColor: bank.color }}
+                                />
+                                <div>
+                                  <span className="text-xl">{bank.name}</span>
+                                  {details.length > 0 && (
+                                    <p className="text-sm font-normal text-muted-foreground">{details.join(" · ")}</p>
+                                  )}
+                                </div>
+                              </div>
+                              <div className="flex gap-2">
+                                <Button size="icon" variant="ghost" onClick={() => handleEdit(bank)}>
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  onClick={() => handleDelete(bank.id)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </CardTitle>
+                          </CardHeader>
+                          <CardContent className="space-y-3">
+                            {type.liability ? (
+                              <div>
+                                <p className="text-sm text-muted-foreground">Outstanding</p>
+                                <p className="text-3xl font-bold text-destructive">
+                                  <Money amount={getAmountOwed(bank.balance)} currency={bank.currency} />
+                                </p>
+                              </div>
+                            ) : (
+                              <p className="text-3xl font-bold text-success">
+                                <Money amount={bank.balance} currency={bank.currency} />
+                              </p>
+                            )}
+                            {bank.account_type === "credit_card" && availableCredit !== null && (
+                              <div className="grid grid-cols-2 gap-2 text-sm">
+                                <div>
+                                  <p className="text-muted-foreground">Limit</p>
+                                  <p>
+                                    <Money amount={Number(bank.credit_limit)} currency={bank.currency} />
+                                  </p>
+                                </div>
+                                <div>
+                                  <p className="text-muted-foreground">Available</p>
+                                  <p>
+                                    <Money amount={availableCredit} currency={bank.currency} />
+                                  </p>
+                                </div>
+                              </div>
+                            )}
+                            {statement && statementStatus ? (
+                              <div className="space-y-2 rounded-lg border border-border p-3 text-sm">
+                                <div className="flex items-center justify-between">
+                                  <p className="font-medium text-foreground">
+                                    Statement {formatDay(statement.period_start)} – {formatDay(statement.statement_date)}
+                                  </p>
+                                  <Badge variant={STATEMENT_BADGES[statementStatus].variant}>
+                                    {STATEMENT_BADGES[statementStatus].label}
+                                  </Badge>
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                  <div>
+                                    <p className="text-muted-foreground">Billed</p>
+                                    <p>
+                                      <Money amount={statement.statement_balance} currency={bank.currency} />
+                                    </p>
+                                  </div>
+                                  <div>
+                                    <p className="text-muted-foreground">Unbilled</p>
+                                    <p>
+                                      <Money amount={statement.unbilled} currency={bank.currency} />
+                                    </p>
+                                  </div>
+                                  {(statementStatus === "due" || statementStatus === "overdue") && (
+                                    <>
+                                      <div>
+                                        <p className="text-muted-foreground">
+                                          Due{statement.due_date ? ` ${formatDay(statement.due_date)}` : ""}
+                                        </p>
+                                        <p className="font-semibold text-foreground">
+                                          <Money amount={statement.amount_due} currency={bank.currency} />
+                                        </p>
+                                      </div>
+                                      <div>
+                                        <p className="text-muted-foreground">Minimum due</p>
+                                        <p>
+                                          <Money amount={statement.minimum_due} currency={bank.currency} />
+                                        </p>
+                                      </div>
+                                    </>
+                                  )}
+                                </div>
+                                {(statementStatus === "due" || statementStatus === "overdue") && (
+                                  <Button asChild size="sm" className="w-full">
+                                    <Link to={`/transfers?pay=${bank.id}&amount=${Number(statement.amount_due).toFixed(2)}`}>
+                                      Pay Bill
+                                    </Link>
+                                  </Button>
+                                )}
+                              </div>
+                            ) : (
+                              bank.account_type === "credit_card" && (
+                                <p className="text-sm text-muted-foreground">
+                                  Set a statement day to see statements and due dates.
+                                </p>
+                              )
+                            )}
+                            {bank.account_type === "loan" && bank.interest_rate !== null && (
+                              <p className="text-sm text-muted-foreground">{Number(bank.interest_rate)}% interest per year</p>
+                            )}
+                          </CardContent>
+                        </Card>
+                      );
+                    })}
+                  </div>
+                </section>
+              );
+            })}
           </div>
         )}
       </div>
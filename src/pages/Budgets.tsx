@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { useBudgetExpenses, useBudgets, useDeleteBudget, useSaveBudget } from "@/hooks/use-budgets";
+import Layout from "@/components/Layout";
+import { BudgetProgress } from "@/components/BudgetProgress";
+import { Money } from "@/components/Money";
+import { MoneyInput } from "@/components/MoneyInput";
+import { Plus, Trash2, Edit, ChevronLeft, ChevronRight } from "lucide-react";
+import { Budget, BudgetStatus, calculateBudgetStatuses, shiftMonth, toMonthKey } from "@/lib/budgets";
+import { sumMoney } from "@/lib/money";
+
+const emptyForm = () => ({
+  category_id: "",
+  amount: "",
+  is_recurring: true,
+  rollover: false,
+});
+
+const Budgets = () => {
+  const [month, setMonth] = useState(toMonthKey(new Date()));
+  const [open, setOpen] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+  const { categories, getLabel } = useCategories();
+  const { toast } = useToast();
+  const budgetsQuery = useBudgets();
+  const budgets = budgetsQuery.data ?? [];
+  const { data: expenses = [], isPending: expensesPending } = useBudgetExpenses(budgetsQuery.data);
+  const saveBudget = useSaveBudget();
+  const deleteBudget = useDeleteBudget();
+  const loading = budgetsQuery.isPending || expensesPending;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.category_id) {
+      toast({
+        variant: "destructive",
+        title: "Category required",
+        description: "Please select a category for this budget",
+      });
+      return;
+    }
+
+    try {
+      await saveBudget.mutateAsync({
+        id: editingBudget?.id,
+        category_id: formData.category_id,
+        amount: parseFloat(formData.amount),
+        month,
+        is_recurring: formData.is_recurring,
+        rollover: formData.rollover,
+      });
+      toast({ title: editingBudget ? "Budget updated successfully" : "Budget saved successfully" });
+
+      setOpen(false);
+      setEditingBudget(null);
+      setFormData(emptyForm());
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    }
+  };
+
+  const handleEdit = (status: BudgetStatus) => {
+    setEditingBudget(status.budget);
+    setFormData({
+      category_id: status.budget.category_id,
+      amount: status.budget.amount.toString(),
+      is_recurring: status.budget.is_recurring,
+      rollover: status.budget.rollover,
+    });
+    setOpen(true);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteBudget.mutateAsync(id);
+      toast({ title: "Budget deleted successfully" });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error deleting budget",
+        description: error.message,
+      });
+    }
+  };
+
+  const handleDialogClose = () => {
+    setOpen(false);
+    setEditingBudget(null);
+    setFormData(emptyForm());
+  };
+
+  const statuses = calculateBudgetStatuses(budgets, categories, expenses, month);
+  const totalAvailable = sumMoney(statuses.map((s) => s.available));
+  const totalSpent = sumMoney(statuses.map((s) => s.spent));
+  const expenseCategories = categories
+    .filter((c) => c.type === "expense" && !c.is_archived)
+    .sort((a, b) => getLabel(a).localeCompare(getLabel(b)));
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold text-foreground">Budgets</h1>
+            <p className="text-muted-foreground mt-2">Plan My Monthly Spending</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="flex items-center gap-1">
+              <Button size="icon" variant="outline" onClick={() => setMonth(shiftMonth(month, -1))}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="w-32 text-center font-medium text-foreground">
+                {format(parseISO(month), "MMMM yyyy")}
+              </span>
+              <Button size="icon" variant="outline" onClick={() => setMonth(shiftMonth(month, 1))}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+            <Dialog open={open} onOpenChange={setOpen}>
+              <DialogTrigger asChild>
+                <Button onClick={() => handleDialogClose()}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Budget
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{editingBudget ? "Edit" : "Add"} Budget</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label>Category</Label>
+                    <Select
+                      value={formData.category_id}
+                      onValueChange={(value) => setFormData({ ...formData, category_id: value })}
+                      disabled={!!editingBudget}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {expenseCategories.map((category) => (
+                          <SelectItem key={category.id} value={category.id}>
+                            {getLabel(category)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="amount">Monthly Amount</Label>
+                    <MoneyInput
+                      id="amount"
+                      value={formData.amount}
+                      onChange={(amount) => setFormData({ ...formData, amount })}
+                      required
+                    />
+                  </div>
+                  {!editingBudget && (
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="is_recurring">
+                        Repeat every month from {format(parseISO(month), "MMMM yyyy")}
+                      </Label>
+                      <Switch
+                        id="is_recurring"
+                        checked={formData.is_recurring}
+                        onCheckedChange={(checked) => setFormData({ ...formData, is_recurring: checked })}
+                      />
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="rollover">Roll over unused amount</Label>
+                    <Switch
+                      id="rollover"
+                      checked={formData.rollover}
+                      onCheckedChange={(checked) => setFormData({ ...formData, rollover: checked })}
+                    />
+                  </div>
+                  <Button type="submit" className="w-full">
+                    {editingBudget ? "Update" : "Save"} Budget
+                  </Button>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>Total</span>
+              <span className="text-base font-medium text-muted-foreground flex items-center gap-1">
+                <Money amount={totalSpent} /> of <Money amount={totalAvailable} />
+              </span>
+            </CardTitle>
+          </CardHeader>
+        </Card>
+
+        {statuses.length === 0 ? (
+          <Card className="shadow-card">
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <p className="text-muted-foreground text-center">
+                No budgets for this month. Add one to start tracking your spending!
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            {statuses.map((status) => (
+              <Card key={status.category.id} className="shadow-card">
+                <CardContent className="pt-6 space-y-3">
+                  <BudgetProgress status={status} />
+                  <div className="flex items-center justify-between">
+                    <div className="flex flex-wrap gap-2">
+                      <Badge variant="secondary">{status.budget.is_recurring ? "Monthly" : "This month only"}</Badge>
+                      {status.budget.rollover && <Badge variant="outline">Rollover</Badge>}
+                      {status.carried > 0 && (
+                        <Badge variant="outline" className="gap-1">
+                          <Money amount={status.carried} showPlus /> carried
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      <Button size="icon" variant="ghost" onClick={() => handleEdit(status)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => handleDelete(status.budget.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Budgets;
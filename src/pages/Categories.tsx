@@ -0,0 +1,392 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import Layout from "@/components/Layout";
+import { Plus, Edit, Merge, Archive, ArchiveRestore } from "lucide-react";
+import { CATEGORY_ICONS, Category, CategoryType, getIconByName, hasSubCategories } from "@/lib/categories";
+
+const NO_PARENT = "none";
+
+const emptyForm = () => ({
+  name: "",
+  type: "expense" as CategoryType,
+  parent_id: NO_PARENT,
+  icon: "MoreHorizontal",
+  color: "#64748b",
+});
+
+const Categories = () => {
+  const { categories, loading, refresh } = useCategories();
+  const [open, setOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+  const [mergingCategory, setMergingCategory] = useState<Category | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) return;
+
+    const parent_id = formData.parent_id === NO_PARENT ? null : formData.parent_id;
+
+    try {
+      if (editingCategory) {
+        // Renaming rewrites every transaction that uses the old name, so it goes through the RPC
+        if (formData.name.trim() !== editingCategory.name) {
+          const { error: renameError } = await supabase.rpc("rename_category", {
+            p_id: editingCategory.id,
+            p_name: formData.name,
+          });
+
+          if (renameError) throw renameError;
+        }
+
+        const { error } = await supabase
+          .from("categories")
+          .update({ icon: formData.icon, color: formData.color, parent_id })
+          .eq("id", editingCategory.id);
+
+        if (error) throw error;
+        toast({ title: "Category updated successfully" });
+      } else {
+        const { error } = await supabase.from("categories").insert({
+          user_id: user.id,
+          name: formData.name.trim(),
+          type: formData.type,
+          parent_id,
+          icon: formData.icon,
+          color: formData.color,
+        });
+
+        if (error) throw error;
+        toast({ title: "Category created successfully" });
+      }
+
+      setOpen(false);
+      setEditingCategory(null);
+      setFormData(emptyForm());
+      refresh();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    }
+  };
+
+  const handleEdit = (category: Category) => {
+    setEditingCategory(category);
+    setFormData({
+      name: category.name,
+      type: category.type,
+      parent_id: category.parent_id || NO_PARENT,
+      icon: category.icon,
+      color: category.color,
+    });
+    setOpen(true);
+  };
+
+  const handleDialogClose = () => {
+    setOpen(false);
+    setEditingCategory(null);
+    setFormData(emptyForm());
+  };
+
+  const handleToggleArchived = async (category: Category) => {
+    try {
+      const { error } = await supabase
+        .from("categories")
+        .update({ is_archived: !category.is_archived })
+        .eq("id", category.id);
+
+      if (error) throw error;
+      toast({ title: category.is_archived ? "Category restored" : "Category archived" });
+      refresh();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergingCategory || !mergeTargetId) return;
+
+    try {
+      const { error } = await supabase.rpc("merge_categories", {
+        p_source_id: mergingCategory.id,
+        p_target_id: mergeTargetId,
+      });
+
+      if (error) throw error;
+      toast({ title: "Categories merged successfully" });
+      setMergingCategory(null);
+      setMergeTargetId("");
+      refresh();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error merging categories",
+        description: error.message,
+      });
+    }
+  };
+
+  // Only top-level categories of the same type can be parents
+  const parentOptions = categories.filter(
+    (c) =>
+      c.type === formData.type &&
+      !c.parent_id &&
+      c.id !== editingCategory?.id &&
+      (!c.is_archived || c.id === formData.parent_id)
+  );
+  const editingHasChildren = !!editingCategory && hasSubCategories(editingCategory, categories);
+
+  const mergeTargets = mergingCategory
+    ? categories.filter((c) => c.type === mergingCategory.type && c.id !== mergingCategory.id)
+    : [];
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  const renderList = (type: CategoryType, title: string) => {
+    const list = categories.filter((c) => c.type === type && (showArchived || !c.is_archived));
+    // Sub-categories are listed under their parent; ones whose parent is hidden show at the top level
+    const topLevel = list.filter((c) => !c.parent_id || !list.some((p) => p.id === c.parent_id));
+    const ordered = topLevel.flatMap((parent) => [parent, ...list.filter((c) => c.parent_id === parent.id)]);
+
+    return (
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle>{title}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {list.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No categories yet</p>
+          ) : (
+            <div className="space-y-2">
+              {ordered.map((category) => {
+                const Icon = getIconByName(category.icon);
+                const isNested = !topLevel.includes(category);
+                return (
+                  <div
+                    key={category.id}
+                    className={`flex items-center justify-between border-b border-border pb-2 last:border-0 ${isNested ? "pl-6" : ""}`}
+                  >
+                    <div className="flex items-center gap-3">
+                      <Icon className="h-4 w-4" style={{ color: category.color }} />
+                      <span className={category.is_archived ? "text-muted-foreground" : "text-foreground"}>
+                        {category.name}
+                      </span>
+                      {category.is_archived && <Badge variant="secondary">Archived</Badge>}
+                    </div>
+                    <div className="flex gap-1">
+                      <Button size="icon" variant="ghost" onClick={() => handleEdit(category)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => setMergingCategory(category)}>
+                        <Merge className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => handleToggleArchived(category)}>
+                        {category.is_archived ? (
+                          <ArchiveRestore className="h-4 w-4" />
+                        ) : (
+                          <Archive className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold text-foreground">Categories</h1>
+            <p className="text-muted-foreground mt-2">Manage My Income and Expense Categories</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="flex items-center gap-2">
+              <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+              <Label htmlFor="show-archived">Show archived</Label>
+            </div>
+            <Dialog open={open} onOpenChange={setOpen}>
+              <DialogTrigger asChild>
+                <Button onClick={() => handleDialogClose()}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Category
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{editingCategory ? "Edit" : "Add"} Category</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Name</Label>
+                    <Input
+                      id="name"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                      placeholder="e.g., Groceries"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Type</Label>
+                    <Select
+                      value={formData.type}
+                      onValueChange={(value: CategoryType) =>
+                        setFormData({ ...formData, type: value, parent_id: NO_PARENT })
+                      }
+                      disabled={!!editingCategory}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="income">Income</SelectItem>
+                        <SelectItem value="expense">Expense</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Parent Category</Label>
+                    <Select
+                      value={formData.parent_id}
+                      onValueChange={(value) => setFormData({ ...formData, parent_id: value })}
+                      disabled={editingHasChildren}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                        {parentOptions.map((category) => (
+                          <SelectItem key={category.id} value={category.id}>
+                            {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {editingHasChildren && (
+                      <p className="text-xs text-muted-foreground">
+                        This category has sub-categories, so it stays at the top level.
+                      </p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Icon</Label>
+                    <Select value={formData.icon} onValueChange={(value) => setFormData({ ...formData, icon: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(CATEGORY_ICONS).map(([name, Icon]) => (
+                          <SelectItem key={name} value={name}>
+                            <div className="flex items-center gap-2">
+                              <Icon className="h-4 w-4" />
+                              <span>{name}</span>
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="color">Color</Label>
+                    <Input
+                      id="color"
+                      type="color"
+                      value={formData.color}
+                      onChange={(e) => setFormData({ ...formData, color: e.target.value })}
+                    />
+                  </div>
+                  <Button type="submit" className="w-full">
+                    {editingCategory ? "Update" : "Create"} Category
+                  </Button>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          {renderList("income", "Income Categories")}
+          {renderList("expense", "Expense Categories")}
+        </div>
+
+        <Dialog
+          open={!!mergingCategory}
+          onOpenChange={(isOpen) => {
+            if (!isOpen) {
+              setMergingCategory(null);
+              setMergeTargetId("");
+            }
+          }}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Merge {mergingCategory?.name}</DialogTitle>
+            </DialogHeader>
+            <p className="text-sm text-muted-foreground">
+              Every transaction in {mergingCategory?.name} moves to the selected category, and{" "}
+              {mergingCategory?.name} is deleted.
+            </p>
+            <div className="space-y-2">
+              <Label>Merge Into</Label>
+              <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {mergeTargets.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button className="w-full" onClick={handleMerge} disabled={!mergeTargetId}>
+              Merge Categories
+            </Button>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </Layout>
+  );
+};
+
+export default Categories;
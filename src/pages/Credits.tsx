@@ -1,5 +1,5 @@
-import { useEffect, useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useState } from "react";
+import { Link } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,23 +7,75 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { usePeople } from "@/hooks/use-people";
+import { useBanks } from "@/hooks/use-banks";
+import {
+  Credit,
+  useCreditLinks,
+  useCreditPayments,
+  useCredits,
+  useDeleteCredit,
+  useDeleteCreditPayment,
+  useRecordCreditPayment,
+  useSaveCredit,
+} from "@/hooks/use-credits";
 import Layout from "@/components/Layout";
-import { Plus, Trash2, UserCheck, UserX, Pencil } from "lucide-react";
-import { RupeeIcon } from "@/components/RupeeIcon";
+import { PersonInput } from "@/components/PersonInput";
+import { Plus, Trash2, UserCheck, UserX, Pencil, HandCoins, ChevronDown, ChevronRight, MessageSquare, AlertTriangle } from "lucide-react";
+import { Money } from "@/components/Money";
+import { MoneyInput } from "@/components/MoneyInput";
+import { QUEUED, SAVED_OFFLINE } from "@/lib/offlineQueue";
+import { sumMoney } from "@/lib/money";
+import {
+  CreditStatus,
+  REMIND_BEFORE_OPTIONS,
+  REMIND_EVERY_OPTIONS,
+  buildReminderText,
+  getCreditStatus,
+  getOutstanding,
+  getPaidByCredit,
+  getPersonBalances,
+  isOverdue,
+  toDateKey,
+} from "@/lib/credits";
 
-interface Credit {
+interface PendingDelete {
+  kind: "credit" | "payment";
   id: string;
-  person_name: string;
-  amount: number;
-  type: "owe_me" | "i_owe";
-  description: string;
-  date: string;
+  linkedCount: number;
 }
 
+const NO_BANK = "none";
+
+const NO_REMINDER = "none";
+
+const emptyPaymentForm = () => ({
+  amount: "",
+  date: new Date().toISOString().split("T")[0],
+  note: "",
+  bank_id: NO_BANK,
+});
+
 const Credits = () => {
-  const [credits, setCredits] = useState<Credit[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+  const [statusFilter, setStatusFilter] = useState<CreditStatus | "all">("open");
+  const [expandedCredit, setExpandedCredit] = useState<string | null>(null);
+  const [payingCredit, setPayingCredit] = useState<Credit | null>(null);
+  const [remindingPerson, setRemindingPerson] = useState<string | null>(null);
+  const [reminderText, setReminderText] = useState("");
+  const [paymentForm, setPaymentForm] = useState(emptyPaymentForm());
   const [open, setOpen] = useState(false);
   const [editingCredit, setEditingCredit] = useState<Credit | null>(null);
   const [formData, setFormData] = useState({
@@ -32,67 +84,50 @@ const Credits = () => {
     type: "owe_me" as "owe_me" | "i_owe",
     description: "",
     date: new Date().toISOString().split("T")[0],
+    bank_id: NO_BANK,
+    due_date: "",
+    remind_days_before: NO_REMINDER,
+    remind_every_days: NO_REMINDER,
   });
+  const { findPerson } = usePeople();
   const { toast } = useToast();
-
-  useEffect(() => {
-    fetchCredits();
-  }, []);
-
-  const fetchCredits = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("credits")
-        .select("*")
-        .order("date", { ascending: false });
-
-      if (error) throw error;
-      setCredits((data || []) as Credit[]);
-    } catch (error: any) {
-      toast({
-        variant: "destructive",
-        title: "Error loading credits",
-        description: error.message,
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
+  const { data: credits = [], isPending: loading } = useCredits();
+  const { data: payments = [] } = useCreditPayments();
+  const { data: linkedTransactions = [] } = useCreditLinks();
+  const { data: banks = [] } = useBanks();
+  const saveCredit = useSaveCredit();
+  const deleteCredit = useDeleteCredit();
+  const recordCreditPayment = useRecordCreditPayment();
+  const deleteCreditPayment = useDeleteCreditPayment();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const { data: { user } } = await supabase.auth.getUser();
-    
-    if (!user) return;
 
     try {
-      if (editingCredit) {
-        const { error } = await supabase
-          .from("credits")
-          .update({
-            person_name: formData.person_name,
-            amount: parseFloat(formData.amount),
-            type: formData.type,
-            description: formData.description,
-            date: formData.date,
-          })
-          .eq("id", editingCredit.id);
-
-        if (error) throw error;
-        toast({ title: "Credit record updated successfully" });
-      } else {
-        const { error } = await supabase.from("credits").insert({
-          user_id: user.id,
-          person_name: formData.person_name,
-          amount: parseFloat(formData.amount),
-          type: formData.type,
-          description: formData.description,
-          date: formData.date,
-        });
-
-        if (error) throw error;
-        toast({ title: "Credit record added successfully" });
-      }
+      const dueDate = formData.due_date || null;
+      const remindDaysBefore =
+        dueDate && formData.remind_days_before !== NO_REMINDER ? Number(formData.remind_days_before) : null;
+      const result = await saveCredit.mutateAsync({
+        id: editingCredit?.id,
+        person_name: formData.person_name,
+        amount: parseFloat(formData.amount),
+        type: formData.type,
+        description: formData.description,
+        date: formData.date,
+        bank_id: formData.bank_id === NO_BANK ? null : formData.bank_id,
+        due_date: dueDate,
+        remind_days_before: remindDaysBefore,
+        remind_every_days:
+          remindDaysBefore !== null && formData.remind_every_days !== NO_REMINDER
+            ? Number(formData.remind_every_days)
+            : null,
+        reset_reminders: dueDate !== (editingCredit?.due_date ?? null),
+      });
+      toast(
+        result === QUEUED
+          ? SAVED_OFFLINE
+          : { title: editingCredit ? "Credit record updated successfully" : "Credit record added successfully" }
+      );
 
       setOpen(false);
       setEditingCredit(null);
@@ -102,8 +137,11 @@ const Credits = () => {
         type: "owe_me",
         description: "",
         date: new Date().toISOString().split("T")[0],
+        bank_id: NO_BANK,
+        due_date: "",
+        remind_days_before: NO_REMINDER,
+        remind_every_days: NO_REMINDER,
       });
-      fetchCredits();
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -121,17 +159,29 @@ const Credits = () => {
       type: credit.type,
       description: credit.description,
       date: credit.date,
+      bank_id:
+        linkedTransactions.find((t) => t.credit_id === credit.id && !t.credit_payment_id)?.bank_id || NO_BANK,
+      due_date: credit.due_date || "",
+      remind_days_before: credit.remind_days_before?.toString() ?? NO_REMINDER,
+      remind_every_days: credit.remind_every_days?.toString() ?? NO_REMINDER,
     });
     setOpen(true);
   };
 
-  const handleDelete = async (id: string) => {
-    try {
-      const { error } = await supabase.from("credits").delete().eq("id", id);
-      if (error) throw error;
+  const handleDelete = async (id: string, reverseTransactions = false) => {
+    // Credits that moved money through a bank ask whether to reverse those transactions too
+    const linkedCount = linkedTransactions.filter((t) => t.credit_id === id).length;
+    if (linkedCount > 0 && !pendingDelete) {
+      setPendingDelete({ kind: "credit", id, linkedCount });
+      return;
+    }
 
-      toast({ title: "Credit record deleted successfully" });
-      fetchCredits();
+    try {
+      setPendingDelete(null);
+      const credit = credits.find((c) => c.id === id);
+      if (!credit) return;
+      const result = await deleteCredit.mutateAsync({ credit, reverseTransactions });
+      toast(result === QUEUED ? SAVED_OFFLINE : { title: "Credit record deleted successfully" });
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -141,39 +191,93 @@ const Credits = () => {
     }
   };
 
-  const totalOwedToMe = credits
-    .filter((c) => c.type === "owe_me")
-    .reduce((sum, c) => sum + Number(c.amount), 0);
-
-  const totalIOwe = credits
-    .filter((c) => c.type === "i_owe")
-    .reduce((sum, c) => sum + Number(c.amount), 0);
-
-  // Calculate grand totals per person
-  const personTotals = credits.reduce((acc, credit) => {
-    const existingPerson = acc.find(p => p.name === credit.person_name);
-    const amount = Number(credit.amount);
-    
-    if (existingPerson) {
-      if (credit.type === "owe_me") {
-        existingPerson.owedToMe += amount;
-      } else {
-        existingPerson.iOwe += amount;
-      }
-    } else {
-      acc.push({
-        name: credit.person_name,
-        owedToMe: credit.type === "owe_me" ? amount : 0,
-        iOwe: credit.type === "i_owe" ? amount : 0,
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!payingCredit) return;
+
+    try {
+      const result = await recordCreditPayment.mutateAsync({
+        credit_id: payingCredit.id,
+        amount: parseFloat(paymentForm.amount),
+        date: paymentForm.date,
+        note: paymentForm.note || null,
+        bank_id: paymentForm.bank_id === NO_BANK ? null : paymentForm.bank_id,
+      });
+      toast(result === QUEUED ? SAVED_OFFLINE : { title: "Payment recorded successfully" });
+      setPayingCredit(null);
+      setPaymentForm(emptyPaymentForm());
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error recording payment",
+        description: error.message,
       });
     }
-    return acc;
-  }, [] as Array<{ name: string; owedToMe: number; iOwe: number; }>);
+  };
 
-  // Calculate net amount for each person and sort
-  const sortedPersonTotals = personTotals
-    .map(p => ({ ...p, net: p.owedToMe - p.iOwe }))
-    .sort((a, b) => Math.abs(b.net) - Math.abs(a.net));
+  const handleDeletePayment = async (id: string, reverseTransaction = false) => {
+    const linkedCount = linkedTransactions.filter((t) => t.credit_payment_id === id).length;
+    if (linkedCount > 0 && !pendingDelete) {
+      setPendingDelete({ kind: "payment", id, linkedCount });
+      return;
+    }
+
+    try {
+      setPendingDelete(null);
+      const payment = payments.find((p) => p.id === id);
+      if (!payment) return;
+      const result = await deleteCreditPayment.mutateAsync({ payment, reverseTransaction });
+      toast(result === QUEUED ? SAVED_OFFLINE : { title: "Payment deleted successfully" });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error deleting payment",
+        description: error.message,
+      });
+    }
+  };
+
+  const openReminder = (personName: string) => {
+    const personCredits = credits.filter((c) => c.person_name === personName && c.type === "owe_me");
+    setReminderText(buildReminderText(personName, personCredits, getPaidByCredit(payments)));
+    setRemindingPerson(personName);
+  };
+
+  const handleCopyReminder = async () => {
+    try {
+      await navigator.clipboard.writeText(reminderText);
+      toast({ title: "Reminder copied to clipboard" });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error copying reminder",
+        description: error.message,
+      });
+    }
+  };
+
+  const paidByCredit = getPaidByCredit(payments);
+  const today = toDateKey(new Date());
+
+  const totalOwedToMe = sumMoney(credits.filter((c) => c.type === "owe_me").map((c) => getOutstanding(c, paidByCredit)));
+
+  const totalIOwe = sumMoney(credits.filter((c) => c.type === "i_owe").map((c) => getOutstanding(c, paidByCredit)));
+
+  // Outstanding totals per person; people with everything settled drop off
+  const sortedPersonTotals = getPersonBalances(credits, paidByCredit).filter(
+    (p) => p.owedToMe > 0 || p.iOwe > 0
+  );
+
+  const overdueCredits = credits
+    .filter((c) => isOverdue(c, getOutstanding(c, paidByCredit), today))
+    .sort((a, b) => a.due_date!.localeCompare(b.due_date!));
+
+  // wa.me and sms: links only accept digits and a leading +
+  const remindingPhone = (remindingPerson && findPerson(remindingPerson)?.phone?.replace(/[^\d+]/g, "")) || "";
+
+  const visibleCredits = credits.filter(
+    (c) => statusFilter === "all" || getCreditStatus(getOutstanding(c, paidByCredit)) === statusFilter
+  );
 
   if (loading) {
     return (
@@ -203,6 +307,10 @@ const Credits = () => {
                 type: "owe_me",
                 description: "",
                 date: new Date().toISOString().split("T")[0],
+                bank_id: NO_BANK,
+                due_date: "",
+                remind_days_before: NO_REMINDER,
+                remind_every_days: NO_REMINDER,
               });
             }
           }}>
@@ -236,22 +344,20 @@ const Credits = () => {
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="person_name">Person Name</Label>
-                  <Input
+                  <PersonInput
                     id="person_name"
                     value={formData.person_name}
-                    onChange={(e) => setFormData({ ...formData, person_name: e.target.value })}
+                    onChange={(value) => setFormData({ ...formData, person_name: value })}
                     placeholder="Enter person's name"
                     required
                   />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="amount">Amount</Label>
-                  <Input
+                  <MoneyInput
                     id="amount"
-                    type="number"
-                    step="0.01"
                     value={formData.amount}
-                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                    onChange={(amount) => setFormData({ ...formData, amount })}
                     required
                   />
                 </div>
@@ -265,6 +371,79 @@ const Credits = () => {
                     required
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="due_date">Due Date (Optional)</Label>
+                  <Input
+                    id="due_date"
+                    type="date"
+                    value={formData.due_date}
+                    min={formData.date}
+                    onChange={(e) => setFormData({ ...formData, due_date: e.target.value })}
+                  />
+                </div>
+                {formData.due_date && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Remind Me</Label>
+                      <Select
+                        value={formData.remind_days_before}
+                        onValueChange={(value) => setFormData({ ...formData, remind_days_before: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {REMIND_BEFORE_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Until Settled</Label>
+                      <Select
+                        value={formData.remind_every_days}
+                        onValueChange={(value) => setFormData({ ...formData, remind_every_days: value })}
+                        disabled={formData.remind_days_before === NO_REMINDER}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {REMIND_EVERY_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label>Bank Account</Label>
+                  <Select
+                    value={formData.bank_id}
+                    onValueChange={(value) => setFormData({ ...formData, bank_id: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_BANK}>No bank transaction</SelectItem>
+                      {banks.map((bank) => (
+                        <SelectItem key={bank.id} value={bank.id}>
+                          {bank.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {formData.type === "owe_me" ? "Records the money I lent as an expense" : "Records the money I borrowed as income"}
+                  </p>
+                </div>
                 <div className="space-y-2">
                   <Label htmlFor="description">Description</Label>
                   <Textarea
@@ -290,40 +469,57 @@ const Credits = () => {
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
-                {sortedPersonTotals.map((person) => (
-                  <div
-                    key={person.name}
-                    className="flex items-center justify-between border-b border-border pb-3 last:border-0"
-                  >
-                    <div>
-                      <p className="font-semibold text-foreground">{person.name}</p>
-                      <div className="flex gap-4 text-sm text-muted-foreground mt-1">
+                {sortedPersonTotals.map((person) => {
+                  const directoryEntry = findPerson(person.name);
+                  return (
+                    <div
+                      key={person.name}
+                      className="flex items-center justify-between border-b border-border pb-3 last:border-0"
+                    >
+                      <div>
+                        {directoryEntry ? (
+                          <Link
+                            to={`/people/${directoryEntry.id}`}
+                            className="font-semibold text-foreground hover:underline"
+                          >
+                            {person.name}
+                          </Link>
+                        ) : (
+                          <p className="font-semibold text-foreground">{person.name}</p>
+                        )}
+                        <div className="flex gap-4 text-sm text-muted-foreground mt-1">
+                          {person.owedToMe > 0 && (
+                            <span className="text-success flex items-center gap-1">
+                              They owe: <Money amount={person.owedToMe} />
+                            </span>
+                          )}
+                          {person.iOwe > 0 && (
+                            <span className="text-expense-light flex items-center gap-1">
+                              I owe: <Money amount={person.iOwe} />
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
                         {person.owedToMe > 0 && (
-                          <span className="text-success flex items-center gap-1">
-                            They owe: <RupeeIcon size={14} />{person.owedToMe.toFixed(2)}
-                          </span>
+                          <Button size="icon" variant="ghost" onClick={() => openReminder(person.name)}>
+                            <MessageSquare className="h-4 w-4" />
+                          </Button>
                         )}
-                        {person.iOwe > 0 && (
-                          <span className="text-expense-light flex items-center gap-1">
-                            I owe: <RupeeIcon size={14} />{person.iOwe.toFixed(2)}
+                        <div className="text-right">
+                          <p className="text-xs text-muted-foreground mb-1">Net</p>
+                          <span
+                            className={`text-lg font-bold ${
+                              person.net > 0 ? "text-success" : person.net < 0 ? "text-expense-light" : "text-muted-foreground"
+                            }`}
+                          >
+                            <Money amount={person.net} showPlus colorNegative={false} />
                           </span>
-                        )}
+                        </div>
                       </div>
                     </div>
-                    <div className="text-right">
-                      <p className="text-xs text-muted-foreground mb-1">Net</p>
-                      <span
-                        className={`text-lg font-bold flex items-center gap-1 ${
-                          person.net > 0 ? "text-success" : person.net < 0 ? "text-expense-light" : "text-muted-foreground"
-                        }`}
-                      >
-                        {person.net > 0 ? "+" : ""}
-                        <RupeeIcon size={18} />
-                        {person.net.toFixed(2)}
-                      </span>
-                    </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </CardContent>
           </Card>
@@ -337,9 +533,8 @@ const Credits = () => {
               <UserCheck className="h-4 w-4 text-success" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-success flex items-center gap-1">
-                <RupeeIcon size={20} />
-                {totalOwedToMe.toFixed(2)}
+              <div className="text-2xl font-bold text-success">
+                <Money amount={totalOwedToMe} />
               </div>
             </CardContent>
           </Card>
@@ -349,72 +544,49 @@ const Credits = () => {
               <UserX className="h-4 w-4 text-expense-light" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-expense-light flex items-center gap-1">
-                <RupeeIcon size={20} />
-                {totalIOwe.toFixed(2)}
+              <div className="text-2xl font-bold text-expense-light">
+                <Money amount={totalIOwe} />
               </div>
             </CardContent>
           </Card>
         </div>
 
-        {credits.length === 0 ? (
-          <Card className="shadow-card">
-            <CardContent className="flex flex-col items-center justify-center py-12">
-              <p className="text-muted-foreground text-center">
-                No credit records yet. Add your first one to get started!
-              </p>
-            </CardContent>
-          </Card>
-        ) : (
-          <Card className="shadow-card">
+        {overdueCredits.length > 0 && (
+          <Card className="shadow-card border-destructive/50">
             <CardHeader>
-              <CardTitle>All Credit Records</CardTitle>
+              <CardTitle className="flex items-center gap-2 text-destructive">
+                <AlertTriangle className="h-5 w-5" />
+                Overdue
+              </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="space-y-4">
-                {credits.map((credit) => (
+              <div className="space-y-3">
+                {overdueCredits.map((credit) => (
                   <div
                     key={credit.id}
-                    className="flex items-center justify-between border-b border-border pb-4 last:border-0"
+                    className="flex items-center justify-between border-b border-border pb-3 last:border-0"
                   >
-                    <div className="flex items-center gap-4">
-                      <div
-                        className={`rounded-full p-2 ${
-                          credit.type === "owe_me" ? "bg-success/10" : "bg-destructive/10"
-                        }`}
-                      >
-                        {credit.type === "owe_me" ? (
-                          <UserCheck className="h-5 w-5 text-success" />
-                        ) : (
-                          <UserX className="h-5 w-5 text-expense-light" />
-                        )}
-                      </div>
-                      <div>
-                        <p className="font-semibold text-foreground">{credit.person_name}</p>
-                        <p className="text-sm text-muted-foreground">
-                          {new Date(credit.date).toLocaleDateString()}
-                        </p>
-                        {credit.description && (
-                          <p className="text-sm text-muted-foreground mt-1">{credit.description}</p>
-                        )}
-                      </div>
+                    <div>
+                      <p className="font-semibold text-foreground">
+                        {credit.type === "owe_me" ? `${credit.person_name} owes me` : `I owe ${credit.person_name}`}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        Due {new Date(credit.due_date!).toLocaleDateString()}
+                      </p>
                     </div>
                     <div className="flex items-center gap-2">
                       <span
-                        className={`text-lg font-bold flex items-center gap-1 ${
+                        className={`font-bold flex items-center gap-1 ${
                           credit.type === "owe_me" ? "text-success" : "text-expense-light"
                         }`}
                       >
-                        {credit.type === "owe_me" ? "+" : "-"}
-                        <RupeeIcon size={16} />
-                        {Number(credit.amount).toFixed(2)}
+                        <Money amount={getOutstanding(credit, paidByCredit)} />
                       </span>
-                      <Button size="icon" variant="outline" onClick={() => handleEdit(credit)}>
-                        <Pencil className="h-4 w-4" />
-                      </Button>
-                      <Button size="icon" variant="ghost" onClick={() => handleDelete(credit.id)}>
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
+                      {credit.type === "owe_me" && (
+                        <Button size="icon" variant="ghost" onClick={() => openReminder(credit.person_name)}>
+                          <MessageSquare className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -422,6 +594,279 @@ const Credits = () => {
             </CardContent>
           </Card>
         )}
+
+        {credits.length === 0 ? (
+          <Card className="shadow-card">
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <p className="text-muted-foreground text-center">
+                No credit records yet. Add your first one to get started!
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="shadow-card">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>All Credit Records</CardTitle>
+              <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as CreditStatus | "all")}>
+                <TabsList>
+                  <TabsTrigger value="open">Open</TabsTrigger>
+                  <TabsTrigger value="settled">Settled</TabsTrigger>
+                  <TabsTrigger value="all">All</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </CardHeader>
+            <CardContent>
+              {visibleCredits.length === 0 ? (
+                <p className="text-muted-foreground text-sm">No {statusFilter} credits.</p>
+              ) : (
+                <div className="space-y-4">
+                  {visibleCredits.map((credit) => {
+                    const outstanding = getOutstanding(credit, paidByCredit);
+                    const status = getCreditStatus(outstanding);
+                    const creditPayments = payments.filter((p) => p.credit_id === credit.id);
+                    const isExpanded = expandedCredit === credit.id;
+                    return (
+                      <div key={credit.id} className="border-b border-border pb-4 last:border-0 space-y-3">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-4">
+                            <div
+                              className={`rounded-full p-2 ${
+                                credit.type === "owe_me" ? "bg-success/10" : "bg-destructive/10"
+                              }`}
+                            >
+                              {credit.type === "owe_me" ? (
+                                <UserCheck className="h-5 w-5 text-success" />
+                              ) : (
+                                <UserX className="h-5 w-5 text-expense-light" />
+                              )}
+                            </div>
+                            <div>
+                              <div className="flex items-center gap-2">
+                                <p className="font-semibold text-foreground">{credit.person_name}</p>
+                                <Badge variant={status === "settled" ? "secondary" : "outline"}>
+                                  {status === "settled" ? "Settled" : "Open"}
+                                </Badge>
+                                {isOverdue(credit, outstanding, today) && <Badge variant="destructive">Overdue</Badge>}
+                              </div>
+                              <p className="text-sm text-muted-foreground">
+                                {new Date(credit.date).toLocaleDateString()}
+                                {credit.due_date && ` • Due ${new Date(credit.due_date).toLocaleDateString()}`}
+                              </p>
+                              {credit.description && (
+                                <p className="text-sm text-muted-foreground mt-1">{credit.description}</p>
+                              )}
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <div className="text-right">
+                              <span
+                                className={`text-lg font-bold ${
+                                  credit.type === "owe_me" ? "text-success" : "text-expense-light"
+                                }`}
+                              >
+                                <Money
+                                  amount={credit.type === "owe_me" ? outstanding : -outstanding}
+                                  showPlus
+                                  colorNegative={false}
+                                />
+                              </span>
+                              {creditPayments.length > 0 && (
+                                <p className="text-xs text-muted-foreground flex items-center justify-end gap-1">
+                                  of <Money amount={credit.amount} />
+                                </p>
+                              )}
+                            </div>
+                            {creditPayments.length > 0 && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => setExpandedCredit(isExpanded ? null : credit.id)}
+                              >
+                                {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                              </Button>
+                            )}
+                            <Button
+                              size="icon"
+                              variant="outline"
+                              onClick={() => setPayingCredit(credit)}
+                              disabled={status === "settled"}
+                            >
+                              <HandCoins className="h-4 w-4" />
+                            </Button>
+                            <Button size="icon" variant="outline" onClick={() => handleEdit(credit)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button size="icon" variant="ghost" onClick={() => handleDelete(credit.id)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                        {isExpanded && (
+                          <div className="ml-14 space-y-2">
+                            {creditPayments.map((payment) => (
+                              <div key={payment.id} className="flex items-center justify-between text-sm">
+                                <div>
+                                  <span className="text-foreground">{new Date(payment.date).toLocaleDateString()}</span>
+                                  {payment.note && <span className="text-muted-foreground"> · {payment.note}</span>}
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  <span className="text-muted-foreground">
+                                    <Money amount={payment.amount} />
+                                  </span>
+                                  <Button size="icon" variant="ghost" onClick={() => handleDeletePayment(payment.id)}>
+                                    <Trash2 className="h-3 w-3" />
+                                  </Button>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Dialog
+          open={!!payingCredit}
+          onOpenChange={(isOpen) => {
+            if (!isOpen) {
+              setPayingCredit(null);
+              setPaymentForm(emptyPaymentForm());
+            }
+          }}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Record Payment</DialogTitle>
+            </DialogHeader>
+            {payingCredit && (
+              <p className="text-sm text-muted-foreground flex items-center gap-1">
+                {payingCredit.type === "owe_me" ? `${payingCredit.person_name} still owes` : `I still owe ${payingCredit.person_name}`}
+                <Money amount={getOutstanding(payingCredit, paidByCredit)} />
+              </p>
+            )}
+            <form onSubmit={handleRecordPayment} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="payment_amount">Amount</Label>
+                <MoneyInput
+                  id="payment_amount"
+                  value={paymentForm.amount}
+                  onChange={(amount) => setPaymentForm({ ...paymentForm, amount })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payment_date">Date</Label>
+                <Input
+                  id="payment_date"
+                  type="date"
+                  value={paymentForm.date}
+                  onChange={(e) => setPaymentForm({ ...paymentForm, date: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Bank Account</Label>
+                <Select
+                  value={paymentForm.bank_id}
+                  onValueChange={(value) => setPaymentForm({ ...paymentForm, bank_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_BANK}>No bank transaction</SelectItem>
+                    {banks.map((bank) => (
+                      <SelectItem key={bank.id} value={bank.id}>
+                        {bank.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payment_note">Note</Label>
+                <Textarea
+                  id="payment_note"
+                  value={paymentForm.note}
+                  onChange={(e) => setPaymentForm({ ...paymentForm, note: e.target.value })}
+                  placeholder="Optional note"
+                />
+              </div>
+              <Button type="submit" className="w-full">
+                Record Payment
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!remindingPerson} onOpenChange={(isOpen) => !isOpen && setRemindingPerson(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Remind {remindingPerson}</DialogTitle>
+            </DialogHeader>
+            <Textarea rows={8} value={reminderText} onChange={(e) => setReminderText(e.target.value)} />
+            <div className="grid grid-cols-3 gap-2">
+              <Button variant="outline" onClick={handleCopyReminder}>
+                Copy
+              </Button>
+              <Button variant="outline" asChild>
+                <a
+                  href={`https://wa.me/${remindingPhone.replace("+", "")}?text=${encodeURIComponent(reminderText)}`}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  WhatsApp
+                </a>
+              </Button>
+              <Button variant="outline" asChild>
+                <a href={`sms:${remindingPhone}?body=${encodeURIComponent(reminderText)}`}>SMS</a>
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        <AlertDialog open={!!pendingDelete} onOpenChange={(isOpen) => !isOpen && setPendingDelete(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete {pendingDelete?.kind === "payment" ? "payment" : "credit record"}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {pendingDelete?.kind === "payment"
+                  ? "This payment was recorded in a bank account."
+                  : `This credit has ${pendingDelete?.linkedCount} linked bank transaction(s).`}{" "}
+                Reversing removes them from Transactions and restores the bank balance.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <Button
+                variant="outline"
+                onClick={() =>
+                  pendingDelete &&
+                  (pendingDelete.kind === "payment"
+                    ? handleDeletePayment(pendingDelete.id)
+                    : handleDelete(pendingDelete.id))
+                }
+              >
+                Keep Transactions
+              </Button>
+              <Button
+                onClick={() =>
+                  pendingDelete &&
+                  (pendingDelete.kind === "payment"
+                    ? handleDeletePayment(pendingDelete.id, true)
+                    : handleDelete(pendingDelete.id, true))
+                }
+              >
+                Delete and Reverse
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </div>
     </Layout>
   );
@@ -1,76 +1,78 @@
-import { useEffect, useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { Link } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Wallet, TrendingUp, TrendingDown, IndianRupee } from "lucide-react";
-import { useToast } from "@/hooks/use-toast";
+import { Wallet, TrendingUp, TrendingDown, Scale, CalendarClock } from "lucide-react";
 import Layout from "@/components/Layout";
-import { RupeeIcon } from "@/components/RupeeIcon";
-
-interface Bank {
-  id: string;
-  name: string;
-  balance: number;
-  color: string;
-}
-
-interface Transaction {
-  id: string;
-  type: "income" | "expense";
-  amount: number;
-  date: string;
-  person_name: string;
-}
+import { Money } from "@/components/Money";
+import { BaseCurrencySelect } from "@/components/BaseCurrencySelect";
+import { BudgetProgress } from "@/components/BudgetProgress";
+import { useCategories } from "@/hooks/use-categories";
+import { useBanks } from "@/hooks/use-banks";
+import { useRecentTransactions, useTransactionTotals } from "@/hooks/use-transactions";
+import { useCreditPayments, useCredits } from "@/hooks/use-credits";
+import { useBudgetExpenses, useBudgets } from "@/hooks/use-budgets";
+import { Badge } from "@/components/ui/badge";
+import { calculateBudgetStatuses, toMonthKey } from "@/lib/budgets";
+import { sumTotals } from "@/lib/transactions";
+import { getOutstanding, getPaidByCredit, isDueWithin, isOverdue, toDateKey } from "@/lib/credits";
+import { isLiability, summarizeBalances } from "@/lib/accounts";
+import { findRate } from "@/lib/currency";
+import { formatMoney, roundMoney, subtractMoney } from "@/lib/money";
+import { useExchangeRates } from "@/hooks/use-exchange-rates";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
 
 const Dashboard = () => {
-  const [banks, setBanks] = useState<Bank[]>([]);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [loading, setLoading] = useState(true);
-  const { toast } = useToast();
-
-  useEffect(() => {
-    fetchData();
-  }, []);
-
-  const fetchData = async () => {
-    try {
-      const { data: banksData, error: banksError } = await supabase
-        .from("banks")
-        .select("*")
-        .order("created_at", { ascending: true });
+  const { categories } = useCategories();
+  const { data: banks = [], isPending: banksPending } = useBanks();
+  const { data: transactions = [], isPending: transactionsPending } = useRecentTransactions(5);
+  const [baseCurrency] = useBaseCurrency();
+  const { data: rates = [] } = useExchangeRates();
+  const { data: totals = [] } = useTransactionTotals("all", false, { baseCurrency });
+  const { data: credits = [] } = useCredits();
+  const { data: creditPayments = [] } = useCreditPayments();
+  const budgetsQuery = useBudgets();
+  const { data: budgetExpenses = [] } = useBudgetExpenses(budgetsQuery.data);
+  const budgets = budgetsQuery.data ?? [];
+  const loading = banksPending || transactionsPending;
 
-      const { data: transactionsData, error: transactionsError } = await supabase
-        .from("transactions")
-        .select("*")
-        .order("date", { ascending: false });
+  const today = toDateKey(new Date());
 
-      if (banksError) throw banksError;
-      if (transactionsError) throw transactionsError;
+  // Balances are converted at today's rate; card and loan balances are negative, so what is owed
+  // comes off the total. Accounts in a currency with no rate are left out and named instead.
+  const convertedBanks = banks.map((bank) => ({ ...bank, rate: findRate(rates, bank.currency, baseCurrency, today) }));
+  const balances = summarizeBalances(
+    convertedBanks
+      .filter((bank) => bank.rate !== null)
+      .map((bank) => ({ account_type: bank.account_type, balance: roundMoney(Number(bank.balance) * bank.rate!) }))
+  );
+  const missingRates = [...new Set(convertedBanks.filter((bank) => bank.rate === null).map((bank) => bank.currency))];
+  const unconvertedCount = totals.reduce((sum, t) => sum + Number(t.unconverted), 0);
+  const unconvertedDetail =
+    unconvertedCount > 0 ? `${unconvertedCount} without a ${baseCurrency} rate not included` : undefined;
+  const totalIncome = sumTotals(totals, "income");
+  const totalExpenses = sumTotals(totals, "expense");
+  const netIncome = subtractMoney(totalIncome, totalExpenses);
 
-      setBanks(banksData || []);
-      setTransactions((transactionsData || []) as Transaction[]);
-    } catch (error: any) {
-      toast({
-        variant: "destructive",
-        title: "Error loading data",
-        description: error.message,
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
+  const budgetStatuses = calculateBudgetStatuses(budgets, categories, budgetExpenses, toMonthKey(new Date()));
 
-  const totalBalance = banks.reduce((sum, bank) => sum + Number(bank.balance), 0);
-  const totalIncome = transactions
-    .filter((t) => t.type === "income")
-    .reduce((sum, t) => sum + Number(t.amount), 0);
-  const totalExpenses = transactions
-    .filter((t) => t.type === "expense")
-    .reduce((sum, t) => sum + Number(t.amount), 0);
+  // Open credits due in the next seven days, plus any already overdue
+  const paidByCredit = getPaidByCredit(creditPayments);
+  const creditsDueThisWeek = credits
+    .filter((c) => {
+      const outstanding = getOutstanding(c, paidByCredit);
+      return isOverdue(c, outstanding, today) || isDueWithin(c, outstanding, today, 6);
+    })
+    .sort((a, b) => a.due_date!.localeCompare(b.due_date!));
 
   const statCards = [
     {
       title: "Total Balance",
-      value: totalBalance,
+      value: balances.net,
+      detail:
+        missingRates.length > 0
+          ? `No ${baseCurrency} rate for ${missingRates.join(", ")}; not included`
+          : balances.liabilities !== 0
+            ? `Assets ${formatMoney(balances.assets, { currency: baseCurrency })} · Owed ${formatMoney(balances.liabilities, { currency: baseCurrency })}`
+            : undefined,
       icon: Wallet,
       color: "text-primary",
       bgColor: "bg-primary/10",
@@ -78,6 +80,7 @@ const Dashboard = () => {
     {
       title: "Total Income",
       value: totalIncome,
+      detail: unconvertedDetail,
       icon: TrendingUp,
       color: "text-success",
       bgColor: "bg-success/10",
@@ -85,17 +88,17 @@ const Dashboard = () => {
     {
       title: "Total Expenses",
       value: totalExpenses,
+      detail: unconvertedDetail,
       icon: TrendingDown,
       color: "text-expense-light",
       bgColor: "bg-destructive/10",
     },
     {
       title: "Net Income",
-      value: totalIncome - totalExpenses,
-      icon: IndianRupee,
-      color: totalIncome - totalExpenses >= 0 ? "text-success" : "text-destructive",
-      bgColor:
-        totalIncome - totalExpenses >= 0 ? "bg-success/10" : "bg-destructive/10",
+      value: netIncome,
+      icon: Scale,
+      color: netIncome >= 0 ? "text-success" : "text-destructive",
+      bgColor: netIncome >= 0 ? "bg-success/10" : "bg-destructive/10",
     },
   ];
 
@@ -112,9 +115,12 @@ const Dashboard = () => {
   return (
     <Layout>
       <div className="space-y-8">
-        <div>
-          <h1 className="text-4xl font-bold text-foreground">Subair V M</h1>
-          <p className="text-muted-foreground mt-2">Overview of My Finances</p>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold text-foreground">Subair V M</h1>
+            <p className="text-muted-foreground mt-2">Overview of My Finances</p>
+          </div>
+          <BaseCurrencySelect />
         </div>
 
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
@@ -131,10 +137,10 @@ const Dashboard = () => {
                   </div>
                 </CardHeader>
                 <CardContent>
-                  <div className={`text-3xl font-bold ${stat.color} flex items-center gap-1`}>
-                    <RupeeIcon size={24} />
-                    {stat.value.toFixed(2)}
+                  <div className={`text-3xl font-bold ${stat.color}`}>
+                    <Money amount={stat.value} currency={baseCurrency} compact />
                   </div>
+                  {stat.detail && <p className="text-xs text-muted-foreground mt-1">{stat.detail}</p>}
                 </CardContent>
               </Card>
             );
@@ -144,11 +150,11 @@ const Dashboard = () => {
         <div className="grid gap-6 md:grid-cols-2">
           <Card className="shadow-card">
             <CardHeader>
-              <CardTitle>Bank Accounts ({banks.length})</CardTitle>
+              <CardTitle>Accounts ({banks.length})</CardTitle>
             </CardHeader>
             <CardContent>
               {banks.length === 0 ? (
-                <p className="text-muted-foreground text-sm">No bank accounts yet</p>
+                <p className="text-muted-foreground text-sm">No accounts yet</p>
               ) : (
                 <div className="space-y-3">
                   {banks.slice(0, 5).map((bank) => (
@@ -160,11 +166,10 @@ const Dashboard = () => {
                         />
                         <span className="font-medium text-foreground">{bank.name}</span>
                       </div>
-                      <span className="font-semibold text-foreground flex items-center gap-1">
-                        <span className="text-success flex items-center gap-1">
-                          <RupeeIcon size={16} />
-                          {Number(bank.balance).toFixed(2)}
-                        </span>
+                      <span
+                        className={`font-semibold ${isLiability(bank.account_type) ? "text-destructive" : "text-success"}`}
+                      >
+                        <Money amount={bank.balance} currency={bank.currency} />
                       </span>
                     </div>
                   ))}
@@ -182,7 +187,7 @@ const Dashboard = () => {
                 <p className="text-muted-foreground text-sm">No transactions yet</p>
               ) : (
                 <div className="space-y-3">
-                  {transactions.slice(0, 5).map((transaction) => (
+                  {transactions.map((transaction) => (
                     <div key={transaction.id} className="flex items-center justify-between">
                       <div className="flex items-center gap-3">
                         {transaction.type === "income" ? (
@@ -199,15 +204,13 @@ const Dashboard = () => {
                           )}
                         </div>
                       </div>
-                      <span
-                        className={`font-semibold flex items-center gap-1 ${
-                          transaction.type === "income" ? "text-success" : "text-expense-light"
-                        }`}
-                      >
-                        {transaction.type === "income" ? "+" : "-"}
-                        <RupeeIcon size={16} />
-                        {Number(transaction.amount).toFixed(2)}
-                      </span>
+                      <Money
+                        amount={transaction.type === "income" ? transaction.amount : -transaction.amount}
+                        currency={transaction.banks?.currency}
+                        showPlus
+                        colorNegative={false}
+                        className={`font-semibold ${transaction.type === "income" ? "text-success" : "text-expense-light"}`}
+                      />
                     </div>
                   ))}
                 </div>
@@ -215,6 +218,70 @@ const Dashboard = () => {
             </CardContent>
           </Card>
         </div>
+
+        {creditsDueThisWeek.length > 0 && (
+          <Card className="shadow-card">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center gap-2">
+                  <CalendarClock className="h-5 w-5" />
+                  Credits Due This Week
+                </span>
+                <Link to="/credits" className="text-sm font-medium text-primary hover:underline">
+                  View all
+                </Link>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {creditsDueThisWeek.map((credit) => (
+                  <div key={credit.id} className="flex items-center justify-between">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-foreground">
+                          {credit.type === "owe_me" ? `${credit.person_name} owes me` : `I owe ${credit.person_name}`}
+                        </span>
+                        {isOverdue(credit, getOutstanding(credit, paidByCredit), today) && (
+                          <Badge variant="destructive">Overdue</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Due {new Date(credit.due_date!).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Money
+                      amount={getOutstanding(credit, paidByCredit)}
+                      className={`font-semibold ${credit.type === "owe_me" ? "text-success" : "text-expense-light"}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {budgetStatuses.length > 0 && (
+          <Card className="shadow-card">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>Budgets This Month</span>
+                {budgetStatuses.some((s) => s.percent >= 80) && (
+                  <span className="text-sm font-medium text-destructive">
+                    {budgetStatuses.filter((s) => s.percent >= 100).length} over,{" "}
+                    {budgetStatuses.filter((s) => s.percent >= 80 && s.percent < 100).length} near limit
+                  </span>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-4 md:grid-cols-2">
+                {budgetStatuses.slice(0, 6).map((status) => (
+                  <BudgetProgress key={status.category.id} status={status} />
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </Layout>
   );
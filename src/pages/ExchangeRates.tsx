@@ -0,0 +1,285 @@
+import { useRef, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useDeleteExchangeRate,
+  useExchangeRates,
+  useSaveExchangeRates,
+  useUpdateExchangeRate,
+} from "@/hooks/use-exchange-rates";
+import Layout from "@/components/Layout";
+import { BaseCurrencySelect } from "@/components/BaseCurrencySelect";
+import { Plus, Trash2, Edit, Upload } from "lucide-react";
+import { CURRENCIES, DEFAULT_CURRENCY, ExchangeRate, parseRatesCsv } from "@/lib/currency";
+
+const emptyForm = () => ({
+  from_currency: "USD",
+  to_currency: DEFAULT_CURRENCY,
+  rate: "",
+  date: new Date().toISOString().split("T")[0],
+});
+
+const CurrencyPicker = ({ value, onChange }: { value: string; onChange: (value: string) => void }) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {CURRENCIES.map((currency) => (
+        <SelectItem key={currency.code} value={currency.code}>
+          {currency.code} - {currency.name}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const ExchangeRates = () => {
+  const [open, setOpen] = useState(false);
+  const [editingRate, setEditingRate] = useState<ExchangeRate | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { data: rates = [], isPending: loading } = useExchangeRates();
+  const saveRates = useSaveExchangeRates();
+  const updateRate = useUpdateExchangeRate();
+  const deleteRate = useDeleteExchangeRate();
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.from_currency === formData.to_currency) {
+      toast({
+        variant: "destructive",
+        title: "Pick two currencies",
+        description: "A rate converts one currency into a different one",
+      });
+      return;
+    }
+
+    try {
+      const rate = { ...formData, rate: parseFloat(formData.rate) };
+      if (editingRate) {
+        await updateRate.mutateAsync({ ...rate, id: editingRate.id });
+      } else {
+        await saveRates.mutateAsync([rate]);
+      }
+      toast({ title: editingRate ? "Rate updated successfully" : "Rate saved successfully" });
+
+      setOpen(false);
+      setEditingRate(null);
+      setFormData(emptyForm());
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    }
+  };
+
+  const handleEdit = (rate: ExchangeRate) => {
+    setEditingRate(rate);
+    setFormData({
+      from_currency: rate.from_currency,
+      to_currency: rate.to_currency,
+      rate: rate.rate.toString(),
+      date: rate.date,
+    });
+    setOpen(true);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteRate.mutateAsync(id);
+      toast({ title: "Rate deleted successfully" });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error deleting rate",
+        description: error.message,
+      });
+    }
+  };
+
+  const handleDialogClose = () => {
+    setOpen(false);
+    setEditingRate(null);
+    setFormData(emptyForm());
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again after fixing it
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const { rates: imported, errors } = parseRatesCsv(await file.text());
+      if (imported.length === 0) {
+        throw new Error(errors[0] ?? "The file has no rates");
+      }
+
+      await saveRates.mutateAsync(imported);
+      toast({
+        title: `Imported ${imported.length} rate${imported.length === 1 ? "" : "s"}`,
+        description: errors.length > 0 ? `Skipped ${errors.length}: ${errors.slice(0, 3).join("; ")}` : undefined,
+      });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error importing rates",
+        description: error.message,
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-8">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold text-foreground">Exchange Rates</h1>
+            <p className="text-muted-foreground mt-2">Convert Accounts in Other Currencies</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <BaseCurrencySelect />
+            <input ref={fileInput} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+            <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={saveRates.isPending}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import CSV
+            </Button>
+            <Dialog open={open} onOpenChange={setOpen}>
+              <DialogTrigger asChild>
+                <Button onClick={() => handleDialogClose()}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Rate
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{editingRate ? "Edit" : "Add"} Rate</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>From</Label>
+                      <CurrencyPicker
+                        value={formData.from_currency}
+                        onChange={(value) => setFormData({ ...formData, from_currency: value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>To</Label>
+                      <CurrencyPicker
+                        value={formData.to_currency}
+                        onChange={(value) => setFormData({ ...formData, to_currency: value })}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="rate">
+                      1 {formData.from_currency} in {formData.to_currency}
+                    </Label>
+                    <Input
+                      id="rate"
+                      type="number"
+                      step="any"
+                      min="0"
+                      value={formData.rate}
+                      onChange={(e) => setFormData({ ...formData, rate: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="date">Date</Label>
+                    <Input
+                      id="date"
+                      type="date"
+                      value={formData.date}
+                      onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <Button type="submit" className="w-full">
+                    {editingRate ? "Update" : "Save"} Rate
+                  </Button>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          Totals use the latest rate on or before each day, in either direction. CSV files list one rate per line
+          as date, from, to, rate — for example <code>2025-11-30,USD,INR,84.25</code>.
+        </p>
+
+        {rates.length === 0 ? (
+          <Card className="shadow-card">
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <p className="text-muted-foreground text-center">
+                No exchange rates yet. Add one to include other currencies in your totals!
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="shadow-card">
+            <CardContent className="pt-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Pair</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead className="w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rates.map((rate) => (
+                    <TableRow key={rate.id}>
+                      <TableCell>{format(parseISO(rate.date), "MMM dd, yyyy")}</TableCell>
+                      <TableCell>
+                        {rate.from_currency} → {rate.to_currency}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{Number(rate.rate)}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button size="icon" variant="ghost" onClick={() => handleEdit(rate)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button size="icon" variant="ghost" onClick={() => handleDelete(rate.id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default ExchangeRates;
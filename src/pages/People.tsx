@@ -0,0 +1,326 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useMergePeople, usePeople, useSavePerson } from "@/hooks/use-people";
+import { useCreditPayments, useCredits } from "@/hooks/use-credits";
+import Layout from "@/components/Layout";
+import { Money } from "@/components/Money";
+import { Plus, Edit, Merge, Phone, Mail } from "lucide-react";
+import { Person, parseAliases } from "@/lib/people";
+import { getPaidByCredit, getPersonBalances } from "@/lib/credits";
+
+const emptyForm = () => ({
+  name: "",
+  phone: "",
+  email: "",
+  notes: "",
+  aliases: "",
+});
+
+const People = () => {
+  const { people, loading } = usePeople();
+  const { data: credits = [] } = useCredits();
+  const { data: payments = [] } = useCreditPayments();
+  const savePerson = useSavePerson();
+  const mergePeople = useMergePeople();
+  const [open, setOpen] = useState(false);
+  const [editingPerson, setEditingPerson] = useState<Person | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+  const [mergingPerson, setMergingPerson] = useState<Person | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [search, setSearch] = useState("");
+  const { toast } = useToast();
+
+  const balances = getPersonBalances(credits, getPaidByCredit(payments));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await savePerson.mutateAsync({
+        id: editingPerson?.id,
+        previousName: editingPerson?.name,
+        name: formData.name,
+        phone: formData.phone.trim() || null,
+        email: formData.email.trim() || null,
+        notes: formData.notes.trim() || null,
+        aliases: parseAliases(formData.aliases),
+      });
+      toast({ title: editingPerson ? "Person updated successfully" : "Person added successfully" });
+
+      setOpen(false);
+      setEditingPerson(null);
+      setFormData(emptyForm());
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    }
+  };
+
+  const handleEdit = (person: Person) => {
+    setEditingPerson(person);
+    setFormData({
+      name: person.name,
+      phone: person.phone || "",
+      email: person.email || "",
+      notes: person.notes || "",
+      aliases: person.aliases.join(", "),
+    });
+    setOpen(true);
+  };
+
+  const handleDialogClose = () => {
+    setOpen(false);
+    setEditingPerson(null);
+    setFormData(emptyForm());
+  };
+
+  const handleMerge = async () => {
+    if (!mergingPerson || !mergeTargetId) return;
+
+    try {
+      await mergePeople.mutateAsync({ sourceId: mergingPerson.id, targetId: mergeTargetId });
+      toast({ title: "People merged successfully" });
+      setMergingPerson(null);
+      setMergeTargetId("");
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error merging people",
+        description: error.message,
+      });
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visiblePeople = people.filter(
+    (p) =>
+      !query ||
+      p.name.toLowerCase().includes(query) ||
+      p.aliases.some((alias) => alias.toLowerCase().includes(query))
+  );
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold text-foreground">People</h1>
+            <p className="text-muted-foreground mt-2">Everyone I Lend To, Borrow From and Pay</p>
+          </div>
+          <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => handleDialogClose()}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Person
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>{editingPerson ? "Edit" : "Add"} Person</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Name</Label>
+                  <Input
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="e.g., Ravi Kumar"
+                    required
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="phone">Phone</Label>
+                    <Input
+                      id="phone"
+                      type="tel"
+                      value={formData.phone}
+                      onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="email">Email</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      value={formData.email}
+                      onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="aliases">Also Known As</Label>
+                  <Input
+                    id="aliases"
+                    value={formData.aliases}
+                    onChange={(e) => setFormData({ ...formData, aliases: e.target.value })}
+                    placeholder="e.g., Ravi K, RK"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Comma separated. Credits and transactions entered under these names are filed under this person.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="notes">Notes</Label>
+                  <Textarea
+                    id="notes"
+                    value={formData.notes}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  />
+                </div>
+                <Button type="submit" className="w-full">
+                  {editingPerson ? "Update" : "Add"} Person
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by name or alias"
+          className="max-w-sm"
+        />
+
+        {visiblePeople.length === 0 ? (
+          <Card className="shadow-card">
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <p className="text-muted-foreground text-center">
+                {people.length === 0
+                  ? "No people yet. They are added automatically when you record a credit or transaction with a name."
+                  : "No one matches your search"}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {visiblePeople.map((person) => {
+              const balance = balances.find((b) => b.name === person.name);
+              return (
+                <Card key={person.id} className="shadow-card">
+                  <CardContent className="pt-6 space-y-3">
+                    <div className="flex items-start justify-between">
+                      <div className="space-y-1">
+                        <Link to={`/people/${person.id}`} className="font-semibold text-foreground hover:underline">
+                          {person.name}
+                        </Link>
+                        {(person.phone || person.email) && (
+                          <div className="flex flex-wrap gap-3 text-sm text-muted-foreground">
+                            {person.phone && (
+                              <span className="flex items-center gap-1">
+                                <Phone className="h-3 w-3" />
+                                {person.phone}
+                              </span>
+                            )}
+                            {person.email && (
+                              <span className="flex items-center gap-1">
+                                <Mail className="h-3 w-3" />
+                                {person.email}
+                              </span>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex gap-1">
+                        <Button size="icon" variant="ghost" onClick={() => handleEdit(person)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" onClick={() => setMergingPerson(person)}>
+                          <Merge className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    {person.aliases.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {person.aliases.map((alias) => (
+                          <Badge key={alias} variant="secondary">
+                            {alias}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    {balance && Math.abs(balance.net) >= 0.005 && (
+                      <p
+                        className={`text-sm font-medium flex items-center gap-1 ${
+                          balance.net > 0 ? "text-success" : "text-destructive"
+                        }`}
+                      >
+                        {balance.net > 0 ? "Owes me" : "I owe"} <Money amount={Math.abs(balance.net)} />
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        <Dialog
+          open={!!mergingPerson}
+          onOpenChange={(isOpen) => {
+            if (!isOpen) {
+              setMergingPerson(null);
+              setMergeTargetId("");
+            }
+          }}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Merge {mergingPerson?.name}</DialogTitle>
+            </DialogHeader>
+            <p className="text-sm text-muted-foreground">
+              Every credit and transaction for {mergingPerson?.name} moves to the selected person, and{" "}
+              {mergingPerson?.name} is kept as one of their aliases.
+            </p>
+            <div className="space-y-2">
+              <Label>Merge Into</Label>
+              <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select person" />
+                </SelectTrigger>
+                <SelectContent>
+                  {people
+                    .filter((p) => p.id !== mergingPerson?.id)
+                    .map((person) => (
+                      <SelectItem key={person.id} value={person.id}>
+                        {person.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button className="w-full" onClick={handleMerge} disabled={!mergeTargetId}>
+              Merge People
+            </Button>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </Layout>
+  );
+};
+
+export default People;
@@ -0,0 +1,234 @@
+import { Link, useParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import Layout from "@/components/Layout";
+import { Money } from "@/components/Money";
+import { ArrowLeft, Mail, Phone, TrendingDown, TrendingUp, UserCheck, UserX } from "lucide-react";
+import { usePerson } from "@/hooks/use-people";
+import { useCreditPayments, useCredits } from "@/hooks/use-credits";
+import { usePersonTransactions } from "@/hooks/use-transactions";
+import { getCreditStatus, getOutstanding, getPaidByCredit } from "@/lib/credits";
+import { subtractMoney, sumMoney } from "@/lib/money";
+
+const PersonDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { data: person, isPending: personPending } = usePerson(id);
+  const { data: allCredits = [], isPending: creditsPending } = useCredits();
+  const { data: payments = [] } = useCreditPayments();
+  const { data: transactions = [] } = usePersonTransactions(person?.name);
+  const credits = allCredits.filter((c) => c.person_name === person?.name);
+  const loading = personPending || creditsPending;
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!person) {
+    return (
+      <Layout>
+        <div className="flex flex-col items-center justify-center min-h-[60vh] gap-4">
+          <p className="text-muted-foreground">This person could not be found</p>
+          <Button asChild variant="outline">
+            <Link to="/people">Back to People</Link>
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  const paidByCredit = getPaidByCredit(payments);
+  const owedToMe = sumMoney(credits.filter((c) => c.type === "owe_me").map((c) => getOutstanding(c, paidByCredit)));
+  const iOwe = sumMoney(credits.filter((c) => c.type === "i_owe").map((c) => getOutstanding(c, paidByCredit)));
+  const net = subtractMoney(owedToMe, iOwe);
+
+  const received = sumMoney(transactions.filter((t) => t.type === "income").map((t) => t.amount));
+  const paid = sumMoney(transactions.filter((t) => t.type === "expense").map((t) => t.amount));
+
+  return (
+    <Layout>
+      <div className="space-y-8">
+        <div className="space-y-4">
+          <Button asChild variant="ghost" size="sm" className="-ml-2">
+            <Link to="/people">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              People
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-4xl font-bold text-foreground">{person.name}</h1>
+            <div className="flex flex-wrap items-center gap-4 text-muted-foreground mt-2">
+              {person.phone && (
+                <span className="flex items-center gap-1">
+                  <Phone className="h-4 w-4" />
+                  {person.phone}
+                </span>
+              )}
+              {person.email && (
+                <span className="flex items-center gap-1">
+                  <Mail className="h-4 w-4" />
+                  {person.email}
+                </span>
+              )}
+              {person.aliases.map((alias) => (
+                <Badge key={alias} variant="secondary">
+                  {alias}
+                </Badge>
+              ))}
+            </div>
+            {person.notes && <p className="text-sm text-muted-foreground mt-2">{person.notes}</p>}
+          </div>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-3">
+          <Card className="shadow-card">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">They Owe Me</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-success">
+                <Money amount={owedToMe} />
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="shadow-card">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">I Owe Them</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-expense-light">
+                <Money amount={iOwe} />
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="shadow-card">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Net Position</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div
+                className={`text-2xl font-bold ${
+                  net >= 0 ? "text-success" : "text-expense-light"
+                }`}
+              >
+                <Money amount={net} showPlus colorNegative={false} />
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Received <Money amount={received} /> · Paid <Money amount={paid} />
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>Credits</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {credits.length === 0 ? (
+              <p className="text-muted-foreground text-sm">No credits with {person.name}</p>
+            ) : (
+              <div className="space-y-3">
+                {credits.map((credit) => {
+                  const outstanding = getOutstanding(credit, paidByCredit);
+                  const status = getCreditStatus(outstanding);
+                  return (
+                    <div
+                      key={credit.id}
+                      className="flex items-center justify-between border-b border-border pb-3 last:border-0"
+                    >
+                      <div className="flex items-center gap-3">
+                        {credit.type === "owe_me" ? (
+                          <UserCheck className="h-4 w-4 text-success" />
+                        ) : (
+                          <UserX className="h-4 w-4 text-expense-light" />
+                        )}
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium text-foreground">
+                              {credit.type === "owe_me" ? "They owe me" : "I owe them"}
+                            </p>
+                            <Badge variant={status === "settled" ? "secondary" : "outline"}>
+                              {status === "settled" ? "Settled" : "Open"}
+                            </Badge>
+                          </div>
+                          <p className="text-sm text-muted-foreground">
+                            {new Date(credit.date).toLocaleDateString()}
+                            {credit.description && ` • ${credit.description}`}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <span className="font-semibold flex items-center gap-1 justify-end">
+                          <Money amount={outstanding} />
+                        </span>
+                        <p className="text-xs text-muted-foreground flex items-center justify-end gap-1">
+                          of <Money amount={credit.amount} />
+                        </p>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>Transactions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {transactions.length === 0 ? (
+              <p className="text-muted-foreground text-sm">No transactions with {person.name}</p>
+            ) : (
+              <div className="space-y-3">
+                {transactions.map((transaction) => (
+                  <div
+                    key={transaction.id}
+                    className="flex items-center justify-between border-b border-border pb-3 last:border-0"
+                  >
+                    <div className="flex items-center gap-3">
+                      {transaction.type === "income" ? (
+                        <TrendingUp className="h-4 w-4 text-success" />
+                      ) : (
+                        <TrendingDown className="h-4 w-4 text-expense-light" />
+                      )}
+                      <div>
+                        <p className="font-medium text-foreground">{transaction.category || "Uncategorized"}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {new Date(transaction.date).toLocaleDateString()}
+                          {transaction.banks && ` • ${transaction.banks.name}`}
+                          {transaction.notes && ` • ${transaction.notes}`}
+                        </p>
+                      </div>
+                    </div>
+                    <span
+                      className={`font-semibold ${
+                        transaction.type === "income" ? "text-success" : "text-expense-light"
+                      }`}
+                    >
+                      <Money
+                        amount={transaction.type === "income" ? transaction.amount : -transaction.amount}
+                        showPlus
+                        colorNegative={false}
+                      />
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+};
+
+export default PersonDetail;
@@ -0,0 +1,201 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { ArrowLeft, TrendingDown, TrendingUp } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MoneyInput } from "@/components/MoneyInput";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useBanks } from "@/hooks/use-banks";
+import { useCategories } from "@/hooks/use-categories";
+import { useSaveTransaction } from "@/hooks/use-transactions";
+import { QUEUED, SAVED_OFFLINE } from "@/lib/offlineQueue";
+import { CategoryType, getIconByName } from "@/lib/categories";
+import { getLastUsed, parseQuickAddType, rememberLastUsed } from "@/lib/quickAdd";
+
+const today = () => new Date().toISOString().split("T")[0];
+
+interface QuickAddFormProps {
+  type: CategoryType;
+}
+
+const QuickAddForm = ({ type }: QuickAddFormProps) => {
+  const [formData, setFormData] = useState({ amount: "", bank_id: "", category: "", notes: "", date: today() });
+  const { data: banks = [] } = useBanks();
+  const { optionsFor, getLabel, loading: categoriesLoading } = useCategories();
+  const saveTransaction = useSaveTransaction();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const categoryOptions = optionsFor(type, formData.category);
+
+  // Prefill once banks and categories are available, skipping anything since deleted or archived
+  useEffect(() => {
+    if (banks.length === 0 || categoriesLoading) return;
+
+    const lastUsed = getLastUsed(type);
+    setFormData((current) => ({
+      ...current,
+      bank_id:
+        current.bank_id ||
+        (banks.some((b) => b.id === lastUsed?.bankId) ? lastUsed!.bankId : banks.length === 1 ? banks[0].id : ""),
+      category:
+        current.category ||
+        (optionsFor(type).some((c) => c.name === lastUsed?.category) ? lastUsed!.category : ""),
+    }));
+  }, [banks, categoriesLoading, optionsFor, type]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.bank_id || !formData.category) {
+      toast({
+        variant: "destructive",
+        title: "Missing details",
+        description: "Please select a bank account and a category",
+      });
+      return;
+    }
+
+    try {
+      const result = await saveTransaction.mutateAsync({
+        type,
+        amount: parseFloat(formData.amount),
+        date: formData.date,
+        category: formData.category,
+        notes: formData.notes,
+        bank_id: formData.bank_id,
+        person_name: "",
+      });
+      rememberLastUsed(type, { bankId: formData.bank_id, category: formData.category });
+
+      toast(result === QUEUED ? SAVED_OFFLINE : { title: type === "expense" ? "Expense added" : "Income added" });
+      // Ready for the next one; bank and category stay as they were
+      setFormData({ ...formData, amount: "", notes: "", date: today() });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    }
+  };
+
+  const Icon = type === "expense" ? TrendingDown : TrendingUp;
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-background to-muted p-4">
+      <Card className="w-full max-w-md shadow-elevated">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/")} aria-label="Back to dashboard">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <CardTitle className="flex items-center gap-2">
+              <Icon className={type === "expense" ? "h-5 w-5 text-destructive" : "h-5 w-5 text-success"} />
+              {type === "expense" ? "Add Expense" : "Add Income"}
+            </CardTitle>
+            <Link
+              to={`/transactions/new?type=${type === "expense" ? "income" : "expense"}`}
+              className="text-sm text-muted-foreground hover:text-foreground"
+            >
+              {type === "expense" ? "Income" : "Expense"}
+            </Link>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="amount">Amount</Label>
+              <MoneyInput
+                id="amount"
+                currency={banks.find((b) => b.id === formData.bank_id)?.currency}
+                className="h-14 text-2xl"
+                value={formData.amount}
+                onChange={(amount) => setFormData({ ...formData, amount })}
+                autoFocus
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="category">Category</Label>
+              <Select value={formData.category} onValueChange={(value) => setFormData({ ...formData, category: value })}>
+                <SelectTrigger id="category">
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categoryOptions.map((category) => {
+                    const CategoryIcon = getIconByName(category.icon);
+                    return (
+                      <SelectItem key={category.id} value={category.name}>
+                        <div className="flex items-center gap-2">
+                          <CategoryIcon className="h-4 w-4" />
+                          <span>{getLabel(category)}</span>
+                        </div>
+                      </SelectItem>
+                    );
+                  })}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bank">Bank Account</Label>
+              <Select value={formData.bank_id} onValueChange={(value) => setFormData({ ...formData, bank_id: value })}>
+                <SelectTrigger id="bank">
+                  <SelectValue placeholder="Select bank" />
+                </SelectTrigger>
+                <SelectContent>
+                  {banks.map((bank) => (
+                    <SelectItem key={bank.id} value={bank.id}>
+                      {bank.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="date">Date</Label>
+                <Input
+                  id="date"
+                  type="date"
+                  value={formData.date}
+                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="notes">Notes (Optional)</Label>
+                <Input
+                  id="notes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                />
+              </div>
+            </div>
+            <Button type="submit" className="w-full" size="lg" disabled={saveTransaction.isPending}>
+              {saveTransaction.isPending ? "Saving..." : type === "expense" ? "Add Expense" : "Add Income"}
+            </Button>
+            <Button type="button" variant="link" className="w-full" onClick={() => navigate("/transactions")}>
+              Open all transactions
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+// A single-screen form for the "Add expense" app shortcut (/transactions/new?type=expense).
+// The bank and category from last time are filled in, so usually only the amount is needed
+const QuickAdd = () => {
+  const [searchParams] = useSearchParams();
+  const type = parseQuickAddType(searchParams.get("type"));
+
+  // Switching between expense and income starts a fresh form
+  return <QuickAddForm key={type} type={type} />;
+};
+
+export default QuickAdd;
@@ -0,0 +1,482 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import Layout from "@/components/Layout";
+import { PersonInput } from "@/components/PersonInput";
+import { Plus, Trash2, Pencil, Repeat, Play } from "lucide-react";
+import { getIconByName } from "@/lib/categories";
+import { useCategories } from "@/hooks/use-categories";
+import { FREQUENCIES, Frequency, describeSchedule, processDueRecurringTransactions } from "@/lib/recurring";
+import { Money } from "@/components/Money";
+import { MoneyInput } from "@/components/MoneyInput";
+import { queryKeys } from "@/lib/queryKeys";
+import { useBanks } from "@/hooks/use-banks";
+import { invalidateLedger } from "@/hooks/use-transactions";
+
+interface RecurringTransaction {
+  id: string;
+  type: "income" | "expense";
+  amount: number;
+  category: string;
+  notes: string;
+  person_name: string;
+  bank_id: string;
+  frequency: Frequency;
+  day_of_month: number | null;
+  start_date: string;
+  end_date: string | null;
+  next_run_date: string;
+  last_run_date: string | null;
+  is_active: boolean;
+  banks: { name: string };
+}
+
+const emptyForm = () => ({
+  type: "expense" as "income" | "expense",
+  amount: "",
+  category: "",
+  notes: "",
+  bank_id: "",
+  person_name: "",
+  frequency: "monthly" as Frequency,
+  day_of_month: "",
+  start_date: new Date().toISOString().split("T")[0],
+  end_date: "",
+});
+
+const Recurring = () => {
+  const [open, setOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<RecurringTransaction | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+  const { optionsFor, getIcon, getLabel } = useCategories();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: banks = [] } = useBanks();
+  const rulesQuery = useQuery({
+    queryKey: queryKeys.recurring,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("recurring_transactions")
+        .select("*, banks(name)")
+        .order("next_run_date", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as RecurringTransaction[];
+    },
+    meta: { errorTitle: "Error loading recurring transactions" },
+  });
+  const rules = rulesQuery.data || [];
+
+  const refreshRules = () => queryClient.invalidateQueries({ queryKey: queryKeys.recurring });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) return;
+
+    if (!formData.category) {
+      toast({
+        variant: "destructive",
+        title: "Category required",
+        description: "Please select a category for this recurring transaction",
+      });
+      return;
+    }
+
+    // next_run_date is derived from the schedule by a database trigger
+    const values = {
+      type: formData.type,
+      amount: parseFloat(formData.amount),
+      category: formData.category,
+      notes: formData.notes,
+      bank_id: formData.bank_id,
+      person_name: formData.person_name,
+      frequency: formData.frequency,
+      day_of_month: formData.frequency === "monthly" && formData.day_of_month ? parseInt(formData.day_of_month) : null,
+      start_date: formData.start_date,
+      end_date: formData.end_date || null,
+    };
+
+    try {
+      if (editingRule) {
+        const { error } = await supabase.from("recurring_transactions").update(values).eq("id", editingRule.id);
+
+        if (error) throw error;
+        toast({ title: "Recurring transaction updated successfully" });
+      } else {
+        const { error } = await supabase.from("recurring_transactions").insert({ ...values, user_id: user.id });
+
+        if (error) throw error;
+        toast({ title: "Recurring transaction added successfully" });
+      }
+
+      setOpen(false);
+      setEditingRule(null);
+      setFormData(emptyForm());
+      refreshRules();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    }
+  };
+
+  const handleEdit = (rule: RecurringTransaction) => {
+    setEditingRule(rule);
+    setFormData({
+      type: rule.type,
+      amount: rule.amount.toString(),
+      category: rule.category || "",
+      notes: rule.notes || "",
+      bank_id: rule.bank_id,
+      person_name: rule.person_name || "",
+      frequency: rule.frequency,
+      day_of_month: rule.day_of_month ? rule.day_of_month.toString() : "",
+      start_date: rule.start_date,
+      end_date: rule.end_date || "",
+    });
+    setOpen(true);
+  };
+
+  const handleToggleActive = async (rule: RecurringTransaction) => {
+    try {
+      const { error } = await supabase
+        .from("recurring_transactions")
+        .update({ is_active: !rule.is_active })
+        .eq("id", rule.id);
+
+      if (error) throw error;
+      refreshRules();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase.from("recurring_transactions").delete().eq("id", id);
+
+      if (error) throw error;
+      toast({ title: "Recurring transaction deleted successfully" });
+      refreshRules();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error deleting recurring transaction",
+        description: error.message,
+      });
+    }
+  };
+
+  const handleRunNow = async () => {
+    try {
+      const created = await processDueRecurringTransactions();
+      toast({
+        title: created > 0 ? `Posted ${created} scheduled transactions` : "Nothing is due yet",
+      });
+      refreshRules();
+      if (created > 0) invalidateLedger(queryClient);
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error processing recurring transactions",
+        description: error.message,
+      });
+    }
+  };
+
+  if (rulesQuery.isPending) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold text-foreground">Recurring</h1>
+            <p className="text-muted-foreground mt-2">Schedule My Regular Income and Expenses</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <Button variant="outline" className="gap-2" onClick={handleRunNow}>
+              <Play className="h-4 w-4" />
+              Post Due Now
+            </Button>
+            <Dialog open={open} onOpenChange={(isOpen) => {
+              setOpen(isOpen);
+              if (!isOpen) {
+                setEditingRule(null);
+                setFormData(emptyForm());
+              }
+            }}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Recurring
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>{editingRule ? "Edit Recurring Transaction" : "Add Recurring Transaction"}</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="type">Type</Label>
+                    <Select
+                      value={formData.type}
+                      onValueChange={(value: "income" | "expense") =>
+                        setFormData({ ...formData, type: value, category: "" })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="income">Income</SelectItem>
+                        <SelectItem value="expense">Expense</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="bank">Bank Account</Label>
+                    <Select
+                      value={formData.bank_id}
+                      onValueChange={(value) => setFormData({ ...formData, bank_id: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select bank" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {banks.map((bank) => (
+                          <SelectItem key={bank.id} value={bank.id}>
+                            {bank.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="amount">Amount</Label>
+                    <MoneyInput
+                      id="amount"
+                      value={formData.amount}
+                      onChange={(amount) => setFormData({ ...formData, amount })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="category">Category</Label>
+                    <Select
+                      value={formData.category}
+                      onValueChange={(value) => setFormData({ ...formData, category: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {optionsFor(formData.type, formData.category).map(
+                          (category) => {
+                            const Icon = getIconByName(category.icon);
+                            return (
+                              <SelectItem key={category.id} value={category.name}>
+                                <div className="flex items-center gap-2">
+                                  <Icon className="h-4 w-4" />
+                                  <span>{getLabel(category)}</span>
+                                </div>
+                              </SelectItem>
+                            );
+                          }
+                        )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="frequency">Frequency</Label>
+                      <Select
+                        value={formData.frequency}
+                        onValueChange={(value: Frequency) => setFormData({ ...formData, frequency: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FREQUENCIES.map((frequency) => (
+                            <SelectItem key={frequency.value} value={frequency.value}>
+                              {frequency.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {formData.frequency === "monthly" && (
+                      <div className="space-y-2">
+                        <Label htmlFor="day_of_month">Day of Month</Label>
+                        <Input
+                          id="day_of_month"
+                          type="number"
+                          min={1}
+                          max={31}
+                          value={formData.day_of_month}
+                          onChange={(e) => setFormData({ ...formData, day_of_month: e.target.value })}
+                          placeholder="Same as start date"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="start_date">Start Date</Label>
+                      <Input
+                        id="start_date"
+                        type="date"
+                        value={formData.start_date}
+                        onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="end_date">End Date (Optional)</Label>
+                      <Input
+                        id="end_date"
+                        type="date"
+                        value={formData.end_date}
+                        min={formData.start_date}
+                        onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="person_name">Person Name (Optional)</Label>
+                    <PersonInput
+                      id="person_name"
+                      value={formData.person_name}
+                      onChange={(value) => setFormData({ ...formData, person_name: value })}
+                      placeholder="e.g., Landlord"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="notes">Notes</Label>
+                    <Textarea
+                      id="notes"
+                      value={formData.notes}
+                      onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                      placeholder="Optional notes"
+                    />
+                  </div>
+                  <Button type="submit" className="w-full">
+                    {editingRule ? "Update Recurring Transaction" : "Add Recurring Transaction"}
+                  </Button>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+
+        {rules.length === 0 ? (
+          <Card className="shadow-card">
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <p className="text-muted-foreground text-center">
+                No recurring transactions yet. Schedule your salary, rent or EMI to get started!
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="shadow-card">
+            <CardHeader>
+              <CardTitle>All Recurring Transactions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {rules.map((rule) => {
+                  const CategoryIcon = rule.category ? getIcon(rule.category) : Repeat;
+                  const finished = rule.end_date !== null && rule.next_run_date > rule.end_date;
+                  return (
+                    <div
+                      key={rule.id}
+                      className="flex items-center justify-between border-b border-border pb-4 last:border-0"
+                    >
+                      <div className="flex items-center gap-4">
+                        <div
+                          className={`rounded-full p-2 ${
+                            rule.type === "income" ? "bg-success/10" : "bg-destructive/10"
+                          }`}
+                        >
+                          <CategoryIcon
+                            className={`h-5 w-5 ${rule.type === "income" ? "text-success" : "text-destructive"}`}
+                          />
+                        </div>
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <p className="font-semibold text-foreground">{rule.category || "Uncategorized"}</p>
+                            {!rule.is_active && <Badge variant="secondary">Paused</Badge>}
+                            {finished && <Badge variant="outline">Ended</Badge>}
+                          </div>
+                          <p className="text-sm text-muted-foreground">
+                            {rule.banks.name} • {describeSchedule(rule.frequency, rule.day_of_month)}
+                            {rule.person_name && ` • ${rule.person_name}`}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            {finished
+                              ? `Ended ${new Date(rule.end_date as string).toLocaleDateString()}`
+                              : `Next: ${new Date(rule.next_run_date).toLocaleDateString()}`}
+                            {rule.last_run_date && ` • Last: ${new Date(rule.last_run_date).toLocaleDateString()}`}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-4">
+                        <span
+                          className={`text-lg font-bold ${
+                            rule.type === "income" ? "text-success" : "text-expense-light"
+                          }`}
+                        >
+                          <Money
+                            amount={rule.type === "income" ? rule.amount : -rule.amount}
+                            showPlus
+                            colorNegative={false}
+                          />
+                        </span>
+                        <Switch checked={rule.is_active} onCheckedChange={() => handleToggleActive(rule)} />
+                        <Button size="icon" variant="ghost" onClick={() => handleEdit(rule)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" onClick={() => handleDelete(rule.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Recurring;
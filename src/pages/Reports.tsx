@@ -1,19 +1,36 @@
-import { useEffect, useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import Layout from "@/components/Layout";
-import { Download, Upload, CalendarIcon, TrendingUp, TrendingDown, IndianRupee } from "lucide-react";
+import { Download, Upload, CalendarIcon, TrendingUp, TrendingDown, Scale, ChevronDown, ChevronRight } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
-import { format, startOfMonth, endOfMonth, isWithinInterval } from "date-fns";
+import { format, startOfMonth, endOfMonth } from "date-fns";
 import { cn } from "@/lib/utils";
-import { RupeeIcon } from "@/components/RupeeIcon";
-
+import { Money } from "@/components/Money";
+import { BaseCurrencySelect } from "@/components/BaseCurrencySelect";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Backup, createBackup, parseBackup, restoreBackup } from "@/lib/backup";
+import { getIconByName, rollUpCategoryTotals } from "@/lib/categories";
+import { addMoney, subtractMoney, sumMoney } from "@/lib/money";
+import { useCategories } from "@/hooks/use-categories";
+import { useTransactionTotals } from "@/hooks/use-transactions";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+
+// One day's total for a category, which is as fine-grained as any report here needs
 interface Transaction {
-  id: string;
   type: "income" | "expense";
   amount: number;
   date: string;
@@ -21,63 +38,68 @@ interface Transaction {
 }
 
 const Reports = () => {
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [loading, setLoading] = useState(true);
   const [dateRange, setDateRange] = useState<{ from: Date | undefined; to: Date | undefined }>({
     from: undefined,
     to: undefined,
   });
+  const [pendingBackup, setPendingBackup] = useState<Backup | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [expandedCategory, setExpandedCategory] = useState<string | null>(null);
+  const { categories } = useCategories();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
-  useEffect(() => {
-    fetchTransactions();
-  }, []);
+  const [baseCurrency] = useBaseCurrency();
 
-  const fetchTransactions = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("transactions")
-        .select("*")
-        .order("date", { ascending: false });
+  const hasRange = dateRange.from && dateRange.to;
+  // Every amount is converted into the base currency at the rate for its day
+  const totalsQuery = useTransactionTotals("day", true, {
+    from: hasRange ? format(dateRange.from!, "yyyy-MM-dd") : null,
+    to: hasRange ? format(dateRange.to!, "yyyy-MM-dd") : null,
+    baseCurrency,
+  });
+  const unconvertedCount = (totalsQuery.data || []).reduce((sum, t) => sum + Number(t.unconverted), 0);
+
+  const transactions = useMemo<Transaction[]>(
+    () =>
+      (totalsQuery.data || []).map((t) => ({
+        type: t.type,
+        amount: Number(t.total),
+        date: t.period!,
+        category: t.category || "",
+      })),
+    [totalsQuery.data]
+  );
 
-      if (error) throw error;
-      setTransactions((data || []) as Transaction[]);
+  const handleExport = async () => {
+    try {
+      const backup = await createBackup();
+      const dataStr = JSON.stringify(backup, null, 2);
+      const dataBlob = new Blob([dataStr], { type: "application/json" });
+      const url = URL.createObjectURL(dataBlob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `finance-backup-${new Date().toISOString().split("T")[0]}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast({ title: "Backup exported successfully" });
     } catch (error: any) {
       toast({
         variant: "destructive",
-        title: "Error loading data",
+        title: "Error exporting backup",
         description: error.message,
       });
-    } finally {
-      setLoading(false);
     }
   };
 
-  const handleExport = () => {
-    const dataStr = JSON.stringify(transactions, null, 2);
-    const dataBlob = new Blob([dataStr], { type: "application/json" });
-    const url = URL.createObjectURL(dataBlob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `finance-export-${new Date().toISOString().split("T")[0]}.json`;
-    link.click();
-    URL.revokeObjectURL(url);
-    toast({ title: "Data exported successfully" });
-  };
-
   const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    // Allow picking the same file again after cancelling
+    e.target.value = "";
     if (!file) return;
 
     try {
-      const text = await file.text();
-      const data = JSON.parse(text);
-      
-      if (!Array.isArray(data)) {
-        throw new Error("Invalid file format");
-      }
-
-      toast({ title: "Data imported successfully" });
+      setPendingBackup(parseBackup(await file.text()));
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -87,19 +109,38 @@ const Reports = () => {
     }
   };
 
+  const handleRestore = async (mode: "merge" | "replace") => {
+    if (!pendingBackup) return;
+
+    setRestoring(true);
+    try {
+      await restoreBackup(pendingBackup, mode);
+      toast({ title: "Backup restored successfully" });
+      setPendingBackup(null);
+      // A restore can touch every table, so nothing cached is still trustworthy
+      queryClient.invalidateQueries();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error restoring backup",
+        description: error.message,
+      });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
   const calculateMonthlyReport = () => {
     const monthlyData: {
       [key: string]: { income: number; expense: number };
     } = {};
 
-    const filtered = filterTransactionsByDateRange();
-    
-    filtered.forEach((t) => {
+    transactions.forEach((t) => {
       const month = new Date(t.date).toISOString().slice(0, 7);
       if (!monthlyData[month]) {
         monthlyData[month] = { income: 0, expense: 0 };
       }
-      monthlyData[month][t.type] += Number(t.amount);
+      monthlyData[month][t.type] = addMoney(monthlyData[month][t.type], t.amount);
     });
 
     return monthlyData;
@@ -110,46 +151,20 @@ const Reports = () => {
       [key: string]: { income: number; expense: number };
     } = {};
 
-    const filtered = filterTransactionsByDateRange();
-    
-    filtered.forEach((t) => {
+    transactions.forEach((t) => {
       const day = new Date(t.date).toISOString().slice(0, 10);
       if (!dailyData[day]) {
         dailyData[day] = { income: 0, expense: 0 };
       }
-      dailyData[day][t.type] += Number(t.amount);
+      dailyData[day][t.type] = addMoney(dailyData[day][t.type], t.amount);
     });
 
     return dailyData;
   };
 
-  const filterTransactionsByDateRange = () => {
-    if (!dateRange.from || !dateRange.to) {
-      return transactions;
-    }
-
-    return transactions.filter((t) => {
-      const transactionDate = new Date(t.date);
-      return isWithinInterval(transactionDate, { start: dateRange.from!, end: dateRange.to! });
-    });
-  };
-
+  // Sub-categories roll up into their parent; the per-child totals drive the drill-down
   const calculateCategoryReport = () => {
-    const categoryData: {
-      [key: string]: { income: number; expense: number };
-    } = {};
-
-    const filtered = filterTransactionsByDateRange();
-
-    filtered.forEach((t) => {
-      const category = t.category || "Uncategorized";
-      if (!categoryData[category]) {
-        categoryData[category] = { income: 0, expense: 0 };
-      }
-      categoryData[category][t.type] += Number(t.amount);
-    });
-
-    return categoryData;
+    return rollUpCategoryTotals(transactions, categories);
   };
 
   const monthlyReport = calculateMonthlyReport();
@@ -157,21 +172,16 @@ const Reports = () => {
   const categoryReport = calculateCategoryReport();
 
   const calculateSummary = () => {
-    const filtered = filterTransactionsByDateRange();
-    const totalIncome = filtered
-      .filter((t) => t.type === "income")
-      .reduce((sum, t) => sum + Number(t.amount), 0);
-    const totalExpense = filtered
-      .filter((t) => t.type === "expense")
-      .reduce((sum, t) => sum + Number(t.amount), 0);
-    const netBalance = totalIncome - totalExpense;
+    const totalIncome = sumMoney(transactions.filter((t) => t.type === "income").map((t) => t.amount));
+    const totalExpense = sumMoney(transactions.filter((t) => t.type === "expense").map((t) => t.amount));
+    const netBalance = subtractMoney(totalIncome, totalExpense);
     
     return { totalIncome, totalExpense, netBalance };
   };
 
   const summary = calculateSummary();
 
-  if (loading) {
+  if (totalsQuery.isPending) {
     return (
       <Layout>
         <div className="flex items-center justify-center min-h-[60vh]">
@@ -193,13 +203,13 @@ const Reports = () => {
             <div className="flex gap-2">
               <Button onClick={handleExport} variant="outline">
                 <Download className="mr-2 h-4 w-4" />
-                Export JSON
+                Backup JSON
               </Button>
               <label>
                 <Button variant="outline" asChild>
                   <span>
                     <Upload className="mr-2 h-4 w-4" />
-                    Import JSON
+                    Restore JSON
                   </span>
                 </Button>
                 <input type="file" accept=".json" onChange={handleImport} className="hidden" />
@@ -207,6 +217,42 @@ const Reports = () => {
             </div>
           </div>
           
+          <AlertDialog open={!!pendingBackup} onOpenChange={(isOpen) => !isOpen && setPendingBackup(null)}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Restore Backup</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {pendingBackup && (
+                    <>
+                      Backup from {new Date(pendingBackup.exported_at).toLocaleString()} with{" "}
+                      {pendingBackup.banks.length} banks, {pendingBackup.transactions.length} transactions,{" "}
+                      {pendingBackup.transfers.length} transfers, {pendingBackup.credits.length} credits and{" "}
+                      {pendingBackup.recurring_transactions.length} recurring transactions.
+                      Merge adds these records alongside your current data. Replace deletes all of your current
+                      data first and cannot be undone.
+                    </>
+                  )}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel disabled={restoring}>Cancel</AlertDialogCancel>
+                <Button variant="outline" disabled={restoring} onClick={() => handleRestore("merge")}>
+                  Merge
+                </Button>
+                <AlertDialogAction
+                  disabled={restoring}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    handleRestore("replace");
+                  }}
+                >
+                  Replace All Data
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+
           <div className="flex items-center gap-3">
             <Popover>
               <PopoverTrigger asChild>
@@ -244,8 +290,16 @@ const Reports = () => {
                 </div>
               </PopoverContent>
             </Popover>
+            <BaseCurrencySelect />
           </div>
 
+          {unconvertedCount > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {unconvertedCount} {unconvertedCount === 1 ? "transaction is" : "transactions are"} left out of these
+              totals because there is no exchange rate to {baseCurrency}. Add one on the Exchange Rates page.
+            </p>
+          )}
+
           <div className="grid gap-4 md:grid-cols-3">
             <Card className="shadow-card">
               <CardHeader className="flex flex-row items-center justify-between pb-2">
@@ -255,9 +309,8 @@ const Reports = () => {
                 <TrendingUp className="h-4 w-4 text-success" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold text-success flex items-center gap-1">
-                  <RupeeIcon size={20} />
-                  {summary.totalIncome.toFixed(2)}
+                <div className="text-2xl font-bold text-success">
+                  <Money amount={summary.totalIncome} currency={baseCurrency} />
                 </div>
               </CardContent>
             </Card>
@@ -270,9 +323,8 @@ const Reports = () => {
                 <TrendingDown className="h-4 w-4 text-destructive" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold text-destructive flex items-center gap-1">
-                  <RupeeIcon size={20} />
-                  {summary.totalExpense.toFixed(2)}
+                <div className="text-2xl font-bold text-destructive">
+                  <Money amount={summary.totalExpense} currency={baseCurrency} />
                 </div>
               </CardContent>
             </Card>
@@ -282,12 +334,11 @@ const Reports = () => {
                 <CardTitle className="text-sm font-medium text-muted-foreground">
                   Net Balance
                 </CardTitle>
-                <IndianRupee className={`h-4 w-4 ${summary.netBalance >= 0 ? "text-success" : "text-destructive"}`} />
+                <Scale className={`h-4 w-4 ${summary.netBalance >= 0 ? "text-success" : "text-destructive"}`} />
               </CardHeader>
               <CardContent>
-                <div className={`text-2xl font-bold flex items-center gap-1 ${summary.netBalance >= 0 ? "text-success" : "text-destructive"}`}>
-                  <RupeeIcon size={20} />
-                  {summary.netBalance.toFixed(2)}
+                <div className={`text-2xl font-bold ${summary.netBalance >= 0 ? "text-success" : "text-destructive"}`}>
+                  <Money amount={summary.netBalance} currency={baseCurrency} />
                 </div>
               </CardContent>
             </Card>
@@ -323,13 +374,13 @@ const Reports = () => {
                             })}
                           </p>
                           <div className="flex justify-between text-sm">
-                            <span className="text-success flex items-center gap-1">Income: <RupeeIcon size={12} />{data.income.toFixed(2)}</span>
+                            <span className="text-success flex items-center gap-1">Income: <Money amount={data.income} currency={baseCurrency} /></span>
                             <span className="text-destructive flex items-center gap-1">
-                              Expenses: <RupeeIcon size={12} />{data.expense.toFixed(2)}
+                              Expenses: <Money amount={data.expense} currency={baseCurrency} />
                             </span>
                           </div>
                           <div className="text-sm font-semibold text-foreground flex items-center gap-1">
-                            Net: <RupeeIcon size={12} />{(data.income - data.expense).toFixed(2)}
+                            Net: <Money amount={subtractMoney(data.income, data.expense)} currency={baseCurrency} />
                           </div>
                         </div>
                       ))}
@@ -360,13 +411,13 @@ const Reports = () => {
                             })}
                           </p>
                           <div className="flex justify-between text-sm">
-                            <span className="text-success flex items-center gap-1">Income: <RupeeIcon size={12} />{data.income.toFixed(2)}</span>
+                            <span className="text-success flex items-center gap-1">Income: <Money amount={data.income} currency={baseCurrency} /></span>
                             <span className="text-destructive flex items-center gap-1">
-                              Expenses: <RupeeIcon size={12} />{data.expense.toFixed(2)}
+                              Expenses: <Money amount={data.expense} currency={baseCurrency} />
                             </span>
                           </div>
                           <div className="text-sm font-semibold text-foreground flex items-center gap-1">
-                            Net: <RupeeIcon size={12} />{(data.income - data.expense).toFixed(2)}
+                            Net: <Money amount={subtractMoney(data.income, data.expense)} currency={baseCurrency} />
                           </div>
                         </div>
                       ))}
@@ -386,17 +437,49 @@ const Reports = () => {
                   <p className="text-muted-foreground text-sm">No data available</p>
                 ) : (
                   <div className="space-y-4">
-                    {Object.entries(categoryReport).map(([category, data]) => (
+                    {Object.entries(categoryReport).map(([category, data]) => {
+                      const details = categories.find((c) => c.name === category);
+                      const Icon = getIconByName(details?.icon);
+                      const subCategories = Object.entries(data.children).filter(([name]) => name !== category);
+                      const isExpanded = expandedCategory === category;
+                      return (
                       <div key={category} className="space-y-2">
-                        <p className="font-semibold text-foreground">{category}</p>
+                        <p className="font-semibold text-foreground flex items-center gap-2">
+                          <Icon className="h-4 w-4" style={{ color: details?.color }} />
+                          {category}
+                          {subCategories.length > 0 && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-6 w-6"
+                              onClick={() => setExpandedCategory(isExpanded ? null : category)}
+                            >
+                              {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                            </Button>
+                          )}
+                        </p>
                         <div className="flex justify-between text-sm">
-                          <span className="text-success flex items-center gap-1">Income: <RupeeIcon size={12} />{data.income.toFixed(2)}</span>
+                          <span className="text-success flex items-center gap-1">Income: <Money amount={data.income} currency={baseCurrency} /></span>
                           <span className="text-destructive flex items-center gap-1">
-                            Expenses: <RupeeIcon size={12} />{data.expense.toFixed(2)}
+                            Expenses: <Money amount={data.expense} currency={baseCurrency} />
                           </span>
                         </div>
+                        {isExpanded && (
+                          <div className="space-y-1 pl-6 border-l border-border">
+                            {Object.entries(data.children).map(([name, childData]) => (
+                              <div key={name} className="flex justify-between text-sm">
+                                <span className="text-muted-foreground">{name === category ? `${name} (direct)` : name}</span>
+                                <span className="flex gap-4">
+                                  <span className="text-success"><Money amount={childData.income} currency={baseCurrency} /></span>
+                                  <span className="text-destructive"><Money amount={childData.expense} currency={baseCurrency} /></span>
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 )}
               </CardContent>
@@ -1,5 +1,5 @@
-import { useEffect, useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,49 +7,84 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import Layout from "@/components/Layout";
-import { Plus, Trash2, TrendingUp, TrendingDown, Filter, X, CalendarIcon, Download, Pencil } from "lucide-react";
-import { INCOME_CATEGORIES, EXPENSE_CATEGORIES, getCategoryIcon } from "@/lib/categories";
+import { PersonInput } from "@/components/PersonInput";
+import { SplitExpenseFields } from "@/components/SplitExpenseFields";
+import { Plus, Trash2, TrendingUp, TrendingDown, Filter, X, CalendarIcon, Download, Pencil, ChevronDown, ChevronRight, Search } from "lucide-react";
+import { getIconByName, rollUpCategoryTotals } from "@/lib/categories";
+import { useCategories } from "@/hooks/use-categories";
+import { useBanks } from "@/hooks/use-banks";
+import {
+  useDeleteTransaction,
+  useSaveSplitExpense,
+  useSaveTransaction,
+  useTransactionList,
+  useTransactionTotals,
+} from "@/hooks/use-transactions";
+import { checkBudgetThresholds, toMonthKey } from "@/lib/budgets";
+import { SplitMode, SplitParticipant, calculateSplit } from "@/lib/splits";
+import {
+  DATE_RANGE_PRESETS,
+  DEFAULT_FILTERS,
+  DateRangePreset,
+  TRANSACTION_SORTS,
+  Transaction,
+  TransactionFilters,
+  TransactionSort,
+  fetchAllTransactions,
+  filtersFromParams,
+  filtersToParams,
+  getDateRangeLabel,
+  hasActiveFilters,
+  totalsQueryFor,
+} from "@/lib/transactions";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Calendar } from "@/components/ui/calendar";
-import { format, subDays, subMonths, startOfMonth, endOfMonth, startOfYear, endOfYear } from "date-fns";
+import { format, parseISO } from "date-fns";
 import { cn } from "@/lib/utils";
-import { RupeeIcon } from "@/components/RupeeIcon";
-
-interface Bank {
-  id: string;
-  name: string;
-}
-
-interface Transaction {
-  id: string;
-  type: "income" | "expense";
-  amount: number;
-  date: string;
-  category: string;
-  notes: string;
-  bank_id: string;
-  person_name: string;
-  banks: { name: string };
-}
-
-type DateRangePreset = "all" | "7days" | "30days" | "thisMonth" | "lastMonth" | "thisYear" | "custom";
+import { QUEUED, SAVED_OFFLINE } from "@/lib/offlineQueue";
+import { rememberLastUsed } from "@/lib/quickAdd";
+import { formatMoney, subtractMoney } from "@/lib/money";
+import { Money } from "@/components/Money";
+import { MoneyInput } from "@/components/MoneyInput";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { CURRENCIES } from "@/lib/currency";
+import ImportStatementDialog from "@/components/ImportStatementDialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+const ALL = "all";
+// Select value for "no foreign currency"; Radix selects can't use an empty string
+const ACCOUNT_CURRENCY = "account";
 
 const Transactions = () => {
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [banks, setBanks] = useState<Bank[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => filtersFromParams(searchParams), [searchParams]);
   const [open, setOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
-  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
-  const [dateRangePreset, setDateRangePreset] = useState<DateRangePreset>("all");
+  const [expandedCategory, setExpandedCategory] = useState<string | null>(null);
+  const [deletingTransaction, setDeletingTransaction] = useState<Transaction | null>(null);
+  const [splitEnabled, setSplitEnabled] = useState(false);
+  const [splitMode, setSplitMode] = useState<SplitMode>("equal");
+  const [splitParticipants, setSplitParticipants] = useState<SplitParticipant[]>([]);
+  const [searchInput, setSearchInput] = useState(filters.search);
+  // Days picked in the calendar before both ends of a custom range are chosen
   const [customDateRange, setCustomDateRange] = useState<{ from: Date | undefined; to: Date | undefined }>({
-    from: undefined,
-    to: undefined,
+    from: filters.from ? parseISO(filters.from) : undefined,
+    to: filters.to ? parseISO(filters.to) : undefined,
   });
   const [formData, setFormData] = useState({
     type: "income" as "income" | "expense",
@@ -59,42 +94,66 @@ const Transactions = () => {
     notes: "",
     bank_id: "",
     person_name: "",
+    original_currency: "",
+    original_amount: "",
   });
+  const { categories: allCategories, optionsFor, getIcon, getLabel } = useCategories();
   const { toast } = useToast();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const { data: banks = [] } = useBanks();
+  const list = useTransactionList(filters, allCategories);
+  const [baseCurrency] = useBaseCurrency();
+  const { data: totals = [] } = useTransactionTotals("all", true, {
+    ...totalsQueryFor(filters, allCategories),
+    baseCurrency,
+  });
+  const saveTransaction = useSaveTransaction();
+  const formBankCurrency = banks.find((b) => b.id === formData.bank_id)?.currency;
+  const saveSplitExpense = useSaveSplitExpense();
+  const deleteTransaction = useDeleteTransaction();
+  const { fetchNextPage, hasNextPage, isFetchingNextPage } = list;
+
+  const transactions = useMemo(() => list.data?.pages.flatMap((page) => page.transactions) ?? [], [list.data]);
+  // Names of the people each expense was split with, keyed by transaction id
+  const splitPeople = useMemo(
+    () => Object.assign({}, ...(list.data?.pages.map((page) => page.splitPeople) ?? [])) as Record<string, string[]>,
+    [list.data]
+  );
 
+  // Load the next page as soon as the end of the list scrolls into view
   useEffect(() => {
-    fetchData();
-  }, []);
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
 
-  const fetchData = async () => {
-    try {
-      const { data: banksData, error: banksError } = await supabase.from("banks").select("id, name");
-      const { data: transactionsData, error: transactionsError } = await supabase
-        .from("transactions")
-        .select("*, banks(name)")
-        .order("date", { ascending: false });
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
-      if (banksError) throw banksError;
-      if (transactionsError) throw transactionsError;
+  const updateFilters = useCallback(
+    (changes: Partial<TransactionFilters>) => {
+      setSearchParams(filtersToParams({ ...filters, ...changes }), { replace: true });
+    },
+    [filters, setSearchParams]
+  );
 
-      setBanks(banksData || []);
-      setTransactions((transactionsData || []) as Transaction[]);
-    } catch (error: any) {
-      toast({
-        variant: "destructive",
-        title: "Error loading data",
-        description: error.message,
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Keep the search box in step when the URL changes, e.g. on back navigation
+  useEffect(() => {
+    setSearchInput(filters.search);
+  }, [filters.search]);
+
+  // Wait for a pause in typing before querying
+  useEffect(() => {
+    if (searchInput.trim() === filters.search) return;
+
+    const timeout = setTimeout(() => updateFilters({ search: searchInput }), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput, filters.search, updateFilters]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const { data: { user } } = await supabase.auth.getUser();
-    
-    if (!user) return;
 
     if (!formData.category) {
       toast({
@@ -105,85 +164,62 @@ const Transactions = () => {
       return;
     }
 
+    const isSplit = !editingTransaction && formData.type === "expense" && splitEnabled;
+    const split = calculateSplit(parseFloat(formData.amount), splitMode, splitParticipants);
+    if (isSplit && split.error) {
+      toast({
+        variant: "destructive",
+        title: "Check the split",
+        description: split.error,
+      });
+      return;
+    }
+
     try {
-      if (editingTransaction) {
-        // Update existing transaction
-        const oldAmount = Number(editingTransaction.amount);
-        const newAmount = parseFloat(formData.amount);
-        const oldType = editingTransaction.type;
-        const newType = formData.type;
-
-        // Update transaction
-        const { error: updateError } = await supabase
-          .from("transactions")
-          .update({
-            type: formData.type,
-            amount: newAmount,
+      const result = isSplit
+        ? await saveSplitExpense.mutateAsync({
+            bank_id: formData.bank_id,
+            amount: parseFloat(formData.amount),
             date: formData.date,
             category: formData.category,
             notes: formData.notes,
-            bank_id: formData.bank_id,
-            person_name: formData.person_name,
+            own_share: split.ownShare,
+            shares: split.shares,
           })
-          .eq("id", editingTransaction.id);
-
-        if (updateError) throw updateError;
-
-        // Adjust bank balance
-        const { data: bankData } = await supabase
-          .from("banks")
-          .select("balance")
-          .eq("id", formData.bank_id)
-          .single();
-
-        let currentBalance = Number(bankData?.balance || 0);
-
-        // Reverse old transaction effect
-        if (oldType === "income") {
-          currentBalance -= oldAmount;
-        } else {
-          currentBalance += oldAmount;
-        }
-
-        // Apply new transaction effect
-        if (newType === "income") {
-          currentBalance += newAmount;
-        } else {
-          currentBalance -= newAmount;
-        }
-
-        await supabase.from("banks").update({ balance: currentBalance }).eq("id", formData.bank_id);
-
-        toast({ title: "Transaction updated successfully" });
-      } else {
-        // Insert transaction
-        const { error: transactionError } = await supabase.from("transactions").insert({
-          user_id: user.id,
-          type: formData.type,
-          amount: parseFloat(formData.amount),
-          date: formData.date,
-          category: formData.category,
-          notes: formData.notes,
-          bank_id: formData.bank_id,
-          person_name: formData.person_name,
-        });
-
-        if (transactionError) throw transactionError;
-
-        // Update bank balance
-        const { data: bankData } = await supabase
-          .from("banks")
-          .select("balance")
-          .eq("id", formData.bank_id)
-          .single();
+        : await saveTransaction.mutateAsync({
+            ...formData,
+            id: editingTransaction?.id,
+            amount: parseFloat(formData.amount),
+            original_amount: formData.original_currency ? parseFloat(formData.original_amount) : null,
+            original_currency: formData.original_currency || null,
+          });
 
-        const currentBalance = Number(bankData?.balance || 0);
-        const amount = parseFloat(formData.amount);
-        const newBalance = formData.type === "income" ? currentBalance + amount : currentBalance - amount;
+      if (!editingTransaction) {
+        rememberLastUsed(formData.type, { bankId: formData.bank_id, category: formData.category });
+      }
 
-        await supabase.from("banks").update({ balance: newBalance }).eq("id", formData.bank_id);
+      toast(
+        result === QUEUED
+          ? SAVED_OFFLINE
+          : {
+              title: editingTransaction
+                ? "Transaction updated successfully"
+                : isSplit
+                  ? `Expense split with ${split.shares.length} ${split.shares.length === 1 ? "person" : "people"}`
+                  : "Transaction added successfully",
+            }
+      );
 
-        toast({ title: "Transaction added successfully" });
+      // Budgets can't be checked without a connection
+      if (formData.type === "expense" && result !== QUEUED) {
+        // Only the increase counts when an expense is edited within the same category and month
+        const previous = editingTransaction;
+        const unchangedBucket =
+          previous?.type === "expense" &&
+          previous.category === formData.category &&
+          toMonthKey(previous.date) === toMonthKey(formData.date);
+        const added = isSplit ? split.ownShare : parseFloat(formData.amount);
+        warnAboutBudgets(formData.category, formData.date, subtractMoney(added, unchangedBucket ? previous.amount : 0));
       }
 
       setOpen(false);
@@ -196,8 +232,10 @@ const Transactions = () => {
         notes: "",
         bank_id: "",
         person_name: "",
+        original_currency: "",
+        original_amount: "",
       });
-      fetchData();
+      resetSplit();
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -207,6 +245,33 @@ const Transactions = () => {
     }
   };
 
+  const resetSplit = () => {
+    setSplitEnabled(false);
+    setSplitMode("equal");
+    setSplitParticipants([]);
+  };
+
+  const warnAboutBudgets = async (category: string, date: string, addedAmount: number) => {
+    if (addedAmount <= 0) return;
+
+    try {
+      const alerts = await checkBudgetThresholds(category, date, addedAmount, allCategories, baseCurrency);
+      alerts.forEach(({ status, threshold }) => {
+        toast({
+          variant: threshold >= 100 ? "destructive" : "default",
+          title: threshold >= 100 ? `Over budget: ${status.category.name}` : `Budget warning: ${status.category.name}`,
+          description: `Spent ${formatMoney(status.spent)} of ${formatMoney(status.available)} (${Math.round(status.percent)}%) in ${format(parseISO(date), "MMMM yyyy")}`,
+        });
+      });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error checking budgets",
+        description: error.message,
+      });
+    }
+  };
+
   const handleEdit = (transaction: Transaction) => {
     setEditingTransaction(transaction);
     setFormData({
@@ -217,33 +282,23 @@ const Transactions = () => {
       notes: transaction.notes || "",
       bank_id: transaction.bank_id,
       person_name: transaction.person_name || "",
+      original_currency: transaction.original_currency || "",
+      original_amount: transaction.original_amount?.toString() ?? "",
     });
     setOpen(true);
   };
 
-  const handleDelete = async (transaction: Transaction) => {
-    try {
-      // Delete transaction
-      const { error: deleteError } = await supabase.from("transactions").delete().eq("id", transaction.id);
-
-      if (deleteError) throw deleteError;
-
-      // Restore bank balance
-      const { data: bankData } = await supabase
-        .from("banks")
-        .select("balance")
-        .eq("id", transaction.bank_id)
-        .single();
-
-      const currentBalance = Number(bankData?.balance || 0);
-      const amount = Number(transaction.amount);
-      const newBalance =
-        transaction.type === "income" ? currentBalance - amount : currentBalance + amount;
-
-      await supabase.from("banks").update({ balance: newBalance }).eq("id", transaction.bank_id);
+  const handleDelete = async (transaction: Transaction, reverseCredit = false) => {
+    // Transactions created from a credit ask whether the credit side should go too
+    if (transaction.credit_id && !deletingTransaction) {
+      setDeletingTransaction(transaction);
+      return;
+    }
 
-      toast({ title: "Transaction deleted successfully" });
-      fetchData();
+    try {
+      setDeletingTransaction(null);
+      const result = await deleteTransaction.mutateAsync({ transaction, reverseCredit });
+      toast(result === QUEUED ? SAVED_OFFLINE : { title: "Transaction deleted successfully" });
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -253,112 +308,48 @@ const Transactions = () => {
     }
   };
 
-  const allCategories = [...INCOME_CATEGORIES, ...EXPENSE_CATEGORIES];
-  
   const toggleCategory = (categoryName: string) => {
-    setSelectedCategories(prev =>
-      prev.includes(categoryName)
-        ? prev.filter(c => c !== categoryName)
-        : [...prev, categoryName]
-    );
-  };
-
-  const getDateRange = (): { from: Date; to: Date } | null => {
-    const today = new Date();
-    
-    switch (dateRangePreset) {
-      case "all":
-        return null;
-      case "7days":
-        return { from: subDays(today, 7), to: today };
-      case "30days":
-        return { from: subDays(today, 30), to: today };
-      case "thisMonth":
-        return { from: startOfMonth(today), to: endOfMonth(today) };
-      case "lastMonth":
-        const lastMonth = subMonths(today, 1);
-        return { from: startOfMonth(lastMonth), to: endOfMonth(lastMonth) };
-      case "thisYear":
-        return { from: startOfYear(today), to: endOfYear(today) };
-      case "custom":
-        if (customDateRange.from && customDateRange.to) {
-          return { from: customDateRange.from, to: customDateRange.to };
-        }
-        return null;
-      default:
-        return null;
-    }
-  };
-
-  const filteredTransactions = transactions.filter((transaction) => {
-    // Category filter
-    if (selectedCategories.length > 0 && !selectedCategories.includes(transaction.category)) {
-      return false;
-    }
-    
-    // Date filter
-    const dateRange = getDateRange();
-    if (dateRange) {
-      const transactionDate = new Date(transaction.date);
-      if (transactionDate < dateRange.from || transactionDate > dateRange.to) {
-        return false;
-      }
-    }
-    
-    return true;
-  });
-
-  const calculateCategoryTotals = () => {
-    const categoryTotals: {
-      [category: string]: { income: number; expense: number };
-    } = {};
-
-    filteredTransactions.forEach((transaction) => {
-      const category = transaction.category || "Uncategorized";
-      if (!categoryTotals[category]) {
-        categoryTotals[category] = { income: 0, expense: 0 };
-      }
-      categoryTotals[category][transaction.type] += Number(transaction.amount);
+    updateFilters({
+      categories: filters.categories.includes(categoryName)
+        ? filters.categories.filter((c) => c !== categoryName)
+        : [...filters.categories, categoryName],
     });
-
-    return categoryTotals;
   };
 
-  const categoryTotals = calculateCategoryTotals();
+  // Sub-categories roll up into their parent card
+  const categoryTotals = rollUpCategoryTotals(
+    totals.map((t) => ({ category: t.category || "", type: t.type, amount: t.total })),
+    allCategories
+  );
+  const matchingCount = totals.reduce((sum, t) => sum + Number(t.count), 0);
+  const unconvertedCount = totals.reduce((sum, t) => sum + Number(t.unconverted), 0);
+  const filtersActive = hasActiveFilters(filters);
 
   const handleDatePresetChange = (preset: DateRangePreset) => {
-    setDateRangePreset(preset);
-    if (preset !== "custom") {
-      setCustomDateRange({ from: undefined, to: undefined });
-    }
+    updateFilters({ range: preset, from: null, to: null });
+    setCustomDateRange({ from: undefined, to: undefined });
   };
 
-  const getDateRangeLabel = (): string => {
-    switch (dateRangePreset) {
-      case "all":
-        return "All Time";
-      case "7days":
-        return "Last 7 Days";
-      case "30days":
-        return "Last 30 Days";
-      case "thisMonth":
-        return "This Month";
-      case "lastMonth":
-        return "Last Month";
-      case "thisYear":
-        return "This Year";
-      case "custom":
-        if (customDateRange.from && customDateRange.to) {
-          return `${format(customDateRange.from, "MMM d")} - ${format(customDateRange.to, "MMM d, yyyy")}`;
-        }
-        return "Custom Range";
-      default:
-        return "All Time";
-    }
+  const clearFilters = () => {
+    setSearchParams(filtersToParams({ ...DEFAULT_FILTERS, sort: filters.sort }), { replace: true });
+    setSearchInput("");
+    setCustomDateRange({ from: undefined, to: undefined });
   };
 
-  const exportToCSV = () => {
-    if (filteredTransactions.length === 0) {
+  const exportToCSV = async () => {
+    let exported: Transaction[];
+    try {
+      exported = await fetchAllTransactions(filters, allCategories);
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error exporting transactions",
+        description: error.message,
+      });
+      return;
+    }
+
+    if (exported.length === 0) {
       toast({
         variant: "destructive",
         title: "No data to export",
@@ -371,7 +362,7 @@ const Transactions = () => {
     const headers = ["Date", "Type", "Category", "Amount (₹)", "Bank", "Person", "Notes"];
     
     // Convert transactions to CSV rows
-    const rows = filteredTransactions.map((transaction) => {
+    const rows = exported.map((transaction) => {
       return [
         new Date(transaction.date).toLocaleDateString(),
         transaction.type.charAt(0).toUpperCase() + transaction.type.slice(1),
@@ -406,11 +397,11 @@ const Transactions = () => {
 
     toast({
       title: "Export successful",
-      description: `Exported ${filteredTransactions.length} transactions to ${filename}`,
+      description: `Exported ${exported.length} transactions to ${filename}`,
     });
   };
 
-  if (loading) {
+  if (list.isPending) {
     return (
       <Layout>
         <div className="flex items-center justify-center min-h-[60vh]">
@@ -433,11 +424,12 @@ const Transactions = () => {
               <Download className="h-4 w-4" />
               Export CSV
             </Button>
+            <ImportStatementDialog />
             <Popover>
               <PopoverTrigger asChild>
                 <Button variant="outline" className="gap-2">
                   <CalendarIcon className="h-4 w-4" />
-                  {getDateRangeLabel()}
+                  {getDateRangeLabel(filters)}
                 </Button>
               </PopoverTrigger>
               <PopoverContent className="w-auto p-4" align="end">
@@ -445,20 +437,13 @@ const Transactions = () => {
                   <div className="space-y-2">
                     <Label>Quick Ranges</Label>
                     <div className="grid gap-2">
-                      {[
-                        { value: "all", label: "All Time" },
-                        { value: "7days", label: "Last 7 Days" },
-                        { value: "30days", label: "Last 30 Days" },
-                        { value: "thisMonth", label: "This Month" },
-                        { value: "lastMonth", label: "Last Month" },
-                        { value: "thisYear", label: "This Year" },
-                      ].map((preset) => (
+                      {DATE_RANGE_PRESETS.map((preset) => (
                         <Button
                           key={preset.value}
-                          variant={dateRangePreset === preset.value ? "default" : "outline"}
+                          variant={filters.range === preset.value ? "default" : "outline"}
                           size="sm"
                           className="justify-start"
-                          onClick={() => handleDatePresetChange(preset.value as DateRangePreset)}
+                          onClick={() => handleDatePresetChange(preset.value)}
                         >
                           {preset.label}
                         </Button>
@@ -473,7 +458,11 @@ const Transactions = () => {
                       onSelect={(range) => {
                         setCustomDateRange({ from: range?.from, to: range?.to });
                         if (range?.from && range?.to) {
-                          setDateRangePreset("custom");
+                          updateFilters({
+                            range: "custom",
+                            from: format(range.from, "yyyy-MM-dd"),
+                            to: format(range.to, "yyyy-MM-dd"),
+                          });
                         }
                       }}
                       numberOfMonths={2}
@@ -488,9 +477,9 @@ const Transactions = () => {
                 <Button variant="outline" className="gap-2">
                   <Filter className="h-4 w-4" />
                   Categories
-                  {selectedCategories.length > 0 && (
+                  {filters.categories.length > 0 && (
                     <Badge variant="secondary" className="ml-1">
-                      {selectedCategories.length}
+                      {filters.categories.length}
                     </Badge>
                   )}
                 </Button>
@@ -502,28 +491,28 @@ const Transactions = () => {
                     <CommandEmpty>No categories found.</CommandEmpty>
                     <CommandGroup>
                       {allCategories.map((category) => {
-                        const Icon = category.icon;
-                        const isSelected = selectedCategories.includes(category.name);
+                        const Icon = getIconByName(category.icon);
+                        const isSelected = filters.categories.includes(category.name);
                         return (
                           <CommandItem
-                            key={category.name}
+                            key={category.id}
                             onSelect={() => toggleCategory(category.name)}
                             className="flex items-center gap-2 cursor-pointer"
                           >
                             <Checkbox checked={isSelected} />
                             <Icon className="h-4 w-4" />
-                            <span>{category.name}</span>
+                            <span>{getLabel(category)}</span>
                           </CommandItem>
                         );
                       })}
                     </CommandGroup>
                   </CommandList>
-                  {selectedCategories.length > 0 && (
+                  {filters.categories.length > 0 && (
                     <div className="border-t p-2">
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() => setSelectedCategories([])}
+                        onClick={() => updateFilters({ categories: [] })}
                         className="w-full"
                       >
                         Clear All
@@ -545,7 +534,10 @@ const Transactions = () => {
                   notes: "",
                   bank_id: "",
                   person_name: "",
+                  original_currency: "",
+                  original_amount: "",
                 });
+                resetSplit();
               }
             }}>
               <DialogTrigger asChild>
@@ -595,16 +587,58 @@ const Transactions = () => {
                   </Select>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="amount">Amount</Label>
-                  <Input
+                  <Label htmlFor="amount">
+                    Amount{formBankCurrency ? ` (${formBankCurrency})` : ""}
+                  </Label>
+                  <MoneyInput
                     id="amount"
-                    type="number"
-                    step="0.01"
+                    currency={formBankCurrency}
                     value={formData.amount}
-                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                    onChange={(amount) => setFormData({ ...formData, amount })}
                     required
                   />
                 </div>
+                {!splitEnabled && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="original_currency">Charged In</Label>
+                      <Select
+                        value={formData.original_currency || ACCOUNT_CURRENCY}
+                        onValueChange={(value) =>
+                          setFormData({
+                            ...formData,
+                            original_currency: value === ACCOUNT_CURRENCY ? "" : value,
+                            original_amount: value === ACCOUNT_CURRENCY ? "" : formData.original_amount,
+                          })
+                        }
+                      >
+                        <SelectTrigger id="original_currency">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ACCOUNT_CURRENCY}>Account currency</SelectItem>
+                          {CURRENCIES.filter((c) => c.code !== formBankCurrency).map((currency) => (
+                            <SelectItem key={currency.code} value={currency.code}>
+                              {currency.code} · {currency.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {formData.original_currency && (
+                      <div className="space-y-2">
+                        <Label htmlFor="original_amount">Original Amount ({formData.original_currency})</Label>
+                        <MoneyInput
+                          id="original_amount"
+                          currency={formData.original_currency}
+                          value={formData.original_amount}
+                          onChange={(original_amount) => setFormData({ ...formData, original_amount })}
+                          required
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
                 <div className="space-y-2">
                   <Label htmlFor="date">Date</Label>
                   <Input
@@ -625,14 +659,14 @@ const Transactions = () => {
                       <SelectValue placeholder="Select category" />
                     </SelectTrigger>
                     <SelectContent>
-                      {(formData.type === "income" ? INCOME_CATEGORIES : EXPENSE_CATEGORIES).map(
+                      {optionsFor(formData.type, formData.category).map(
                         (category) => {
-                          const Icon = category.icon;
+                          const Icon = getIconByName(category.icon);
                           return (
-                            <SelectItem key={category.name} value={category.name}>
+                            <SelectItem key={category.id} value={category.name}>
                               <div className="flex items-center gap-2">
                                 <Icon className="h-4 w-4" />
-                                <span>{category.name}</span>
+                                <span>{getLabel(category)}</span>
                               </div>
                             </SelectItem>
                           );
@@ -641,15 +675,41 @@ const Transactions = () => {
                     </SelectContent>
                   </Select>
                 </div>
-                <div className="space-y-2">
-                  <Label htmlFor="person_name">Person Name (Optional)</Label>
-                  <Input
-                    id="person_name"
-                    value={formData.person_name}
-                    onChange={(e) => setFormData({ ...formData, person_name: e.target.value })}
-                    placeholder="e.g., John Doe"
+                {!editingTransaction && formData.type === "expense" && (
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="split">Split with others</Label>
+                    <Switch
+                      id="split"
+                      checked={splitEnabled}
+                      onCheckedChange={(checked) => {
+                        setSplitEnabled(checked);
+                        if (checked && splitParticipants.length === 0) {
+                          setSplitParticipants([{ person_name: "", value: "" }]);
+                        }
+                      }}
+                    />
+                  </div>
+                )}
+                {!editingTransaction && formData.type === "expense" && splitEnabled ? (
+                  <SplitExpenseFields
+                    total={parseFloat(formData.amount) || 0}
+                    currency={formBankCurrency}
+                    mode={splitMode}
+                    participants={splitParticipants}
+                    onModeChange={setSplitMode}
+                    onParticipantsChange={setSplitParticipants}
                   />
-                </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Label htmlFor="person_name">Person Name (Optional)</Label>
+                    <PersonInput
+                      id="person_name"
+                      value={formData.person_name}
+                      onChange={(value) => setFormData({ ...formData, person_name: value })}
+                      placeholder="e.g., John Doe"
+                    />
+                  </div>
+                )}
                 <div className="space-y-2">
                   <Label htmlFor="notes">Notes</Label>
                   <Textarea
@@ -668,10 +728,69 @@ const Transactions = () => {
           </div>
         </div>
 
-        {selectedCategories.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[200px] max-w-sm">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search notes, people or categories"
+              className="pl-9"
+            />
+          </div>
+          <Select
+            value={filters.bankId || ALL}
+            onValueChange={(value) => updateFilters({ bankId: value === ALL ? null : value })}
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Banks</SelectItem>
+              {banks.map((bank) => (
+                <SelectItem key={bank.id} value={bank.id}>
+                  {bank.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filters.type || ALL}
+            onValueChange={(value) => updateFilters({ type: value === ALL ? null : (value as "income" | "expense") })}
+          >
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Types</SelectItem>
+              <SelectItem value="income">Income</SelectItem>
+              <SelectItem value="expense">Expense</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={filters.sort} onValueChange={(value: TransactionSort) => updateFilters({ sort: value })}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRANSACTION_SORTS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {filtersActive && (
+            <Button variant="ghost" size="sm" onClick={clearFilters}>
+              <X className="mr-2 h-4 w-4" />
+              Clear Filters
+            </Button>
+          )}
+        </div>
+
+        {filters.categories.length > 0 && (
           <div className="flex flex-wrap gap-2">
-            {selectedCategories.map((category) => {
-              const Icon = getCategoryIcon(category);
+            {filters.categories.map((category) => {
+              const Icon = getIcon(category);
               return (
                 <Badge key={category} variant="secondary" className="gap-1 pr-1">
                   <Icon className="h-3 w-3" />
@@ -690,10 +809,16 @@ const Transactions = () => {
           </div>
         )}
 
-        {filteredTransactions.length > 0 && (
+        {totals.length > 0 && (
           <Card className="shadow-card">
             <CardHeader>
               <CardTitle>Category Totals</CardTitle>
+              {unconvertedCount > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {unconvertedCount} {unconvertedCount === 1 ? "transaction has" : "transactions have"} no exchange
+                  rate to {baseCurrency} and {unconvertedCount === 1 ? "is" : "are"} left out.
+                </p>
+              )}
             </CardHeader>
             <CardContent>
               <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
@@ -704,8 +829,10 @@ const Transactions = () => {
                     return totalB - totalA;
                   })
                   .map(([category, totals]) => {
-                    const CategoryIcon = getCategoryIcon(category);
-                    const net = totals.income - totals.expense;
+                    const CategoryIcon = getIcon(category);
+                    const net = subtractMoney(totals.income, totals.expense);
+                    const subCategories = Object.entries(totals.children).filter(([name]) => name !== category);
+                    const isExpanded = expandedCategory === category;
                     return (
                       <div
                         key={category}
@@ -714,32 +841,54 @@ const Transactions = () => {
                         <div className="flex items-center gap-2">
                           <CategoryIcon className="h-4 w-4 text-muted-foreground" />
                           <p className="font-semibold text-foreground">{category}</p>
+                          {subCategories.length > 0 && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="ml-auto h-6 w-6"
+                              onClick={() => setExpandedCategory(isExpanded ? null : category)}
+                            >
+                              {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                            </Button>
+                          )}
                         </div>
                         {totals.income > 0 && (
                           <div className="flex justify-between text-sm">
                             <span className="text-muted-foreground">Income:</span>
-                            <span className="text-success font-medium flex items-center gap-1">
-                              <RupeeIcon size={14} />
-                              {totals.income.toFixed(2)}
-                            </span>
+                            <Money amount={totals.income} currency={baseCurrency} className="text-success font-medium" />
                           </div>
                         )}
                         {totals.expense > 0 && (
                           <div className="flex justify-between text-sm">
                             <span className="text-muted-foreground">Expenses:</span>
-                            <span className="text-destructive font-medium flex items-center gap-1">
-                              <RupeeIcon size={14} />
-                              {totals.expense.toFixed(2)}
-                            </span>
+                            <Money amount={totals.expense} currency={baseCurrency} className="text-destructive font-medium" />
                           </div>
                         )}
                         <div className="flex justify-between text-sm font-semibold pt-2 border-t border-border">
                           <span className="text-muted-foreground">Net:</span>
-                          <span className={`flex items-center gap-1 ${net >= 0 ? "text-success" : "text-destructive"}`}>
-                            <RupeeIcon size={14} />
-                            {net.toFixed(2)}
-                          </span>
+                          <Money
+                            amount={net}
+                            currency={baseCurrency}
+                            className={net >= 0 ? "text-success" : "text-destructive"}
+                          />
                         </div>
+                        {isExpanded && (
+                          <div className="space-y-1 pt-2 border-t border-border">
+                            {Object.entries(totals.children).map(([name, childTotals]) => {
+                              const childNet = subtractMoney(childTotals.income, childTotals.expense);
+                              return (
+                                <div key={name} className="flex justify-between text-sm">
+                                  <span className="text-muted-foreground">{name === category ? `${name} (direct)` : name}</span>
+                                  <Money
+                                    amount={childNet}
+                                    currency={baseCurrency}
+                                    className={childNet >= 0 ? "text-success" : "text-destructive"}
+                                  />
+                                </div>
+                              );
+                            })}
+                          </div>
+                        )}
                       </div>
                     );
                   })}
@@ -748,7 +897,7 @@ const Transactions = () => {
           </Card>
         )}
 
-        {transactions.length === 0 ? (
+        {transactions.length === 0 && !filtersActive ? (
           <Card className="shadow-card">
             <CardContent className="flex flex-col items-center justify-center py-12">
               <p className="text-muted-foreground text-center">
@@ -759,16 +908,21 @@ const Transactions = () => {
         ) : (
           <Card className="shadow-card">
             <CardHeader>
-              <CardTitle>All Transactions</CardTitle>
+              <CardTitle>{filtersActive ? "Matching Transactions" : "All Transactions"}</CardTitle>
+              {matchingCount > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Showing {transactions.length} of {matchingCount}
+                </p>
+              )}
             </CardHeader>
             <CardContent>
-              {filteredTransactions.length === 0 ? (
+              {transactions.length === 0 ? (
                 <p className="text-center text-muted-foreground py-8">
-                  No transactions match the selected categories.
+                  No transactions match the current filters.
                 </p>
               ) : (
                 <div className="space-y-4">
-                  {filteredTransactions.map((transaction) => (
+                  {transactions.map((transaction) => (
                   <div
                     key={transaction.id}
                     className="flex items-center justify-between border-b border-border pb-4 last:border-0"
@@ -788,12 +942,20 @@ const Transactions = () => {
                       <div>
                         <div className="flex items-center gap-2">
                           {transaction.category && (() => {
-                            const CategoryIcon = getCategoryIcon(transaction.category);
+                            const CategoryIcon = getIcon(transaction.category);
                             return <CategoryIcon className="h-4 w-4 text-muted-foreground" />;
                           })()}
                           <p className="font-semibold text-foreground">
                             {transaction.category || "Uncategorized"}
                           </p>
+                          {transaction.credit_id && (
+                            <Badge variant="outline">
+                              {transaction.credit_payment_id ? "Credit repayment" : "Credit"}
+                            </Badge>
+                          )}
+                          {splitPeople[transaction.id] && (
+                            <Badge variant="outline">Split with {splitPeople[transaction.id].join(", ")}</Badge>
+                          )}
                         </div>
                         <p className="text-sm text-muted-foreground">
                           {transaction.banks.name} • {new Date(transaction.date).toLocaleDateString()}
@@ -810,9 +972,17 @@ const Transactions = () => {
                           transaction.type === "income" ? "text-success" : "text-expense-light"
                         }`}
                       >
-                        {transaction.type === "income" ? "+" : "-"}
-                        <RupeeIcon size={16} />
-                        {Number(transaction.amount).toFixed(2)}
+                        <Money
+                          amount={transaction.type === "income" ? transaction.amount : -transaction.amount}
+                          currency={transaction.banks.currency}
+                          showPlus
+                          colorNegative={false}
+                        />
+                        {transaction.original_currency && (
+                          <span className="text-sm font-normal text-muted-foreground">
+                            (<Money amount={transaction.original_amount ?? 0} currency={transaction.original_currency} />)
+                          </span>
+                        )}
                       </span>
                       <Button
                         size="icon"
@@ -831,11 +1001,45 @@ const Transactions = () => {
                     </div>
                   </div>
                   ))}
+                  {hasNextPage && (
+                    <div ref={sentinelRef} className="py-4 text-center text-sm text-muted-foreground">
+                      {isFetchingNextPage ? (
+                        "Loading more..."
+                      ) : (
+                        <Button variant="ghost" size="sm" onClick={() => fetchNextPage()}>
+                          Load more
+                        </Button>
+                      )}
+                    </div>
+                  )}
                 </div>
               )}
             </CardContent>
           </Card>
         )}
+
+        <AlertDialog open={!!deletingTransaction} onOpenChange={(isOpen) => !isOpen && setDeletingTransaction(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete linked transaction?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This transaction was recorded from a credit{" "}
+                {deletingTransaction?.credit_payment_id ? "repayment" : "record"}. You can delete just the
+                transaction, or remove the {deletingTransaction?.credit_payment_id ? "repayment" : "credit record"} from
+                Credits as well.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <Button variant="outline" onClick={() => deletingTransaction && handleDelete(deletingTransaction)}>
+                Transaction Only
+              </Button>
+              <AlertDialogAction onClick={() => deletingTransaction && handleDelete(deletingTransaction, true)}>
+                Delete Both
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </div>
     </Layout>
   );
@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,79 +7,69 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useBanks } from "@/hooks/use-banks";
+import { Transfer, useDeleteTransfer, useSaveTransfer, useTransfers } from "@/hooks/use-transfers";
 import Layout from "@/components/Layout";
 import { Plus, Trash2, ArrowRight, Pencil } from "lucide-react";
-import { RupeeIcon } from "@/components/RupeeIcon";
-
-interface Bank {
-  id: string;
-  name: string;
-}
-
-interface Transfer {
-  id: string;
-  from_bank_id: string;
-  to_bank_id: string;
-  amount: number;
-  date: string;
-  notes: string;
-  from_bank: { name: string };
-  to_bank: { name: string };
-}
+import { Money } from "@/components/Money";
+import { MoneyInput } from "@/components/MoneyInput";
+import { QUEUED, SAVED_OFFLINE } from "@/lib/offlineQueue";
+import { canPayCardBill } from "@/lib/accounts";
+
+const emptyForm = () => ({
+  from_bank_id: "",
+  to_bank_id: "",
+  amount: "",
+  to_amount: "",
+  date: new Date().toISOString().split("T")[0],
+  notes: "",
+  is_card_payment: false,
+});
 
 const Transfers = () => {
-  const [transfers, setTransfers] = useState<Transfer[]>([]);
-  const [banks, setBanks] = useState<Bank[]>([]);
-  const [loading, setLoading] = useState(true);
   const [open, setOpen] = useState(false);
   const [editingTransfer, setEditingTransfer] = useState<Transfer | null>(null);
-  const [formData, setFormData] = useState({
-    from_bank_id: "",
-    to_bank_id: "",
-    amount: "",
-    date: new Date().toISOString().split("T")[0],
-    notes: "",
-  });
+  const [formData, setFormData] = useState(emptyForm);
+  const [searchParams, setSearchParams] = useSearchParams();
   const { toast } = useToast();
 
-  useEffect(() => {
-    fetchData();
-  }, []);
+  const { data: transfers = [], isPending: loading } = useTransfers();
+  const { data: banks = [] } = useBanks();
+  const saveTransfer = useSaveTransfer();
+  const deleteTransfer = useDeleteTransfer();
 
-  const fetchData = async () => {
-    try {
-      const { data: banksData, error: banksError } = await supabase.from("banks").select("id, name");
-      const { data: transfersData, error: transfersError } = await supabase
-        .from("transfers")
-        .select(`
-          *,
-          from_bank:banks!transfers_from_bank_id_fkey(name),
-          to_bank:banks!transfers_to_bank_id_fkey(name)
-        `)
-        .order("date", { ascending: false });
+  const findBank = (id: string) => banks.find((b) => b.id === id);
+  const fromBank = findBank(formData.from_bank_id);
+  const toBank = findBank(formData.to_bank_id);
+  const canMarkCardPayment = canPayCardBill(fromBank, toBank);
+  // Between currencies the amount received is entered separately
+  const crossCurrency = !!fromBank && !!toBank && fromBank.currency !== toBank.currency;
 
-      if (banksError) throw banksError;
-      if (transfersError) throw transfersError;
+  // "Pay bill" on a credit card links here with the card and the amount due
+  useEffect(() => {
+    const cardId = searchParams.get("pay");
+    if (!cardId || banks.length === 0) return;
 
-      setBanks(banksData || []);
-      setTransfers(transfersData || []);
-    } catch (error: any) {
-      toast({
-        variant: "destructive",
-        title: "Error loading data",
-        description: error.message,
-      });
-    } finally {
-      setLoading(false);
+    if (banks.some((b) => b.id === cardId && b.account_type === "credit_card")) {
+      setEditingTransfer(null);
+      const amount = searchParams.get("amount") || "";
+      setFormData({ ...emptyForm(), to_bank_id: cardId, amount, to_amount: amount, is_card_payment: true });
+      setOpen(true);
     }
+    setSearchParams({}, { replace: true });
+  }, [banks, searchParams, setSearchParams]);
+
+  // Moving money from a bank into a card is almost always paying its bill, so that's the default
+  const selectAccounts = (accounts: { from_bank_id?: string; to_bank_id?: string }) => {
+    const next = { ...formData, ...accounts };
+    setFormData({ ...next, is_card_payment: canPayCardBill(findBank(next.from_bank_id), findBank(next.to_bank_id)) });
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const { data: { user } } = await supabase.auth.getUser();
-    
-    if (!user) return;
 
     if (formData.from_bank_id === formData.to_bank_id) {
       toast({
@@ -91,126 +81,23 @@ const Transfers = () => {
     }
 
     try {
-      const amount = parseFloat(formData.amount);
-
-      if (editingTransfer) {
-        // First, reverse the old transfer's balance changes
-        const oldAmount = Number(editingTransfer.amount);
-
-        // Restore old from bank
-        const { data: oldFromBankData } = await supabase
-          .from("banks")
-          .select("balance")
-          .eq("id", editingTransfer.from_bank_id)
-          .single();
-
-        await supabase
-          .from("banks")
-          .update({ balance: Number(oldFromBankData?.balance || 0) + oldAmount })
-          .eq("id", editingTransfer.from_bank_id);
-
-        // Restore old to bank
-        const { data: oldToBankData } = await supabase
-          .from("banks")
-          .select("balance")
-          .eq("id", editingTransfer.to_bank_id)
-          .single();
-
-        await supabase
-          .from("banks")
-          .update({ balance: Number(oldToBankData?.balance || 0) - oldAmount })
-          .eq("id", editingTransfer.to_bank_id);
-
-        // Update transfer
-        const { error: updateError } = await supabase
-          .from("transfers")
-          .update({
-            from_bank_id: formData.from_bank_id,
-            to_bank_id: formData.to_bank_id,
-            amount: amount,
-            date: formData.date,
-            notes: formData.notes,
-          })
-          .eq("id", editingTransfer.id);
-
-        if (updateError) throw updateError;
-
-        // Apply new transfer's balance changes
-        // Decrease new from bank
-        const { data: newFromBankData } = await supabase
-          .from("banks")
-          .select("balance")
-          .eq("id", formData.from_bank_id)
-          .single();
-
-        await supabase
-          .from("banks")
-          .update({ balance: Number(newFromBankData?.balance || 0) - amount })
-          .eq("id", formData.from_bank_id);
-
-        // Increase new to bank
-        const { data: newToBankData } = await supabase
-          .from("banks")
-          .select("balance")
-          .eq("id", formData.to_bank_id)
-          .single();
-
-        await supabase
-          .from("banks")
-          .update({ balance: Number(newToBankData?.balance || 0) + amount })
-          .eq("id", formData.to_bank_id);
-
-        toast({ title: "Transfer updated successfully" });
-      } else {
-        // Insert transfer
-        const { error: transferError } = await supabase.from("transfers").insert({
-          user_id: user.id,
-          from_bank_id: formData.from_bank_id,
-          to_bank_id: formData.to_bank_id,
-          amount: amount,
-          date: formData.date,
-          notes: formData.notes,
-        });
-
-        if (transferError) throw transferError;
-
-        // Decrease from bank
-        const { data: fromBankData } = await supabase
-          .from("banks")
-          .select("balance")
-          .eq("id", formData.from_bank_id)
-          .single();
-
-        await supabase
-          .from("banks")
-          .update({ balance: Number(fromBankData?.balance || 0) - amount })
-          .eq("id", formData.from_bank_id);
-
-        // Increase to bank
-        const { data: toBankData } = await supabase
-          .from("banks")
-          .select("balance")
-          .eq("id", formData.to_bank_id)
-          .single();
-
-        await supabase
-          .from("banks")
-          .update({ balance: Number(toBankData?.balance || 0) + amount })
-          .eq("id", formData.to_bank_id);
+      const result = await saveTransfer.mutateAsync({
+        ...formData,
+        id: editingTransfer?.id,
+        amount: parseFloat(formData.amount),
+        to_amount: crossCurrency ? parseFloat(formData.to_amount) : null,
+        is_card_payment: formData.is_card_payment && canMarkCardPayment,
+      });
 
-        toast({ title: "Transfer created successfully" });
-      }
+      toast(
+        result === QUEUED
+          ? SAVED_OFFLINE
+          : { title: editingTransfer ? "Transfer updated successfully" : "Transfer created successfully" }
+      );
 
       setOpen(false);
       setEditingTransfer(null);
-      setFormData({
-        from_bank_id: "",
-        to_bank_id: "",
-        amount: "",
-        date: new Date().toISOString().split("T")[0],
-        notes: "",
-      });
-      fetchData();
+      setFormData(emptyForm());
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -226,48 +113,18 @@ const Transfers = () => {
       from_bank_id: transfer.from_bank_id,
       to_bank_id: transfer.to_bank_id,
       amount: transfer.amount.toString(),
+      to_amount: transfer.to_amount?.toString() ?? "",
       date: transfer.date,
       notes: transfer.notes || "",
+      is_card_payment: transfer.is_card_payment,
     });
     setOpen(true);
   };
 
   const handleDelete = async (transfer: Transfer) => {
     try {
-      // Delete transfer
-      const { error: deleteError } = await supabase.from("transfers").delete().eq("id", transfer.id);
-
-      if (deleteError) throw deleteError;
-
-      // Restore balances
-      const amount = Number(transfer.amount);
-
-      // Restore from bank
-      const { data: fromBankData } = await supabase
-        .from("banks")
-        .select("balance")
-        .eq("id", transfer.from_bank_id)
-        .single();
-
-      await supabase
-        .from("banks")
-        .update({ balance: Number(fromBankData?.balance || 0) + amount })
-        .eq("id", transfer.from_bank_id);
-
-      // Restore to bank
-      const { data: toBankData } = await supabase
-        .from("banks")
-        .select("balance")
-        .eq("id", transfer.to_bank_id)
-        .single();
-
-      await supabase
-        .from("banks")
-        .update({ balance: Number(toBankData?.balance || 0) - amount })
-        .eq("id", transfer.to_bank_id);
-
-      toast({ title: "Transfer deleted successfully" });
-      fetchData();
+      const result = await deleteTransfer.mutateAsync(transfer);
+      toast(result === QUEUED ? SAVED_OFFLINE : { title: "Transfer deleted successfully" });
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -299,13 +156,7 @@ const Transfers = () => {
             setOpen(isOpen);
             if (!isOpen) {
               setEditingTransfer(null);
-              setFormData({
-                from_bank_id: "",
-                to_bank_id: "",
-                amount: "",
-                date: new Date().toISOString().split("T")[0],
-                notes: "",
-              });
+              setFormData(emptyForm());
             }
           }}>
             <DialogTrigger asChild>
@@ -323,7 +174,7 @@ const Transfers = () => {
                   <Label htmlFor="from">From Account</Label>
                   <Select
                     value={formData.from_bank_id}
-                    onValueChange={(value) => setFormData({ ...formData, from_bank_id: value })}
+                    onValueChange={(value) => selectAccounts({ from_bank_id: value })}
                   >
                     <SelectTrigger>
                       <SelectValue placeholder="Select account" />
@@ -341,7 +192,7 @@ const Transfers = () => {
                   <Label htmlFor="to">To Account</Label>
                   <Select
                     value={formData.to_bank_id}
-                    onValueChange={(value) => setFormData({ ...formData, to_bank_id: value })}
+                    onValueChange={(value) => selectAccounts({ to_bank_id: value })}
                   >
                     <SelectTrigger>
                       <SelectValue placeholder="Select account" />
@@ -355,16 +206,29 @@ const Transfers = () => {
                     </SelectContent>
                   </Select>
                 </div>
-                <div className="space-y-2">
-                  <Label htmlFor="amount">Amount</Label>
-                  <Input
-                    id="amount"
-                    type="number"
-                    step="0.01"
-                    value={formData.amount}
-                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-                    required
-                  />
+                <div className={crossCurrency ? "grid grid-cols-2 gap-4" : undefined}>
+                  <div className="space-y-2">
+                    <Label htmlFor="amount">{crossCurrency ? `Amount Sent (${fromBank.currency})` : "Amount"}</Label>
+                    <MoneyInput
+                      id="amount"
+                      currency={fromBank?.currency}
+                      value={formData.amount}
+                      onChange={(amount) => setFormData({ ...formData, amount })}
+                      required
+                    />
+                  </div>
+                  {crossCurrency && (
+                    <div className="space-y-2">
+                      <Label htmlFor="to_amount">Amount Received ({toBank.currency})</Label>
+                      <MoneyInput
+                        id="to_amount"
+                        currency={toBank.currency}
+                        value={formData.to_amount}
+                        onChange={(to_amount) => setFormData({ ...formData, to_amount })}
+                        required
+                      />
+                    </div>
+                  )}
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="date">Date</Label>
@@ -376,6 +240,19 @@ const Transfers = () => {
                     required
                   />
                 </div>
+                {canMarkCardPayment && (
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label htmlFor="is_card_payment">Card bill payment</Label>
+                      <p className="text-xs text-muted-foreground">Counts towards clearing the card's statement</p>
+                    </div>
+                    <Switch
+                      id="is_card_payment"
+                      checked={formData.is_card_payment}
+                      onCheckedChange={(checked) => setFormData({ ...formData, is_card_payment: checked })}
+                    />
+                  </div>
+                )}
                 <div className="space-y-2">
                   <Label htmlFor="notes">Notes</Label>
                   <Textarea
@@ -418,8 +295,9 @@ const Transfers = () => {
                         <ArrowRight className="h-5 w-5 text-chart-transfer" />
                       </div>
                       <div>
-                        <p className="font-semibold text-foreground">
+                        <p className="font-semibold text-foreground flex items-center gap-2">
                           {transfer.from_bank.name} → {transfer.to_bank.name}
+                          {transfer.is_card_payment && <Badge variant="secondary">Card bill payment</Badge>}
                         </p>
                         <p className="text-sm text-muted-foreground">
                           {new Date(transfer.date).toLocaleDateString()}
@@ -430,10 +308,18 @@ const Transfers = () => {
                       </div>
                     </div>
                     <div className="flex items-center gap-4">
-                      <span className="text-lg font-bold text-foreground flex items-center gap-1">
-                        <RupeeIcon size={16} />
-                        {Number(transfer.amount).toFixed(2)}
-                      </span>
+                      <div className="text-right">
+                        <Money
+                          amount={transfer.amount}
+                          currency={transfer.from_bank.currency}
+                          className="block text-lg font-bold text-foreground"
+                        />
+                        {transfer.to_amount !== null && (
+                          <span className="block text-sm text-muted-foreground">
+                            received <Money amount={transfer.to_amount} currency={transfer.to_bank.currency} />
+                          </span>
+                        )}
+                      </div>
                       <Button size="icon" variant="ghost" onClick={() => handleEdit(transfer)}>
                         <Pencil className="h-4 w-4" />
                       </Button>
@@ -0,0 +1,105 @@
+-- Insert or update a transaction and adjust bank balances in a single database transaction
+CREATE OR REPLACE FUNCTION public.save_transaction(
+  p_bank_id UUID,
+  p_type TEXT,
+  p_amount DECIMAL(15, 2),
+  p_date DATE,
+  p_category TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_person_name TEXT DEFAULT NULL,
+  p_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_old public.transactions;
+  v_new public.transactions;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_type NOT IN ('income', 'expense') THEN
+    RAISE EXCEPTION 'Invalid transaction type: %', p_type;
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero';
+  END IF;
+
+  -- Lock the target bank row so concurrent writers queue up behind us
+  PERFORM 1 FROM public.banks WHERE id = p_bank_id AND user_id = v_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank account not found';
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO public.transactions (user_id, bank_id, type, amount, date, category, notes, person_name)
+    VALUES (v_user_id, p_bank_id, p_type, p_amount, p_date, p_category, p_notes, p_person_name)
+    RETURNING * INTO v_new;
+  ELSE
+    SELECT * INTO v_old
+    FROM public.transactions
+    WHERE id = p_id AND user_id = v_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Transaction not found';
+    END IF;
+
+    -- Reverse the old transaction effect on the bank it was recorded against
+    UPDATE public.banks
+    SET balance = COALESCE(balance, 0)
+      - CASE WHEN v_old.type = 'income' THEN v_old.amount ELSE -v_old.amount END
+    WHERE id = v_old.bank_id;
+
+    UPDATE public.transactions
+    SET bank_id = p_bank_id,
+        type = p_type,
+        amount = p_amount,
+        date = p_date,
+        category = p_category,
+        notes = p_notes,
+        person_name = p_person_name
+    WHERE id = p_id
+    RETURNING * INTO v_new;
+  END IF;
+
+  -- Apply the new transaction effect
+  UPDATE public.banks
+  SET balance = COALESCE(balance, 0)
+    + CASE WHEN v_new.type = 'income' THEN v_new.amount ELSE -v_new.amount END
+  WHERE id = v_new.bank_id;
+
+  RETURN v_new.id;
+END;
+$function$;
+
+-- Delete a transaction and restore its bank balance in a single database transaction
+CREATE OR REPLACE FUNCTION public.delete_transaction(p_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_old public.transactions;
+BEGIN
+  DELETE FROM public.transactions
+  WHERE id = p_id AND user_id = auth.uid()
+  RETURNING * INTO v_old;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  UPDATE public.banks
+  SET balance = COALESCE(balance, 0)
+    - CASE WHEN v_old.type = 'income' THEN v_old.amount ELSE -v_old.amount END
+  WHERE id = v_old.bank_id;
+END;
+$function$;
@@ -0,0 +1,109 @@
+-- Create or edit a transfer and move the money between both banks in a single database transaction.
+-- Runs as SECURITY INVOKER like save_transaction, so the table policies decide which rows it can touch.
+CREATE OR REPLACE FUNCTION public.save_transfer(
+  p_from_bank_id UUID,
+  p_to_bank_id UUID,
+  p_amount DECIMAL(15, 2),
+  p_date DATE,
+  p_notes TEXT DEFAULT NULL,
+  p_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_old public.transfers;
+  v_bank_count INTEGER;
+  v_transfer_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_from_bank_id = p_to_bank_id THEN
+    RAISE EXCEPTION 'Cannot transfer to the same account';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero';
+  END IF;
+
+  IF p_id IS NOT NULL THEN
+    SELECT * INTO v_old
+    FROM public.transfers
+    WHERE id = p_id AND user_id = v_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Transfer not found';
+    END IF;
+  END IF;
+
+  -- Lock every bank involved (old and new) in a stable order to avoid deadlocks
+  PERFORM 1
+  FROM public.banks
+  WHERE user_id = v_user_id
+    AND id IN (p_from_bank_id, p_to_bank_id, v_old.from_bank_id, v_old.to_bank_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT count(*) INTO v_bank_count
+  FROM public.banks
+  WHERE user_id = v_user_id AND id IN (p_from_bank_id, p_to_bank_id);
+
+  IF v_bank_count <> 2 THEN
+    RAISE EXCEPTION 'Bank account not found';
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO public.transfers (user_id, from_bank_id, to_bank_id, amount, date, notes)
+    VALUES (v_user_id, p_from_bank_id, p_to_bank_id, p_amount, p_date, p_notes)
+    RETURNING id INTO v_transfer_id;
+  ELSE
+    -- Reverse the old transfer's balance changes
+    UPDATE public.banks SET balance = COALESCE(balance, 0) + v_old.amount WHERE id = v_old.from_bank_id;
+    UPDATE public.banks SET balance = COALESCE(balance, 0) - v_old.amount WHERE id = v_old.to_bank_id;
+
+    UPDATE public.transfers
+    SET from_bank_id = p_from_bank_id,
+        to_bank_id = p_to_bank_id,
+        amount = p_amount,
+        date = p_date,
+        notes = p_notes
+    WHERE id = p_id
+    RETURNING id INTO v_transfer_id;
+  END IF;
+
+  -- Apply the new transfer's balance changes
+  UPDATE public.banks SET balance = COALESCE(balance, 0) - p_amount WHERE id = p_from_bank_id;
+  UPDATE public.banks SET balance = COALESCE(balance, 0) + p_amount WHERE id = p_to_bank_id;
+
+  RETURN v_transfer_id;
+END;
+$function$;
+
+-- Delete a transfer and restore both bank balances in a single database transaction
+CREATE OR REPLACE FUNCTION public.delete_transfer(p_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_old public.transfers;
+BEGIN
+  DELETE FROM public.transfers
+  WHERE id = p_id AND user_id = auth.uid()
+  RETURNING * INTO v_old;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  UPDATE public.banks SET balance = COALESCE(balance, 0) + v_old.amount WHERE id = v_old.from_bank_id;
+  UPDATE public.banks SET balance = COALESCE(balance, 0) - v_old.amount WHERE id = v_old.to_bank_id;
+END;
+$function$;
@@ -0,0 +1,108 @@
+-- Add opening balance to banks so the running balance can be derived from the ledger
+ALTER TABLE public.banks
+ADD COLUMN opening_balance DECIMAL(15, 2) NOT NULL DEFAULT 0;
+
+-- Backfill: treat the current stored balance as correct and derive the opening balance from it
+UPDATE public.banks b
+SET opening_balance = COALESCE(b.balance, 0)
+  - COALESCE((
+      SELECT SUM(CASE WHEN t.type = 'income' THEN t.amount ELSE -t.amount END)
+      FROM public.transactions t
+      WHERE t.bank_id = b.id
+    ), 0)
+  + COALESCE((SELECT SUM(tr.amount) FROM public.transfers tr WHERE tr.from_bank_id = b.id), 0)
+  - COALESCE((SELECT SUM(tr.amount) FROM public.transfers tr WHERE tr.to_bank_id = b.id), 0);
+
+-- Keep the stored balance in step when only the opening balance is edited
+CREATE OR REPLACE FUNCTION public.apply_opening_balance_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.opening_balance IS DISTINCT FROM OLD.opening_balance
+     AND NEW.balance IS NOT DISTINCT FROM OLD.balance THEN
+    NEW.balance = COALESCE(OLD.balance, 0) + NEW.opening_balance - OLD.opening_balance;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER apply_banks_opening_balance_change
+  BEFORE UPDATE ON public.banks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_opening_balance_change();
+
+-- Per-bank balance computed from opening balance + income - expense +/- transfers
+CREATE VIEW public.bank_ledger_balances
+WITH (security_invoker = true) AS
+SELECT
+  b.id AS bank_id,
+  b.user_id,
+  b.name,
+  b.opening_balance,
+  COALESCE(b.balance, 0) AS stored_balance,
+  b.opening_balance
+    + COALESCE(t.net, 0)
+    - COALESCE(tout.total, 0)
+    + COALESCE(tin.total, 0) AS computed_balance,
+  COALESCE(b.balance, 0) - (
+    b.opening_balance
+      + COALESCE(t.net, 0)
+      - COALESCE(tout.total, 0)
+      + COALESCE(tin.total, 0)
+  ) AS difference
+FROM public.banks b
+LEFT JOIN (
+  SELECT bank_id, SUM(CASE WHEN type = 'income' THEN amount ELSE -amount END) AS net
+  FROM public.transactions
+  GROUP BY bank_id
+) t ON t.bank_id = b.id
+LEFT JOIN (
+  SELECT from_bank_id, SUM(amount) AS total
+  FROM public.transfers
+  GROUP BY from_bank_id
+) tout ON tout.from_bank_id = b.id
+LEFT JOIN (
+  SELECT to_bank_id, SUM(amount) AS total
+  FROM public.transfers
+  GROUP BY to_bank_id
+) tin ON tin.to_bank_id = b.id;
+
+-- Fix a drifted bank: either overwrite the stored balance with the ledger balance, or keep the
+-- stored balance and move the opening balance so the ledger agrees with it
+CREATE OR REPLACE FUNCTION public.reconcile_bank_balance(
+  p_bank_id UUID,
+  p_keep_stored BOOLEAN DEFAULT false
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_ledger public.bank_ledger_balances;
+BEGIN
+  PERFORM 1 FROM public.banks WHERE id = p_bank_id AND user_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank account not found';
+  END IF;
+
+  SELECT * INTO v_ledger FROM public.bank_ledger_balances WHERE bank_id = p_bank_id;
+
+  IF p_keep_stored THEN
+    UPDATE public.banks
+    SET opening_balance = opening_balance + v_ledger.difference
+    WHERE id = p_bank_id;
+
+    -- The opening balance trigger shifted the stored balance along with it; put it back
+    UPDATE public.banks
+    SET balance = v_ledger.stored_balance
+    WHERE id = p_bank_id;
+  ELSE
+    UPDATE public.banks
+    SET balance = v_ledger.computed_balance
+    WHERE id = p_bank_id;
+  END IF;
+END;
+$function$;
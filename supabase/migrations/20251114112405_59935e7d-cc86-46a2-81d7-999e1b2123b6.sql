@@ -0,0 +1,13 @@
+-- Allow users to update their own transfers (the initial migration only covered select/insert/delete)
+CREATE POLICY "Users can update their own transfers"
+  ON public.transfers FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Track when a transfer was last edited
+ALTER TABLE public.transfers
+ADD COLUMN updated_at TIMESTAMPTZ DEFAULT now();
+
+CREATE TRIGGER update_transfers_updated_at
+  BEFORE UPDATE ON public.transfers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,51 @@
+-- Bulk-insert imported statement rows for one bank and apply their net effect to its balance
+-- in a single database transaction
+CREATE OR REPLACE FUNCTION public.import_transactions(p_bank_id UUID, p_rows JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_count INTEGER;
+  v_net DECIMAL(15, 2);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_rows) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Rows must be a JSON array';
+  END IF;
+
+  PERFORM 1 FROM public.banks WHERE id = p_bank_id AND user_id = v_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank account not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_rows) AS r(type TEXT, amount DECIMAL(15, 2), date DATE)
+    WHERE r.amount IS NULL OR r.amount <= 0 OR r.date IS NULL OR r.type NOT IN ('income', 'expense')
+  ) THEN
+    RAISE EXCEPTION 'Every imported row needs a date, a type and an amount greater than zero';
+  END IF;
+
+  WITH inserted AS (
+    INSERT INTO public.transactions (user_id, bank_id, type, amount, date, category, notes)
+    SELECT v_user_id, p_bank_id, r.type, r.amount, r.date, r.category, r.notes
+    FROM jsonb_to_recordset(p_rows) AS r(type TEXT, amount DECIMAL(15, 2), date DATE, category TEXT, notes TEXT)
+    RETURNING type, amount
+  )
+  SELECT count(*), COALESCE(SUM(CASE WHEN type = 'income' THEN amount ELSE -amount END), 0)
+  INTO v_count, v_net
+  FROM inserted;
+
+  UPDATE public.banks
+  SET balance = COALESCE(balance, 0) + v_net
+  WHERE id = p_bank_id;
+
+  RETURN v_count;
+END;
+$function$;
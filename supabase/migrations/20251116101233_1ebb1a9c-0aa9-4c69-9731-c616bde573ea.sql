@@ -0,0 +1,59 @@
+-- Restore a full-account backup for the current user in a single database transaction.
+-- Row ids are remapped by the client beforehand, so merging never collides with existing rows.
+-- Bank balances are restored as stored, so transactions and transfers are inserted without
+-- adjusting them again.
+CREATE OR REPLACE FUNCTION public.restore_backup(p_payload JSONB, p_replace BOOLEAN DEFAULT false)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_replace THEN
+    DELETE FROM public.transfers WHERE user_id = v_user_id;
+    DELETE FROM public.transactions WHERE user_id = v_user_id;
+    DELETE FROM public.credits WHERE user_id = v_user_id;
+    DELETE FROM public.banks WHERE user_id = v_user_id;
+  END IF;
+
+  INSERT INTO public.banks (id, user_id, name, balance, opening_balance, color, created_at)
+  SELECT r.id, v_user_id, r.name, r.balance, COALESCE(r.opening_balance, 0), COALESCE(r.color, '#3b82f6'), COALESCE(r.created_at, now())
+  FROM jsonb_to_recordset(COALESCE(p_payload->'banks', '[]'::jsonb))
+    AS r(id UUID, name TEXT, balance DECIMAL(15, 2), opening_balance DECIMAL(15, 2), color TEXT, created_at TIMESTAMPTZ);
+
+  -- Every referenced bank must belong to the current user
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'transactions', '[]'::jsonb)) AS r(bank_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.bank_id AND b.user_id = v_user_id)
+  ) OR EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'transfers', '[]'::jsonb)) AS r(from_bank_id UUID, to_bank_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.from_bank_id AND b.user_id = v_user_id)
+       OR NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.to_bank_id AND b.user_id = v_user_id)
+  ) THEN
+    RAISE EXCEPTION 'Backup references a bank account that does not exist';
+  END IF;
+
+  INSERT INTO public.transactions (id, user_id, bank_id, type, amount, date, category, notes, person_name)
+  SELECT r.id, v_user_id, r.bank_id, r.type, r.amount, r.date, r.category, r.notes, r.person_name
+  FROM jsonb_to_recordset(COALESCE(p_payload->'transactions', '[]'::jsonb))
+    AS r(id UUID, bank_id UUID, type TEXT, amount DECIMAL(15, 2), date DATE, category TEXT, notes TEXT, person_name TEXT);
+
+  INSERT INTO public.transfers (id, user_id, from_bank_id, to_bank_id, amount, date, notes)
+  SELECT r.id, v_user_id, r.from_bank_id, r.to_bank_id, r.amount, r.date, r.notes
+  FROM jsonb_to_recordset(COALESCE(p_payload->'transfers', '[]'::jsonb))
+    AS r(id UUID, from_bank_id UUID, to_bank_id UUID, amount DECIMAL(15, 2), date DATE, notes TEXT);
+
+  INSERT INTO public.credits (id, user_id, person_name, amount, type, description, date)
+  SELECT r.id, v_user_id, r.person_name, r.amount, r.type, r.description, r.date
+  FROM jsonb_to_recordset(COALESCE(p_payload->'credits', '[]'::jsonb))
+    AS r(id UUID, person_name TEXT, amount NUMERIC, type TEXT, description TEXT, date DATE);
+END;
+$function$;
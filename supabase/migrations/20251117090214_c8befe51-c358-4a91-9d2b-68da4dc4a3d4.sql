@@ -0,0 +1,200 @@
+-- Create recurring_transactions table for scheduled income and expenses (salary, rent, EMI...)
+CREATE TABLE public.recurring_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  bank_id UUID REFERENCES public.banks(id) ON DELETE CASCADE NOT NULL,
+  type TEXT CHECK(type IN ('income', 'expense')) NOT NULL,
+  amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+  category TEXT,
+  notes TEXT,
+  person_name TEXT,
+  frequency TEXT CHECK(frequency IN ('daily', 'weekly', 'monthly', 'yearly')) NOT NULL,
+  day_of_month INTEGER CHECK (day_of_month BETWEEN 1 AND 31),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  next_run_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  last_run_date DATE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+ALTER TABLE public.recurring_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own recurring transactions"
+  ON public.recurring_transactions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own recurring transactions"
+  ON public.recurring_transactions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own recurring transactions"
+  ON public.recurring_transactions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own recurring transactions"
+  ON public.recurring_transactions FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_recurring_transactions_user_id ON public.recurring_transactions(user_id);
+CREATE INDEX idx_recurring_transactions_next_run_date ON public.recurring_transactions(next_run_date);
+
+CREATE TRIGGER update_recurring_transactions_updated_at
+  BEFORE UPDATE ON public.recurring_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Remember which rule generated a transaction
+ALTER TABLE public.transactions
+ADD COLUMN recurring_transaction_id UUID REFERENCES public.recurring_transactions(id) ON DELETE SET NULL;
+
+-- Clamp a day-of-month to the length of the month starting at p_month
+CREATE OR REPLACE FUNCTION public.clamp_to_month(p_month DATE, p_day INTEGER)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $function$
+  SELECT p_month + (LEAST(p_day, EXTRACT(DAY FROM (p_month + INTERVAL '1 month - 1 day'))::INTEGER) - 1);
+$function$;
+
+-- Occurrence that follows p_date for the given rule
+CREATE OR REPLACE FUNCTION public.next_recurrence_date(p_date DATE, p_frequency TEXT, p_day_of_month INTEGER)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $function$
+BEGIN
+  CASE p_frequency
+    WHEN 'daily' THEN
+      RETURN p_date + 1;
+    WHEN 'weekly' THEN
+      RETURN p_date + 7;
+    WHEN 'monthly' THEN
+      RETURN public.clamp_to_month(
+        (date_trunc('month', p_date) + INTERVAL '1 month')::DATE,
+        COALESCE(p_day_of_month, EXTRACT(DAY FROM p_date)::INTEGER)
+      );
+    WHEN 'yearly' THEN
+      RETURN (p_date + INTERVAL '1 year')::DATE;
+    ELSE
+      RAISE EXCEPTION 'Invalid frequency: %', p_frequency;
+  END CASE;
+END;
+$function$;
+
+-- First occurrence on or after p_start_date
+CREATE OR REPLACE FUNCTION public.first_recurrence_date(p_start_date DATE, p_frequency TEXT, p_day_of_month INTEGER)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $function$
+DECLARE
+  v_candidate DATE;
+BEGIN
+  IF p_frequency <> 'monthly' OR p_day_of_month IS NULL THEN
+    RETURN p_start_date;
+  END IF;
+
+  v_candidate := public.clamp_to_month(date_trunc('month', p_start_date)::DATE, p_day_of_month);
+  IF v_candidate >= p_start_date THEN
+    RETURN v_candidate;
+  END IF;
+  RETURN public.next_recurrence_date(v_candidate, p_frequency, p_day_of_month);
+END;
+$function$;
+
+-- Keep next_run_date consistent with the schedule whenever the schedule is created or edited
+CREATE OR REPLACE FUNCTION public.set_recurring_next_run_date()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.frequency = 'monthly' AND NEW.day_of_month IS NULL THEN
+    NEW.day_of_month := EXTRACT(DAY FROM NEW.start_date)::INTEGER;
+  END IF;
+
+  IF NEW.last_run_date IS NULL THEN
+    NEW.next_run_date := public.first_recurrence_date(NEW.start_date, NEW.frequency, NEW.day_of_month);
+  ELSE
+    NEW.next_run_date := GREATEST(
+      public.next_recurrence_date(NEW.last_run_date, NEW.frequency, NEW.day_of_month),
+      public.first_recurrence_date(NEW.start_date, NEW.frequency, NEW.day_of_month)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_recurring_transactions_next_run_date
+  BEFORE INSERT OR UPDATE OF start_date, frequency, day_of_month ON public.recurring_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_recurring_next_run_date();
+
+-- Materialize every due occurrence up to p_today into transactions and adjust bank balances.
+-- p_today comes from the client so "today" follows the user's timezone rather than the server's.
+CREATE OR REPLACE FUNCTION public.process_recurring_transactions(p_today DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_rule public.recurring_transactions;
+  v_count INTEGER := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_today > CURRENT_DATE + 1 THEN
+    RAISE EXCEPTION 'Cannot process recurring transactions in the future';
+  END IF;
+
+  -- SKIP LOCKED lets two open tabs run this concurrently without double-posting
+  FOR v_rule IN
+    SELECT r.*
+    FROM public.recurring_transactions r
+    JOIN public.banks b ON b.id = r.bank_id AND b.user_id = v_user_id
+    WHERE r.user_id = v_user_id
+      AND r.is_active
+      AND r.next_run_date <= p_today
+      AND (r.end_date IS NULL OR r.next_run_date <= r.end_date)
+    FOR UPDATE OF r SKIP LOCKED
+  LOOP
+    WHILE v_rule.next_run_date <= p_today
+      AND (v_rule.end_date IS NULL OR v_rule.next_run_date <= v_rule.end_date)
+    LOOP
+      INSERT INTO public.transactions (
+        user_id, bank_id, type, amount, date, category, notes, person_name, recurring_transaction_id
+      )
+      VALUES (
+        v_user_id, v_rule.bank_id, v_rule.type, v_rule.amount, v_rule.next_run_date,
+        v_rule.category, v_rule.notes, v_rule.person_name, v_rule.id
+      );
+
+      UPDATE public.banks
+      SET balance = COALESCE(balance, 0)
+        + CASE WHEN v_rule.type = 'income' THEN v_rule.amount ELSE -v_rule.amount END
+      WHERE id = v_rule.bank_id;
+
+      v_rule.last_run_date := v_rule.next_run_date;
+      v_rule.next_run_date := public.next_recurrence_date(v_rule.next_run_date, v_rule.frequency, v_rule.day_of_month);
+      v_count := v_count + 1;
+    END LOOP;
+
+    UPDATE public.recurring_transactions
+    SET last_run_date = v_rule.last_run_date,
+        next_run_date = v_rule.next_run_date
+    WHERE id = v_rule.id;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$function$;
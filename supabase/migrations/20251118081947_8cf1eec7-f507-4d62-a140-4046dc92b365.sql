@@ -0,0 +1,181 @@
+-- Create categories table so every user manages their own income and expense categories.
+-- Transactions keep referencing categories by name; renames and merges rewrite those names.
+CREATE TABLE public.categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  type TEXT CHECK(type IN ('income', 'expense')) NOT NULL,
+  icon TEXT NOT NULL DEFAULT 'MoreHorizontal',
+  color TEXT NOT NULL DEFAULT '#64748b',
+  is_archived BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (user_id, type, name)
+);
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own categories"
+  ON public.categories FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own categories"
+  ON public.categories FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own categories"
+  ON public.categories FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own categories"
+  ON public.categories FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_categories_user_id ON public.categories(user_id);
+
+CREATE TRIGGER update_categories_updated_at
+  BEFORE UPDATE ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Default categories (the lists that used to be hard-coded in the app)
+CREATE OR REPLACE FUNCTION public.seed_default_categories(p_user_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  INSERT INTO public.categories (user_id, name, type, icon, color)
+  VALUES
+    (p_user_id, 'Salary', 'income', 'Wallet', '#22c55e'),
+    (p_user_id, 'Share Trading', 'income', 'TrendingUp', '#10b981'),
+    (p_user_id, 'HPK Bank', 'income', 'Landmark', '#14b8a6'),
+    (p_user_id, 'Other Source', 'income', 'PlusCircle', '#06b6d4'),
+    (p_user_id, 'Freelance', 'income', 'Briefcase', '#0ea5e9'),
+    (p_user_id, 'Fuel', 'expense', 'Fuel', '#f97316'),
+    (p_user_id, 'Medical', 'expense', 'Activity', '#ef4444'),
+    (p_user_id, 'EMI', 'expense', 'CreditCard', '#a855f7'),
+    (p_user_id, 'Rent', 'expense', 'Home', '#8b5cf6'),
+    (p_user_id, 'Dining', 'expense', 'Utensils', '#f59e0b'),
+    (p_user_id, 'Shopping', 'expense', 'ShoppingBag', '#ec4899'),
+    (p_user_id, 'Travel', 'expense', 'Plane', '#3b82f6'),
+    (p_user_id, 'Donation', 'expense', 'Gift', '#84cc16'),
+    (p_user_id, 'Home Needs', 'expense', 'Package', '#eab308'),
+    (p_user_id, 'Other', 'expense', 'MoreHorizontal', '#64748b')
+  ON CONFLICT (user_id, type, name) DO NOTHING;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.seed_default_categories(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user_categories()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  PERFORM public.seed_default_categories(NEW.id);
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER on_auth_user_created_seed_categories
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_user_categories();
+
+-- Backfill existing users with the defaults plus any category names already in use
+SELECT public.seed_default_categories(id) FROM auth.users;
+
+INSERT INTO public.categories (user_id, name, type)
+SELECT DISTINCT user_id, btrim(category), type
+FROM public.transactions
+WHERE category IS NOT NULL AND btrim(category) <> ''
+ON CONFLICT (user_id, type, name) DO NOTHING;
+
+INSERT INTO public.categories (user_id, name, type)
+SELECT DISTINCT user_id, btrim(category), type
+FROM public.recurring_transactions
+WHERE category IS NOT NULL AND btrim(category) <> ''
+ON CONFLICT (user_id, type, name) DO NOTHING;
+
+-- Rename a category and every transaction and schedule that uses it
+CREATE OR REPLACE FUNCTION public.rename_category(p_id UUID, p_name TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_old public.categories;
+  v_name TEXT := btrim(p_name);
+BEGIN
+  SELECT * INTO v_old
+  FROM public.categories
+  WHERE id = p_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Category not found';
+  END IF;
+
+  IF v_name IS NULL OR v_name = '' THEN
+    RAISE EXCEPTION 'Category name is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.categories
+    WHERE user_id = v_old.user_id AND type = v_old.type AND name = v_name AND id <> p_id
+  ) THEN
+    RAISE EXCEPTION 'A category named "%" already exists. Merge them instead.', v_name;
+  END IF;
+
+  UPDATE public.categories SET name = v_name WHERE id = p_id;
+
+  UPDATE public.transactions
+  SET category = v_name
+  WHERE user_id = v_old.user_id AND type = v_old.type AND category = v_old.name;
+
+  UPDATE public.recurring_transactions
+  SET category = v_name
+  WHERE user_id = v_old.user_id AND type = v_old.type AND category = v_old.name;
+END;
+$function$;
+
+-- Fold one category into another of the same type, then delete it
+CREATE OR REPLACE FUNCTION public.merge_categories(p_source_id UUID, p_target_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_source public.categories;
+  v_target public.categories;
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge a category into itself';
+  END IF;
+
+  SELECT * INTO v_source FROM public.categories WHERE id = p_source_id AND user_id = auth.uid() FOR UPDATE;
+  SELECT * INTO v_target FROM public.categories WHERE id = p_target_id AND user_id = auth.uid() FOR UPDATE;
+
+  IF v_source.id IS NULL OR v_target.id IS NULL THEN
+    RAISE EXCEPTION 'Category not found';
+  END IF;
+
+  IF v_source.type <> v_target.type THEN
+    RAISE EXCEPTION 'Only categories of the same type can be merged';
+  END IF;
+
+  UPDATE public.transactions
+  SET category = v_target.name
+  WHERE user_id = v_source.user_id AND type = v_source.type AND category = v_source.name;
+
+  UPDATE public.recurring_transactions
+  SET category = v_target.name
+  WHERE user_id = v_source.user_id AND type = v_source.type AND category = v_source.name;
+
+  DELETE FROM public.categories WHERE id = p_source_id;
+END;
+$function$;
@@ -0,0 +1,92 @@
+-- Allow categories to be grouped under a parent (e.g. Food -> Dining, Groceries).
+-- The hierarchy is one level deep: a parent is always a top-level category of the same type.
+ALTER TABLE public.categories
+  ADD COLUMN parent_id UUID REFERENCES public.categories(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_categories_parent_id ON public.categories(parent_id);
+
+CREATE OR REPLACE FUNCTION public.validate_category_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+DECLARE
+  v_parent public.categories;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_id = NEW.id THEN
+    RAISE EXCEPTION 'A category cannot be its own parent';
+  END IF;
+
+  SELECT * INTO v_parent FROM public.categories WHERE id = NEW.parent_id;
+
+  IF NOT FOUND OR v_parent.user_id <> NEW.user_id THEN
+    RAISE EXCEPTION 'Parent category not found';
+  END IF;
+
+  IF v_parent.type <> NEW.type THEN
+    RAISE EXCEPTION 'A sub-category must have the same type as its parent';
+  END IF;
+
+  IF v_parent.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Sub-categories can only be one level deep';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.categories WHERE parent_id = NEW.id) THEN
+    RAISE EXCEPTION 'A category with sub-categories cannot itself be a sub-category';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER validate_category_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_category_parent();
+
+-- Merging now also moves the source's sub-categories under the target
+CREATE OR REPLACE FUNCTION public.merge_categories(p_source_id UUID, p_target_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_source public.categories;
+  v_target public.categories;
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge a category into itself';
+  END IF;
+
+  SELECT * INTO v_source FROM public.categories WHERE id = p_source_id AND user_id = auth.uid() FOR UPDATE;
+  SELECT * INTO v_target FROM public.categories WHERE id = p_target_id AND user_id = auth.uid() FOR UPDATE;
+
+  IF v_source.id IS NULL OR v_target.id IS NULL THEN
+    RAISE EXCEPTION 'Category not found';
+  END IF;
+
+  IF v_source.type <> v_target.type THEN
+    RAISE EXCEPTION 'Only categories of the same type can be merged';
+  END IF;
+
+  -- Merging a parent into one of its own children promotes that child to the top level
+  UPDATE public.categories SET parent_id = NULL WHERE id = p_target_id AND parent_id = p_source_id;
+
+  UPDATE public.categories SET parent_id = p_target_id WHERE parent_id = p_source_id;
+
+  UPDATE public.transactions
+  SET category = v_target.name
+  WHERE user_id = v_source.user_id AND type = v_source.type AND category = v_source.name;
+
+  UPDATE public.recurring_transactions
+  SET category = v_target.name
+  WHERE user_id = v_source.user_id AND type = v_source.type AND category = v_source.name;
+
+  DELETE FROM public.categories WHERE id = p_source_id;
+END;
+$function$;
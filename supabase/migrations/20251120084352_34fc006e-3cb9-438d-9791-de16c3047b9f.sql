@@ -0,0 +1,54 @@
+-- Create budgets table: a spending limit per expense category.
+-- Recurring budgets apply from their month onwards until a later recurring budget replaces them;
+-- one-off budgets override the amount for their month only.
+CREATE TABLE public.budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE NOT NULL,
+  amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+  month DATE NOT NULL CHECK (month = date_trunc('month', month)::date),
+  is_recurring BOOLEAN NOT NULL DEFAULT true,
+  rollover BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (user_id, category_id, month, is_recurring)
+);
+
+ALTER TABLE public.budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own budgets"
+  ON public.budgets FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own budgets"
+  ON public.budgets FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.categories
+      WHERE id = category_id AND user_id = auth.uid() AND type = 'expense'
+    )
+  );
+
+CREATE POLICY "Users can update their own budgets"
+  ON public.budgets FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.categories
+      WHERE id = category_id AND user_id = auth.uid() AND type = 'expense'
+    )
+  );
+
+CREATE POLICY "Users can delete their own budgets"
+  ON public.budgets FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_budgets_user_id ON public.budgets(user_id);
+CREATE INDEX idx_budgets_category_id ON public.budgets(category_id);
+
+CREATE TRIGGER update_budgets_updated_at
+  BEFORE UPDATE ON public.budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,175 @@
+-- Create credit_payments table so repayments are recorded against a credit instead of
+-- editing its amount. A credit is settled once its payments cover the full amount.
+CREATE TABLE public.credit_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  credit_id UUID REFERENCES public.credits(id) ON DELETE CASCADE NOT NULL,
+  amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.credit_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own credit payments"
+  ON public.credit_payments FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own credit payments"
+  ON public.credit_payments FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.credits WHERE id = credit_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete their own credit payments"
+  ON public.credit_payments FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_credit_payments_credit_id ON public.credit_payments(credit_id);
+CREATE INDEX idx_credit_payments_user_id ON public.credit_payments(user_id);
+
+CREATE TRIGGER update_credit_payments_updated_at
+  BEFORE UPDATE ON public.credit_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Record a (partial) repayment, refusing anything beyond the outstanding balance
+CREATE OR REPLACE FUNCTION public.record_credit_payment(
+  p_credit_id UUID,
+  p_amount DECIMAL(15, 2),
+  p_date DATE DEFAULT CURRENT_DATE,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_credit public.credits;
+  v_paid DECIMAL(15, 2);
+  v_id UUID;
+BEGIN
+  SELECT * INTO v_credit
+  FROM public.credits
+  WHERE id = p_credit_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Credit not found';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid
+  FROM public.credit_payments
+  WHERE credit_id = p_credit_id;
+
+  IF v_paid + p_amount > v_credit.amount THEN
+    RAISE EXCEPTION 'Payment of % exceeds the outstanding balance of %', p_amount, v_credit.amount - v_paid;
+  END IF;
+
+  INSERT INTO public.credit_payments (user_id, credit_id, amount, date, note)
+  VALUES (v_credit.user_id, p_credit_id, p_amount, COALESCE(p_date, CURRENT_DATE), p_note)
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$function$;
+
+-- A credit's amount can't be lowered below what has already been repaid
+CREATE OR REPLACE FUNCTION public.check_credit_amount_covers_payments()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+DECLARE
+  v_paid DECIMAL(15, 2);
+BEGIN
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid
+  FROM public.credit_payments
+  WHERE credit_id = NEW.id;
+
+  IF NEW.amount < v_paid THEN
+    RAISE EXCEPTION 'Amount cannot be less than the % already repaid', v_paid;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_credit_amount_covers_payments
+  BEFORE UPDATE OF amount ON public.credits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_credit_amount_covers_payments();
+
+-- Backups now carry repayment history alongside credits
+CREATE OR REPLACE FUNCTION public.restore_backup(p_payload JSONB, p_replace BOOLEAN DEFAULT false)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_replace THEN
+    DELETE FROM public.transfers WHERE user_id = v_user_id;
+    DELETE FROM public.transactions WHERE user_id = v_user_id;
+    DELETE FROM public.credits WHERE user_id = v_user_id;
+    DELETE FROM public.banks WHERE user_id = v_user_id;
+  END IF;
+
+  INSERT INTO public.banks (id, user_id, name, balance, opening_balance, color, created_at)
+  SELECT r.id, v_user_id, r.name, r.balance, COALESCE(r.opening_balance, 0), COALESCE(r.color, '#3b82f6'), COALESCE(r.created_at, now())
+  FROM jsonb_to_recordset(COALESCE(p_payload->'banks', '[]'::jsonb))
+    AS r(id UUID, name TEXT, balance DECIMAL(15, 2), opening_balance DECIMAL(15, 2), color TEXT, created_at TIMESTAMPTZ);
+
+  -- Every referenced bank must belong to the current user
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'transactions', '[]'::jsonb)) AS r(bank_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.bank_id AND b.user_id = v_user_id)
+  ) OR EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'transfers', '[]'::jsonb)) AS r(from_bank_id UUID, to_bank_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.from_bank_id AND b.user_id = v_user_id)
+       OR NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.to_bank_id AND b.user_id = v_user_id)
+  ) THEN
+    RAISE EXCEPTION 'Backup references a bank account that does not exist';
+  END IF;
+
+  INSERT INTO public.transactions (id, user_id, bank_id, type, amount, date, category, notes, person_name)
+  SELECT r.id, v_user_id, r.bank_id, r.type, r.amount, r.date, r.category, r.notes, r.person_name
+  FROM jsonb_to_recordset(COALESCE(p_payload->'transactions', '[]'::jsonb))
+    AS r(id UUID, bank_id UUID, type TEXT, amount DECIMAL(15, 2), date DATE, category TEXT, notes TEXT, person_name TEXT);
+
+  INSERT INTO public.transfers (id, user_id, from_bank_id, to_bank_id, amount, date, notes)
+  SELECT r.id, v_user_id, r.from_bank_id, r.to_bank_id, r.amount, r.date, r.notes
+  FROM jsonb_to_recordset(COALESCE(p_payload->'transfers', '[]'::jsonb))
+    AS r(id UUID, from_bank_id UUID, to_bank_id UUID, amount DECIMAL(15, 2), date DATE, notes TEXT);
+
+  INSERT INTO public.credits (id, user_id, person_name, amount, type, description, date)
+  SELECT r.id, v_user_id, r.person_name, r.amount, r.type, r.description, r.date
+  FROM jsonb_to_recordset(COALESCE(p_payload->'credits', '[]'::jsonb))
+    AS r(id UUID, person_name TEXT, amount NUMERIC, type TEXT, description TEXT, date DATE);
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'credit_payments', '[]'::jsonb)) AS r(credit_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.credits c WHERE c.id = r.credit_id AND c.user_id = v_user_id)
+  ) THEN
+    RAISE EXCEPTION 'Backup references a credit that does not exist';
+  END IF;
+
+  INSERT INTO public.credit_payments (id, user_id, credit_id, amount, date, note)
+  SELECT r.id, v_user_id, r.credit_id, r.amount, r.date, r.note
+  FROM jsonb_to_recordset(COALESCE(p_payload->'credit_payments', '[]'::jsonb))
+    AS r(id UUID, credit_id UUID, amount DECIMAL(15, 2), date DATE, note TEXT);
+END;
+$function$;
@@ -0,0 +1,236 @@
+-- Link credits and their repayments to the bank transactions that moved the money.
+-- Lending money out or repaying a debt is an expense; borrowing or being repaid is income.
+ALTER TABLE public.transactions
+  ADD COLUMN credit_id UUID REFERENCES public.credits(id) ON DELETE SET NULL,
+  ADD COLUMN credit_payment_id UUID REFERENCES public.credit_payments(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_transactions_credit_id ON public.transactions(credit_id);
+CREATE INDEX idx_transactions_credit_payment_id ON public.transactions(credit_payment_id);
+
+-- Category used for credit transactions, created on first use
+CREATE OR REPLACE FUNCTION public.ensure_credit_category(p_user_id UUID, p_type TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+BEGIN
+  INSERT INTO public.categories (user_id, name, type, icon, color)
+  VALUES (p_user_id, 'Credits', p_type, 'Banknote', '#0ea5e9')
+  ON CONFLICT (user_id, type, name) DO NOTHING;
+
+  RETURN 'Credits';
+END;
+$function$;
+
+-- Insert or update a credit. With a bank, the matching transaction is created or kept in step;
+-- without one, any previously linked transaction is reversed.
+CREATE OR REPLACE FUNCTION public.save_credit(
+  p_person_name TEXT,
+  p_amount DECIMAL(15, 2),
+  p_type TEXT,
+  p_date DATE,
+  p_description TEXT DEFAULT NULL,
+  p_bank_id UUID DEFAULT NULL,
+  p_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_id UUID;
+  v_transaction_id UUID;
+  v_transaction_type TEXT := CASE WHEN p_type = 'owe_me' THEN 'expense' ELSE 'income' END;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO public.credits (user_id, person_name, amount, type, description, date)
+    VALUES (v_user_id, p_person_name, p_amount, p_type, p_description, p_date)
+    RETURNING id INTO v_id;
+  ELSE
+    UPDATE public.credits
+    SET person_name = p_person_name,
+        amount = p_amount,
+        type = p_type,
+        description = p_description,
+        date = p_date
+    WHERE id = p_id AND user_id = v_user_id
+    RETURNING id INTO v_id;
+
+    IF v_id IS NULL THEN
+      RAISE EXCEPTION 'Credit not found';
+    END IF;
+
+    SELECT id INTO v_transaction_id
+    FROM public.transactions
+    WHERE credit_id = v_id AND credit_payment_id IS NULL;
+  END IF;
+
+  IF p_bank_id IS NOT NULL THEN
+    v_transaction_id := public.save_transaction(
+      p_bank_id, v_transaction_type, p_amount, p_date,
+      public.ensure_credit_category(v_user_id, v_transaction_type),
+      p_description, p_person_name, v_transaction_id
+    );
+    UPDATE public.transactions SET credit_id = v_id WHERE id = v_transaction_id;
+  ELSIF v_transaction_id IS NOT NULL THEN
+    PERFORM public.delete_transaction(v_transaction_id);
+  END IF;
+
+  RETURN v_id;
+END;
+$function$;
+
+-- Delete a credit, optionally reversing every bank transaction linked to it or its payments
+CREATE OR REPLACE FUNCTION public.delete_credit(p_id UUID, p_reverse_transactions BOOLEAN DEFAULT false)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_transaction_id UUID;
+BEGIN
+  PERFORM 1 FROM public.credits WHERE id = p_id AND user_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Credit not found';
+  END IF;
+
+  IF p_reverse_transactions THEN
+    FOR v_transaction_id IN
+      SELECT id FROM public.transactions WHERE credit_id = p_id
+    LOOP
+      PERFORM public.delete_transaction(v_transaction_id);
+    END LOOP;
+  END IF;
+
+  DELETE FROM public.credits WHERE id = p_id;
+END;
+$function$;
+
+-- Repayments can now land in (or leave from) a bank account
+DROP FUNCTION public.record_credit_payment(UUID, DECIMAL, DATE, TEXT);
+
+CREATE OR REPLACE FUNCTION public.record_credit_payment(
+  p_credit_id UUID,
+  p_amount DECIMAL(15, 2),
+  p_date DATE DEFAULT CURRENT_DATE,
+  p_note TEXT DEFAULT NULL,
+  p_bank_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_credit public.credits;
+  v_paid DECIMAL(15, 2);
+  v_id UUID;
+  v_transaction_id UUID;
+  v_transaction_type TEXT;
+BEGIN
+  SELECT * INTO v_credit
+  FROM public.credits
+  WHERE id = p_credit_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Credit not found';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid
+  FROM public.credit_payments
+  WHERE credit_id = p_credit_id;
+
+  IF v_paid + p_amount > v_credit.amount THEN
+    RAISE EXCEPTION 'Payment of % exceeds the outstanding balance of %', p_amount, v_credit.amount - v_paid;
+  END IF;
+
+  INSERT INTO public.credit_payments (user_id, credit_id, amount, date, note)
+  VALUES (v_credit.user_id, p_credit_id, p_amount, COALESCE(p_date, CURRENT_DATE), p_note)
+  RETURNING id INTO v_id;
+
+  IF p_bank_id IS NOT NULL THEN
+    v_transaction_type := CASE WHEN v_credit.type = 'owe_me' THEN 'income' ELSE 'expense' END;
+    v_transaction_id := public.save_transaction(
+      p_bank_id, v_transaction_type, p_amount, COALESCE(p_date, CURRENT_DATE),
+      public.ensure_credit_category(v_credit.user_id, v_transaction_type),
+      p_note, v_credit.person_name
+    );
+    UPDATE public.transactions
+    SET credit_id = p_credit_id, credit_payment_id = v_id
+    WHERE id = v_transaction_id;
+  END IF;
+
+  RETURN v_id;
+END;
+$function$;
+
+-- Delete a repayment, optionally reversing the bank transaction it created
+CREATE OR REPLACE FUNCTION public.delete_credit_payment(p_id UUID, p_reverse_transaction BOOLEAN DEFAULT false)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_transaction_id UUID;
+BEGIN
+  PERFORM 1 FROM public.credit_payments WHERE id = p_id AND user_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF p_reverse_transaction THEN
+    FOR v_transaction_id IN
+      SELECT id FROM public.transactions WHERE credit_payment_id = p_id
+    LOOP
+      PERFORM public.delete_transaction(v_transaction_id);
+    END LOOP;
+  END IF;
+
+  DELETE FROM public.credit_payments WHERE id = p_id;
+END;
+$function$;
+
+-- Deleting a transaction can now also remove the credit record or repayment it came from
+DROP FUNCTION public.delete_transaction(UUID);
+
+CREATE OR REPLACE FUNCTION public.delete_transaction(p_id UUID, p_reverse_credit BOOLEAN DEFAULT false)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_old public.transactions;
+BEGIN
+  DELETE FROM public.transactions
+  WHERE id = p_id AND user_id = auth.uid()
+  RETURNING * INTO v_old;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  UPDATE public.banks
+  SET balance = COALESCE(balance, 0)
+    - CASE WHEN v_old.type = 'income' THEN v_old.amount ELSE -v_old.amount END
+  WHERE id = v_old.bank_id;
+
+  IF p_reverse_credit THEN
+    IF v_old.credit_payment_id IS NOT NULL THEN
+      DELETE FROM public.credit_payments WHERE id = v_old.credit_payment_id;
+    ELSIF v_old.credit_id IS NOT NULL THEN
+      DELETE FROM public.credits WHERE id = v_old.credit_id;
+    END IF;
+  END IF;
+END;
+$function$;
@@ -0,0 +1,215 @@
+-- Create people table so credits, transactions and schedules share one directory of contacts.
+-- Rows keep referencing people by name; a trigger resolves typed names (ignoring case,
+-- surrounding spaces and known aliases) to the canonical name, adding new people as needed.
+CREATE TABLE public.people (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  phone TEXT,
+  email TEXT,
+  notes TEXT,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.people ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own people"
+  ON public.people FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own people"
+  ON public.people FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own people"
+  ON public.people FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own people"
+  ON public.people FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE UNIQUE INDEX idx_people_user_id_name ON public.people(user_id, lower(name));
+
+CREATE TRIGGER update_people_updated_at
+  BEFORE UPDATE ON public.people
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The person a typed name refers to: an exact name match wins over an alias
+CREATE OR REPLACE FUNCTION public.find_person(p_user_id UUID, p_name TEXT)
+RETURNS public.people
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $function$
+  SELECT *
+  FROM public.people
+  WHERE user_id = p_user_id
+    AND (
+      lower(name) = lower(btrim(p_name))
+      OR EXISTS (SELECT 1 FROM unnest(aliases) AS a WHERE lower(btrim(a)) = lower(btrim(p_name)))
+    )
+  ORDER BY lower(name) = lower(btrim(p_name)) DESC
+  LIMIT 1;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.resolve_person_name()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+DECLARE
+  v_person public.people;
+BEGIN
+  IF NEW.person_name IS NULL OR btrim(NEW.person_name) = '' THEN
+    RETURN NEW;
+  END IF;
+
+  v_person := public.find_person(NEW.user_id, NEW.person_name);
+
+  IF v_person.id IS NULL THEN
+    INSERT INTO public.people (user_id, name)
+    VALUES (NEW.user_id, btrim(NEW.person_name))
+    RETURNING * INTO v_person;
+  END IF;
+
+  NEW.person_name := v_person.name;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER resolve_credit_person_name
+  BEFORE INSERT OR UPDATE OF person_name ON public.credits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.resolve_person_name();
+
+CREATE TRIGGER resolve_transaction_person_name
+  BEFORE INSERT OR UPDATE OF person_name ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.resolve_person_name();
+
+CREATE TRIGGER resolve_recurring_transaction_person_name
+  BEFORE INSERT OR UPDATE OF person_name ON public.recurring_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.resolve_person_name();
+
+-- Backfill a person for every name already in use, then point rows at the canonical spelling
+INSERT INTO public.people (user_id, name)
+SELECT DISTINCT ON (user_id, lower(btrim(person_name))) user_id, btrim(person_name)
+FROM (
+  SELECT user_id, person_name FROM public.credits
+  UNION ALL
+  SELECT user_id, person_name FROM public.transactions
+  UNION ALL
+  SELECT user_id, person_name FROM public.recurring_transactions
+) AS named
+WHERE person_name IS NOT NULL AND btrim(person_name) <> ''
+ORDER BY user_id, lower(btrim(person_name)), btrim(person_name)
+ON CONFLICT DO NOTHING;
+
+UPDATE public.credits c SET person_name = p.name
+FROM public.people p
+WHERE p.user_id = c.user_id AND lower(p.name) = lower(btrim(c.person_name)) AND c.person_name <> p.name;
+
+UPDATE public.transactions t SET person_name = p.name
+FROM public.people p
+WHERE p.user_id = t.user_id AND lower(p.name) = lower(btrim(t.person_name)) AND t.person_name <> p.name;
+
+UPDATE public.recurring_transactions r SET person_name = p.name
+FROM public.people p
+WHERE p.user_id = r.user_id AND lower(p.name) = lower(btrim(r.person_name)) AND r.person_name <> p.name;
+
+-- Rename a person and every credit, transaction and schedule recorded under them
+CREATE OR REPLACE FUNCTION public.rename_person(p_id UUID, p_name TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_old public.people;
+  v_name TEXT := btrim(p_name);
+BEGIN
+  SELECT * INTO v_old
+  FROM public.people
+  WHERE id = p_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Person not found';
+  END IF;
+
+  IF v_name IS NULL OR v_name = '' THEN
+    RAISE EXCEPTION 'Name is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.people
+    WHERE user_id = v_old.user_id AND id <> p_id AND lower(name) = lower(v_name)
+  ) THEN
+    RAISE EXCEPTION 'Someone named % already exists; merge them instead', v_name;
+  END IF;
+
+  UPDATE public.people SET name = v_name WHERE id = p_id;
+
+  UPDATE public.credits SET person_name = v_name
+  WHERE user_id = v_old.user_id AND person_name = v_old.name;
+
+  UPDATE public.transactions SET person_name = v_name
+  WHERE user_id = v_old.user_id AND person_name = v_old.name;
+
+  UPDATE public.recurring_transactions SET person_name = v_name
+  WHERE user_id = v_old.user_id AND person_name = v_old.name;
+END;
+$function$;
+
+-- Fold a duplicate into another person. The duplicate's name and aliases become aliases of
+-- the target, so the old spellings keep resolving to it.
+CREATE OR REPLACE FUNCTION public.merge_people(p_source_id UUID, p_target_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_source public.people;
+  v_target public.people;
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge a person into themselves';
+  END IF;
+
+  SELECT * INTO v_source FROM public.people WHERE id = p_source_id AND user_id = auth.uid() FOR UPDATE;
+  SELECT * INTO v_target FROM public.people WHERE id = p_target_id AND user_id = auth.uid() FOR UPDATE;
+
+  IF v_source.id IS NULL OR v_target.id IS NULL THEN
+    RAISE EXCEPTION 'Person not found';
+  END IF;
+
+  DELETE FROM public.people WHERE id = p_source_id;
+
+  UPDATE public.people
+  SET aliases = ARRAY(
+        SELECT DISTINCT a
+        FROM unnest(v_target.aliases || v_source.name || v_source.aliases) AS a
+        WHERE lower(a) <> lower(v_target.name)
+        ORDER BY a
+      ),
+      phone = COALESCE(phone, v_source.phone),
+      email = COALESCE(email, v_source.email),
+      notes = COALESCE(notes, v_source.notes)
+  WHERE id = p_target_id;
+
+  UPDATE public.credits SET person_name = v_target.name
+  WHERE user_id = v_source.user_id AND person_name = v_source.name;
+
+  UPDATE public.transactions SET person_name = v_target.name
+  WHERE user_id = v_source.user_id AND person_name = v_source.name;
+
+  UPDATE public.recurring_transactions SET person_name = v_target.name
+  WHERE user_id = v_source.user_id AND person_name = v_source.name;
+END;
+$function$;
@@ -0,0 +1,134 @@
+-- Due dates and reminder schedules for credits. Reminders start remind_days_before the due
+-- date and, when remind_every_days is set, repeat at that interval until the credit is settled.
+ALTER TABLE public.credits
+  ADD COLUMN due_date DATE,
+  ADD COLUMN remind_days_before INTEGER CHECK (remind_days_before >= 0),
+  ADD COLUMN remind_every_days INTEGER CHECK (remind_every_days > 0),
+  ADD COLUMN last_reminded_on DATE;
+
+ALTER TABLE public.credits
+  ADD CONSTRAINT credits_reminder_needs_due_date CHECK (remind_days_before IS NULL OR due_date IS NOT NULL);
+
+CREATE INDEX idx_credits_due_date ON public.credits(due_date) WHERE due_date IS NOT NULL;
+
+-- Return every open credit whose reminder has fallen due by p_today and mark it as sent, so
+-- each reminder surfaces once per interval. p_today comes from the client so "today" follows
+-- the user's timezone.
+CREATE OR REPLACE FUNCTION public.claim_due_credit_reminders(p_today DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  credit_id UUID,
+  person_name TEXT,
+  credit_type TEXT,
+  outstanding DECIMAL(15, 2),
+  due_date DATE
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  WITH open_credits AS (
+    SELECT c.id, c.amount - COALESCE(SUM(p.amount), 0) AS outstanding
+    FROM public.credits c
+    LEFT JOIN public.credit_payments p ON p.credit_id = c.id
+    WHERE c.user_id = v_user_id
+      AND c.remind_days_before IS NOT NULL
+      AND p_today >= c.due_date - c.remind_days_before
+      AND (
+        c.last_reminded_on IS NULL
+        OR (c.remind_every_days IS NOT NULL AND p_today >= c.last_reminded_on + c.remind_every_days)
+      )
+    GROUP BY c.id
+    HAVING c.amount - COALESCE(SUM(p.amount), 0) > 0
+  )
+  UPDATE public.credits c
+  SET last_reminded_on = p_today
+  FROM open_credits o
+  WHERE c.id = o.id
+  RETURNING c.id, c.person_name, c.type, o.outstanding, c.due_date;
+END;
+$function$;
+
+-- Backups now carry due dates and reminder schedules
+CREATE OR REPLACE FUNCTION public.restore_backup(p_payload JSONB, p_replace BOOLEAN DEFAULT false)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_replace THEN
+    DELETE FROM public.transfers WHERE user_id = v_user_id;
+    DELETE FROM public.transactions WHERE user_id = v_user_id;
+    DELETE FROM public.credits WHERE user_id = v_user_id;
+    DELETE FROM public.banks WHERE user_id = v_user_id;
+  END IF;
+
+  INSERT INTO public.banks (id, user_id, name, balance, opening_balance, color, created_at)
+  SELECT r.id, v_user_id, r.name, r.balance, COALESCE(r.opening_balance, 0), COALESCE(r.color, '#3b82f6'), COALESCE(r.created_at, now())
+  FROM jsonb_to_recordset(COALESCE(p_payload->'banks', '[]'::jsonb))
+    AS r(id UUID, name TEXT, balance DECIMAL(15, 2), opening_balance DECIMAL(15, 2), color TEXT, created_at TIMESTAMPTZ);
+
+  -- Every referenced bank must belong to the current user
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'transactions', '[]'::jsonb)) AS r(bank_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.bank_id AND b.user_id = v_user_id)
+  ) OR EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'transfers', '[]'::jsonb)) AS r(from_bank_id UUID, to_bank_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.from_bank_id AND b.user_id = v_user_id)
+       OR NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.to_bank_id AND b.user_id = v_user_id)
+  ) THEN
+    RAISE EXCEPTION 'Backup references a bank account that does not exist';
+  END IF;
+
+  INSERT INTO public.transactions (id, user_id, bank_id, type, amount, date, category, notes, person_name)
+  SELECT r.id, v_user_id, r.bank_id, r.type, r.amount, r.date, r.category, r.notes, r.person_name
+  FROM jsonb_to_recordset(COALESCE(p_payload->'transactions', '[]'::jsonb))
+    AS r(id UUID, bank_id UUID, type TEXT, amount DECIMAL(15, 2), date DATE, category TEXT, notes TEXT, person_name TEXT);
+
+  INSERT INTO public.transfers (id, user_id, from_bank_id, to_bank_id, amount, date, notes)
+  SELECT r.id, v_user_id, r.from_bank_id, r.to_bank_id, r.amount, r.date, r.notes
+  FROM jsonb_to_recordset(COALESCE(p_payload->'transfers', '[]'::jsonb))
+    AS r(id UUID, from_bank_id UUID, to_bank_id UUID, amount DECIMAL(15, 2), date DATE, notes TEXT);
+
+  INSERT INTO public.credits (
+    id, user_id, person_name, amount, type, description, date, due_date, remind_days_before, remind_every_days
+  )
+  SELECT
+    r.id, v_user_id, r.person_name, r.amount, r.type, r.description, r.date, r.due_date, r.remind_days_before,
+    r.remind_every_days
+  FROM jsonb_to_recordset(COALESCE(p_payload->'credits', '[]'::jsonb))
+    AS r(
+      id UUID, person_name TEXT, amount NUMERIC, type TEXT, description TEXT, date DATE, due_date DATE,
+      remind_days_before INTEGER, remind_every_days INTEGER
+    );
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'credit_payments', '[]'::jsonb)) AS r(credit_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.credits c WHERE c.id = r.credit_id AND c.user_id = v_user_id)
+  ) THEN
+    RAISE EXCEPTION 'Backup references a credit that does not exist';
+  END IF;
+
+  INSERT INTO public.credit_payments (id, user_id, credit_id, amount, date, note)
+  SELECT r.id, v_user_id, r.credit_id, r.amount, r.date, r.note
+  FROM jsonb_to_recordset(COALESCE(p_payload->'credit_payments', '[]'::jsonb))
+    AS r(id UUID, credit_id UUID, amount DECIMAL(15, 2), date DATE, note TEXT);
+END;
+$function$;
@@ -0,0 +1,70 @@
+-- Split an expense with other people: our own share is recorded as the expense, and every
+-- other participant's share becomes an owe_me credit paid out of the same bank account.
+-- The credits point back at the expense they were split from.
+ALTER TABLE public.credits
+  ADD COLUMN split_transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_credits_split_transaction_id ON public.credits(split_transaction_id);
+
+CREATE OR REPLACE FUNCTION public.save_split_expense(
+  p_bank_id UUID,
+  p_amount DECIMAL(15, 2),
+  p_date DATE,
+  p_category TEXT,
+  p_own_share DECIMAL(15, 2),
+  p_shares JSONB,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_share RECORD;
+  v_transaction_id UUID;
+  v_credit_id UUID;
+  v_description TEXT := 'Share of ' || p_category || COALESCE(' - ' || NULLIF(btrim(p_notes), ''), '');
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_shares) IS DISTINCT FROM 'array' OR jsonb_array_length(p_shares) = 0 THEN
+    RAISE EXCEPTION 'Add at least one person to split with';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_shares) AS s(person_name TEXT, amount DECIMAL(15, 2))
+    WHERE s.person_name IS NULL OR btrim(s.person_name) = '' OR s.amount IS NULL OR s.amount <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every person in the split needs a name and a share greater than zero';
+  END IF;
+
+  IF p_own_share IS NULL OR p_own_share < 0 THEN
+    RAISE EXCEPTION 'Your own share cannot be negative';
+  END IF;
+
+  IF p_own_share + (
+    SELECT SUM(s.amount) FROM jsonb_to_recordset(p_shares) AS s(amount DECIMAL(15, 2))
+  ) <> p_amount THEN
+    RAISE EXCEPTION 'The shares must add up to the total of %', p_amount;
+  END IF;
+
+  IF p_own_share > 0 THEN
+    v_transaction_id := public.save_transaction(p_bank_id, 'expense', p_own_share, p_date, p_category, p_notes);
+  END IF;
+
+  FOR v_share IN
+    SELECT s.person_name, s.amount
+    FROM jsonb_to_recordset(p_shares) AS s(person_name TEXT, amount DECIMAL(15, 2))
+  LOOP
+    v_credit_id := public.save_credit(v_share.person_name, v_share.amount, 'owe_me', p_date, v_description, p_bank_id);
+    UPDATE public.credits SET split_transaction_id = v_transaction_id WHERE id = v_credit_id;
+  END LOOP;
+
+  RETURN v_transaction_id;
+END;
+$function$;
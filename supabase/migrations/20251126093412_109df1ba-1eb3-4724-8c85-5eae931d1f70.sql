@@ -0,0 +1,66 @@
+-- The transactions list pages through results newest first, keyed on (date, id)
+CREATE INDEX idx_transactions_user_date_id ON public.transactions(user_id, date DESC, id DESC);
+
+-- Income and expense totals over the same filters the transactions list applies, so summary
+-- cards and reports no longer need every row on the client. p_period groups the totals by
+-- 'day' or 'month' ('all' leaves period NULL); p_by_category adds a per-category breakdown.
+CREATE OR REPLACE FUNCTION public.transaction_totals(
+  p_period TEXT DEFAULT 'all',
+  p_by_category BOOLEAN DEFAULT false,
+  p_from DATE DEFAULT NULL,
+  p_to DATE DEFAULT NULL,
+  p_categories TEXT[] DEFAULT NULL,
+  p_bank_id UUID DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_search TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  period DATE,
+  category TEXT,
+  type TEXT,
+  total DECIMAL(15, 2),
+  count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_period NOT IN ('all', 'month', 'day') THEN
+    RAISE EXCEPTION 'Unknown period %', p_period;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    CASE p_period
+      WHEN 'month' THEN date_trunc('month', t.date)::DATE
+      WHEN 'day' THEN t.date
+    END AS period,
+    CASE WHEN p_by_category THEN t.category END AS category,
+    t.type,
+    SUM(t.amount)::DECIMAL(15, 2) AS total,
+    COUNT(*) AS count
+  FROM public.transactions t
+  WHERE t.user_id = v_user_id
+    AND (p_from IS NULL OR t.date >= p_from)
+    AND (p_to IS NULL OR t.date <= p_to)
+    AND (p_categories IS NULL OR t.category = ANY(p_categories))
+    AND (p_bank_id IS NULL OR t.bank_id = p_bank_id)
+    AND (p_type IS NULL OR t.type = p_type)
+    AND (
+      NULLIF(btrim(p_search), '') IS NULL
+      OR t.category ILIKE '%' || btrim(p_search) || '%'
+      OR t.notes ILIKE '%' || btrim(p_search) || '%'
+      OR t.person_name ILIKE '%' || btrim(p_search) || '%'
+    )
+  GROUP BY 1, 2, 3
+  ORDER BY 1, 2, 3;
+END;
+$function$;
@@ -0,0 +1,8 @@
+-- Stream changes to signed-in clients so other tabs and devices stay current. Row level
+-- security still decides which changes each subscriber receives.
+ALTER PUBLICATION supabase_realtime ADD TABLE
+  public.banks,
+  public.transactions,
+  public.transfers,
+  public.credits,
+  public.credit_payments;
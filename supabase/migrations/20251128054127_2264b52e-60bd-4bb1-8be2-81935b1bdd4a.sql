@@ -0,0 +1,111 @@
+-- Accounts are no longer all bank accounts. Credit cards and loans are liabilities: they keep the
+-- same sign convention as every other account (spending lowers the balance), so what is owed shows
+-- as a negative balance and nets off naturally in totals.
+ALTER TABLE public.banks
+  ADD COLUMN account_type TEXT NOT NULL DEFAULT 'savings'
+    CHECK (account_type IN ('savings', 'credit_card', 'cash', 'loan', 'investment')),
+  ADD COLUMN institution TEXT,
+  -- Only the last four digits are kept; the full number is never needed
+  ADD COLUMN account_number_last4 TEXT CHECK (account_number_last4 ~ '^[0-9]{4}$'),
+  -- Credit cards: the statement closes on statement_day and is due payment_due_days later
+  ADD COLUMN credit_limit DECIMAL(15, 2) CHECK (credit_limit > 0),
+  ADD COLUMN statement_day INTEGER CHECK (statement_day BETWEEN 1 AND 31),
+  ADD COLUMN payment_due_days INTEGER CHECK (payment_due_days BETWEEN 1 AND 60),
+  -- Loans: annual interest rate in percent
+  ADD COLUMN interest_rate DECIMAL(6, 3) CHECK (interest_rate >= 0);
+
+ALTER TABLE public.banks
+  ADD CONSTRAINT banks_card_fields CHECK (
+    account_type = 'credit_card' OR (credit_limit IS NULL AND statement_day IS NULL AND payment_due_days IS NULL)
+  ),
+  ADD CONSTRAINT banks_loan_fields CHECK (account_type = 'loan' OR interest_rate IS NULL),
+  ADD CONSTRAINT banks_cash_fields CHECK (
+    account_type <> 'cash' OR (institution IS NULL AND account_number_last4 IS NULL)
+  );
+
+-- Backups now carry account types and their details
+CREATE OR REPLACE FUNCTION public.restore_backup(p_payload JSONB, p_replace BOOLEAN DEFAULT false)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_replace THEN
+    DELETE FROM public.transfers WHERE user_id = v_user_id;
+    DELETE FROM public.transactions WHERE user_id = v_user_id;
+    DELETE FROM public.credits WHERE user_id = v_user_id;
+    DELETE FROM public.banks WHERE user_id = v_user_id;
+  END IF;
+
+  INSERT INTO public.banks (
+    id, user_id, name, balance, opening_balance, color, created_at, account_type, institution,
+    account_number_last4, credit_limit, statement_day, payment_due_days, interest_rate
+  )
+  SELECT
+    r.id, v_user_id, r.name, r.balance, COALESCE(r.opening_balance, 0), COALESCE(r.color, '#3b82f6'),
+    COALESCE(r.created_at, now()), COALESCE(r.account_type, 'savings'), r.institution, r.account_number_last4,
+    r.credit_limit, r.statement_day, r.payment_due_days, r.interest_rate
+  FROM jsonb_to_recordset(COALESCE(p_payload->'banks', '[]'::jsonb))
+    AS r(
+      id UUID, name TEXT, balance DECIMAL(15, 2), opening_balance DECIMAL(15, 2), color TEXT, created_at TIMESTAMPTZ,
+      account_type TEXT, institution TEXT, account_number_last4 TEXT, credit_limit DECIMAL(15, 2),
+      statement_day INTEGER, payment_due_days INTEGER, interest_rate DECIMAL(6, 3)
+    );
+
+  -- Every referenced bank must belong to the current user
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'transactions', '[]'::jsonb)) AS r(bank_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.bank_id AND b.user_id = v_user_id)
+  ) OR EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'transfers', '[]'::jsonb)) AS r(from_bank_id UUID, to_bank_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.from_bank_id AND b.user_id = v_user_id)
+       OR NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.to_bank_id AND b.user_id = v_user_id)
+  ) THEN
+    RAISE EXCEPTION 'Backup references a bank account that does not exist';
+  END IF;
+
+  INSERT INTO public.transactions (id, user_id, bank_id, type, amount, date, category, notes, person_name)
+  SELECT r.id, v_user_id, r.bank_id, r.type, r.amount, r.date, r.category, r.notes, r.person_name
+  FROM jsonb_to_recordset(COALESCE(p_payload->'transactions', '[]'::jsonb))
+    AS r(id UUID, bank_id UUID, type TEXT, amount DECIMAL(15, 2), date DATE, category TEXT, notes TEXT, person_name TEXT);
+
+  INSERT INTO public.transfers (id, user_id, from_bank_id, to_bank_id, amount, date, notes)
+  SELECT r.id, v_user_id, r.from_bank_id, r.to_bank_id, r.amount, r.date, r.notes
+  FROM jsonb_to_recordset(COALESCE(p_payload->'transfers', '[]'::jsonb))
+    AS r(id UUID, from_bank_id UUID, to_bank_id UUID, amount DECIMAL(15, 2), date DATE, notes TEXT);
+
+  INSERT INTO public.credits (
+    id, user_id, person_name, amount, type, description, date, due_date, remind_days_before, remind_every_days
+  )
+  SELECT
+    r.id, v_user_id, r.person_name, r.amount, r.type, r.description, r.date, r.due_date, r.remind_days_before,
+    r.remind_every_days
+  FROM jsonb_to_recordset(COALESCE(p_payload->'credits', '[]'::jsonb))
+    AS r(
+      id UUID, person_name TEXT, amount NUMERIC, type TEXT, description TEXT, date DATE, due_date DATE,
+      remind_days_before INTEGER, remind_every_days INTEGER
+    );
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'credit_payments', '[]'::jsonb)) AS r(credit_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.credits c WHERE c.id = r.credit_id AND c.user_id = v_user_id)
+  ) THEN
+    RAISE EXCEPTION 'Backup references a credit that does not exist';
+  END IF;
+
+  INSERT INTO public.credit_payments (id, user_id, credit_id, amount, date, note)
+  SELECT r.id, v_user_id, r.credit_id, r.amount, r.date, r.note
+  FROM jsonb_to_recordset(COALESCE(p_payload->'credit_payments', '[]'::jsonb))
+    AS r(id UUID, credit_id UUID, amount DECIMAL(15, 2), date DATE, note TEXT);
+END;
+$function$;
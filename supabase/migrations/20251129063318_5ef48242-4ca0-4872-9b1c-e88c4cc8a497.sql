@@ -0,0 +1,285 @@
+-- A transfer into a credit card can be marked as paying the card's bill. Only those transfers count
+-- towards clearing a statement; other money moved onto the card just lowers what is owed.
+ALTER TABLE public.transfers
+  ADD COLUMN is_card_payment BOOLEAN NOT NULL DEFAULT false;
+
+DROP FUNCTION IF EXISTS public.save_transfer(UUID, UUID, DECIMAL, DATE, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.save_transfer(
+  p_from_bank_id UUID,
+  p_to_bank_id UUID,
+  p_amount DECIMAL(15, 2),
+  p_date DATE,
+  p_notes TEXT DEFAULT NULL,
+  p_id UUID DEFAULT NULL,
+  p_is_card_payment BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_old public.transfers;
+  v_bank_count INTEGER;
+  v_transfer_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_from_bank_id = p_to_bank_id THEN
+    RAISE EXCEPTION 'Cannot transfer to the same account';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero';
+  END IF;
+
+  IF p_id IS NOT NULL THEN
+    SELECT * INTO v_old
+    FROM public.transfers
+    WHERE id = p_id AND user_id = v_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Transfer not found';
+    END IF;
+  END IF;
+
+  -- Lock every bank involved (old and new) in a stable order to avoid deadlocks
+  PERFORM 1
+  FROM public.banks
+  WHERE user_id = v_user_id
+    AND id IN (p_from_bank_id, p_to_bank_id, v_old.from_bank_id, v_old.to_bank_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT count(*) INTO v_bank_count
+  FROM public.banks
+  WHERE user_id = v_user_id AND id IN (p_from_bank_id, p_to_bank_id);
+
+  IF v_bank_count <> 2 THEN
+    RAISE EXCEPTION 'Bank account not found';
+  END IF;
+
+  -- A bill is paid into a credit card from an account holding money, not from another card or loan
+  IF COALESCE(p_is_card_payment, false) THEN
+    IF NOT EXISTS (SELECT 1 FROM public.banks WHERE id = p_to_bank_id AND account_type = 'credit_card') THEN
+      RAISE EXCEPTION 'A card bill payment must go to a credit card';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.banks WHERE id = p_from_bank_id AND account_type IN ('credit_card', 'loan')) THEN
+      RAISE EXCEPTION 'A card bill payment must come from a bank, cash or investment account';
+    END IF;
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO public.transfers (user_id, from_bank_id, to_bank_id, amount, date, notes, is_card_payment)
+    VALUES (v_user_id, p_from_bank_id, p_to_bank_id, p_amount, p_date, p_notes, COALESCE(p_is_card_payment, false))
+    RETURNING id INTO v_transfer_id;
+  ELSE
+    -- Reverse the old transfer's balance changes
+    UPDATE public.banks SET balance = COALESCE(balance, 0) + v_old.amount WHERE id = v_old.from_bank_id;
+    UPDATE public.banks SET balance = COALESCE(balance, 0) - v_old.amount WHERE id = v_old.to_bank_id;
+
+    UPDATE public.transfers
+    SET from_bank_id = p_from_bank_id,
+        to_bank_id = p_to_bank_id,
+        amount = p_amount,
+        date = p_date,
+        notes = p_notes,
+        is_card_payment = COALESCE(p_is_card_payment, false)
+    WHERE id = p_id
+    RETURNING id INTO v_transfer_id;
+  END IF;
+
+  -- Apply the new transfer's balance changes
+  UPDATE public.banks SET balance = COALESCE(balance, 0) - p_amount WHERE id = p_from_bank_id;
+  UPDATE public.banks SET balance = COALESCE(balance, 0) + p_amount WHERE id = p_to_bank_id;
+
+  RETURN v_transfer_id;
+END;
+$function$;
+
+-- The statement date falling in the given month. A statement day past the end of a short month
+-- (e.g. the 31st in February) closes on that month's last day.
+CREATE OR REPLACE FUNCTION public.statement_date_in_month(p_statement_day INTEGER, p_month DATE)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $function$
+  SELECT date_trunc('month', p_month)::date
+    + LEAST(p_statement_day, EXTRACT(DAY FROM date_trunc('month', p_month) + INTERVAL '1 month - 1 day')::INTEGER)
+    - 1;
+$function$;
+
+-- The latest statement for each of the user's credit cards as of p_as_of:
+--   statement_balance  what was owed when the statement closed
+--   paid               card bill payments made since then
+--   amount_due         what is still to pay on the statement
+--   minimum_due        5% of the statement (at least 200, or the whole statement if less), less payments
+--   unbilled           net spending since the statement, which goes on the next one
+CREATE OR REPLACE FUNCTION public.card_statements(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  bank_id UUID,
+  period_start DATE,
+  statement_date DATE,
+  due_date DATE,
+  statement_balance DECIMAL(15, 2),
+  paid DECIMAL(15, 2),
+  amount_due DECIMAL(15, 2),
+  minimum_due DECIMAL(15, 2),
+  unbilled DECIMAL(15, 2)
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+  WITH cards AS (
+    SELECT
+      b.id,
+      b.opening_balance,
+      b.payment_due_days,
+      b.statement_day,
+      CASE
+        WHEN public.statement_date_in_month(b.statement_day, p_as_of) <= p_as_of
+          THEN public.statement_date_in_month(b.statement_day, p_as_of)
+        ELSE public.statement_date_in_month(b.statement_day, (p_as_of - INTERVAL '1 month')::date)
+      END AS statement_date
+    FROM public.banks b
+    WHERE b.user_id = auth.uid()
+      AND b.account_type = 'credit_card'
+      AND b.statement_day IS NOT NULL
+  ),
+  -- Every movement on a card, signed the way it moves the balance
+  movements AS (
+    SELECT t.bank_id, t.date, CASE WHEN t.type = 'income' THEN t.amount ELSE -t.amount END AS amount, false AS is_payment
+    FROM public.transactions t
+    JOIN cards c ON c.id = t.bank_id
+    UNION ALL
+    SELECT tr.to_bank_id, tr.date, tr.amount, tr.is_card_payment
+    FROM public.transfers tr
+    JOIN cards c ON c.id = tr.to_bank_id
+    UNION ALL
+    SELECT tr.from_bank_id, tr.date, -tr.amount, false
+    FROM public.transfers tr
+    JOIN cards c ON c.id = tr.from_bank_id
+  ),
+  totals AS (
+    SELECT
+      c.id,
+      c.statement_date,
+      c.statement_day,
+      c.payment_due_days,
+      GREATEST(0, -(c.opening_balance + COALESCE(SUM(m.amount) FILTER (WHERE m.date <= c.statement_date), 0)))
+        AS statement_balance,
+      COALESCE(SUM(m.amount) FILTER (WHERE m.date > c.statement_date AND m.date <= p_as_of AND m.is_payment), 0) AS paid,
+      GREATEST(0, -COALESCE(SUM(m.amount) FILTER (WHERE m.date > c.statement_date AND m.date <= p_as_of AND NOT m.is_payment), 0))
+        AS unbilled
+    FROM cards c
+    LEFT JOIN movements m ON m.bank_id = c.id
+    GROUP BY c.id, c.statement_date, c.statement_day, c.payment_due_days, c.opening_balance
+  )
+  SELECT
+    t.id,
+    public.statement_date_in_month(t.statement_day, (t.statement_date - INTERVAL '1 month')::date) + 1,
+    t.statement_date,
+    t.statement_date + t.payment_due_days,
+    t.statement_balance,
+    t.paid,
+    GREATEST(0, t.statement_balance - t.paid),
+    GREATEST(0, LEAST(t.statement_balance, GREATEST(200, ROUND(t.statement_balance * 0.05, 2))) - t.paid),
+    t.unbilled
+  FROM totals t;
+$function$;
+
+-- Backups now carry which transfers were card bill payments
+CREATE OR REPLACE FUNCTION public.restore_backup(p_payload JSONB, p_replace BOOLEAN DEFAULT false)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_replace THEN
+    DELETE FROM public.transfers WHERE user_id = v_user_id;
+    DELETE FROM public.transactions WHERE user_id = v_user_id;
+    DELETE FROM public.credits WHERE user_id = v_user_id;
+    DELETE FROM public.banks WHERE user_id = v_user_id;
+  END IF;
+
+  INSERT INTO public.banks (
+    id, user_id, name, balance, opening_balance, color, created_at, account_type, institution,
+    account_number_last4, credit_limit, statement_day, payment_due_days, interest_rate
+  )
+  SELECT
+    r.id, v_user_id, r.name, r.balance, COALESCE(r.opening_balance, 0), COALESCE(r.color, '#3b82f6'),
+    COALESCE(r.created_at, now()), COALESCE(r.account_type, 'savings'), r.institution, r.account_number_last4,
+    r.credit_limit, r.statement_day, r.payment_due_days, r.interest_rate
+  FROM jsonb_to_recordset(COALESCE(p_payload->'banks', '[]'::jsonb))
+    AS r(
+      id UUID, name TEXT, balance DECIMAL(15, 2), opening_balance DECIMAL(15, 2), color TEXT, created_at TIMESTAMPTZ,
+      account_type TEXT, institution TEXT, account_number_last4 TEXT, credit_limit DECIMAL(15, 2),
+      statement_day INTEGER, payment_due_days INTEGER, interest_rate DECIMAL(6, 3)
+    );
+
+  -- Every referenced bank must belong to the current user
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'transactions', '[]'::jsonb)) AS r(bank_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.bank_id AND b.user_id = v_user_id)
+  ) OR EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'transfers', '[]'::jsonb)) AS r(from_bank_id UUID, to_bank_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.from_bank_id AND b.user_id = v_user_id)
+       OR NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.to_bank_id AND b.user_id = v_user_id)
+  ) THEN
+    RAISE EXCEPTION 'Backup references a bank account that does not exist';
+  END IF;
+
+  INSERT INTO public.transactions (id, user_id, bank_id, type, amount, date, category, notes, person_name)
+  SELECT r.id, v_user_id, r.bank_id, r.type, r.amount, r.date, r.category, r.notes, r.person_name
+  FROM jsonb_to_recordset(COALESCE(p_payload->'transactions', '[]'::jsonb))
+    AS r(id UUID, bank_id UUID, type TEXT, amount DECIMAL(15, 2), date DATE, category TEXT, notes TEXT, person_name TEXT);
+
+  INSERT INTO public.transfers (id, user_id, from_bank_id, to_bank_id, amount, date, notes, is_card_payment)
+  SELECT r.id, v_user_id, r.from_bank_id, r.to_bank_id, r.amount, r.date, r.notes, COALESCE(r.is_card_payment, false)
+  FROM jsonb_to_recordset(COALESCE(p_payload->'transfers', '[]'::jsonb))
+    AS r(id UUID, from_bank_id UUID, to_bank_id UUID, amount DECIMAL(15, 2), date DATE, notes TEXT, is_card_payment BOOLEAN);
+
+  INSERT INTO public.credits (
+    id, user_id, person_name, amount, type, description, date, due_date, remind_days_before, remind_every_days
+  )
+  SELECT
+    r.id, v_user_id, r.person_name, r.amount, r.type, r.description, r.date, r.due_date, r.remind_days_before,
+    r.remind_every_days
+  FROM jsonb_to_recordset(COALESCE(p_payload->'credits', '[]'::jsonb))
+    AS r(
+      id UUID, person_name TEXT, amount NUMERIC, type TEXT, description TEXT, date DATE, due_date DATE,
+      remind_days_before INTEGER, remind_every_days INTEGER
+    );
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'credit_payments', '[]'::jsonb)) AS r(credit_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.credits c WHERE c.id = r.credit_id AND c.user_id = v_user_id)
+  ) THEN
+    RAISE EXCEPTION 'Backup references a credit that does not exist';
+  END IF;
+
+  INSERT INTO public.credit_payments (id, user_id, credit_id, amount, date, note)
+  SELECT r.id, v_user_id, r.credit_id, r.amount, r.date, r.note
+  FROM jsonb_to_recordset(COALESCE(p_payload->'credit_payments', '[]'::jsonb))
+    AS r(id UUID, credit_id UUID, amount DECIMAL(15, 2), date DATE, note TEXT);
+END;
+$function$;
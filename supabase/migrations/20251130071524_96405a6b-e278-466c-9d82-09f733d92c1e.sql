@@ -0,0 +1,608 @@
+-- Accounts can hold other currencies. Every amount stays in the currency of the account it
+-- belongs to, so balances are never mixed; totals across accounts are converted into a base
+-- currency using exchange rates the user keeps themselves.
+ALTER TABLE public.banks
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'INR' CHECK (currency ~ '^[A-Z]{3}$');
+
+-- One unit of from_currency is worth rate units of to_currency on the given date
+CREATE TABLE public.exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  from_currency TEXT NOT NULL CHECK (from_currency ~ '^[A-Z]{3}$'),
+  to_currency TEXT NOT NULL CHECK (to_currency ~ '^[A-Z]{3}$'),
+  rate DECIMAL(20, 10) NOT NULL CHECK (rate > 0),
+  date DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (from_currency <> to_currency),
+  UNIQUE (user_id, from_currency, to_currency, date)
+);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own exchange rates"
+  ON public.exchange_rates FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own exchange rates"
+  ON public.exchange_rates FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own exchange rates"
+  ON public.exchange_rates FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own exchange rates"
+  ON public.exchange_rates FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_exchange_rates_updated_at
+  BEFORE UPDATE ON public.exchange_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A purchase made abroad keeps what was charged in the account's currency as its amount, and
+-- what the merchant asked for as the original
+ALTER TABLE public.transactions
+  ADD COLUMN original_amount DECIMAL(15, 2) CHECK (original_amount > 0),
+  ADD COLUMN original_currency TEXT CHECK (original_currency ~ '^[A-Z]{3}$'),
+  ADD CONSTRAINT transactions_original_pair CHECK ((original_amount IS NULL) = (original_currency IS NULL));
+
+-- Between accounts in different currencies, amount leaves the source account and to_amount
+-- arrives in the destination. It is null when both accounts share a currency.
+ALTER TABLE public.transfers
+  ADD COLUMN to_amount DECIMAL(15, 2) CHECK (to_amount > 0);
+
+-- The rate converting p_from into p_to on p_on: the latest rate on or before that day, or the
+-- earliest one after it if there is nothing older. A rate entered the other way round is inverted.
+CREATE OR REPLACE FUNCTION public.exchange_rate(p_from TEXT, p_to TEXT, p_on DATE)
+RETURNS DECIMAL
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+  SELECT CASE
+    WHEN p_from = p_to THEN 1
+    ELSE (
+      SELECT CASE WHEN r.from_currency = p_from THEN r.rate ELSE 1 / r.rate END
+      FROM public.exchange_rates r
+      WHERE r.user_id = auth.uid()
+        AND ((r.from_currency = p_from AND r.to_currency = p_to) OR (r.from_currency = p_to AND r.to_currency = p_from))
+      ORDER BY r.date > p_on, abs(r.date - p_on), r.from_currency = p_from DESC
+      LIMIT 1
+    )
+  END;
+$function$;
+
+DROP FUNCTION IF EXISTS public.save_transaction(UUID, TEXT, DECIMAL, DATE, TEXT, TEXT, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.save_transaction(
+  p_bank_id UUID,
+  p_type TEXT,
+  p_amount DECIMAL(15, 2),
+  p_date DATE,
+  p_category TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_person_name TEXT DEFAULT NULL,
+  p_id UUID DEFAULT NULL,
+  p_original_amount DECIMAL(15, 2) DEFAULT NULL,
+  p_original_currency TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_old public.transactions;
+  v_new public.transactions;
+  v_currency TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_type NOT IN ('income', 'expense') THEN
+    RAISE EXCEPTION 'Invalid transaction type: %', p_type;
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero';
+  END IF;
+
+  -- Lock the target bank row so concurrent writers queue up behind us
+  SELECT currency INTO v_currency FROM public.banks WHERE id = p_bank_id AND user_id = v_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank account not found';
+  END IF;
+
+  -- An original amount in the account's own currency says nothing the amount doesn't
+  IF p_original_currency = v_currency THEN
+    p_original_amount := NULL;
+    p_original_currency := NULL;
+  ELSIF (p_original_amount IS NULL) <> (p_original_currency IS NULL) THEN
+    RAISE EXCEPTION 'Enter both the original amount and its currency';
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO public.transactions (
+      user_id, bank_id, type, amount, date, category, notes, person_name, original_amount, original_currency
+    )
+    VALUES (
+      v_user_id, p_bank_id, p_type, p_amount, p_date, p_category, p_notes, p_person_name, p_original_amount,
+      p_original_currency
+    )
+    RETURNING * INTO v_new;
+  ELSE
+    SELECT * INTO v_old
+    FROM public.transactions
+    WHERE id = p_id AND user_id = v_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Transaction not found';
+    END IF;
+
+    -- Reverse the old transaction effect on the bank it was recorded against
+    UPDATE public.banks
+    SET balance = COALESCE(balance, 0)
+      - CASE WHEN v_old.type = 'income' THEN v_old.amount ELSE -v_old.amount END
+    WHERE id = v_old.bank_id;
+
+    UPDATE public.transactions
+    SET bank_id = p_bank_id,
+        type = p_type,
+        amount = p_amount,
+        date = p_date,
+        category = p_category,
+        notes = p_notes,
+        person_name = p_person_name,
+        original_amount = p_original_amount,
+        original_currency = p_original_currency
+    WHERE id = p_id
+    RETURNING * INTO v_new;
+  END IF;
+
+  -- Apply the new transaction effect
+  UPDATE public.banks
+  SET balance = COALESCE(balance, 0)
+    + CASE WHEN v_new.type = 'income' THEN v_new.amount ELSE -v_new.amount END
+  WHERE id = v_new.bank_id;
+
+  RETURN v_new.id;
+END;
+$function$;
+
+DROP FUNCTION IF EXISTS public.save_transfer(UUID, UUID, DECIMAL, DATE, TEXT, UUID, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.save_transfer(
+  p_from_bank_id UUID,
+  p_to_bank_id UUID,
+  p_amount DECIMAL(15, 2),
+  p_date DATE,
+  p_notes TEXT DEFAULT NULL,
+  p_id UUID DEFAULT NULL,
+  p_is_card_payment BOOLEAN DEFAULT false,
+  p_to_amount DECIMAL(15, 2) DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_old public.transfers;
+  v_bank_count INTEGER;
+  v_transfer_id UUID;
+  v_from_currency TEXT;
+  v_to_currency TEXT;
+  v_to_amount DECIMAL(15, 2);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_from_bank_id = p_to_bank_id THEN
+    RAISE EXCEPTION 'Cannot transfer to the same account';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero';
+  END IF;
+
+  IF p_id IS NOT NULL THEN
+    SELECT * INTO v_old
+    FROM public.transfers
+    WHERE id = p_id AND user_id = v_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Transfer not found';
+    END IF;
+  END IF;
+
+  -- Lock every bank involved (old and new) in a stable order to avoid deadlocks
+  PERFORM 1
+  FROM public.banks
+  WHERE user_id = v_user_id
+    AND id IN (p_from_bank_id, p_to_bank_id, v_old.from_bank_id, v_old.to_bank_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT count(*) INTO v_bank_count
+  FROM public.banks
+  WHERE user_id = v_user_id AND id IN (p_from_bank_id, p_to_bank_id);
+
+  IF v_bank_count <> 2 THEN
+    RAISE EXCEPTION 'Bank account not found';
+  END IF;
+
+  SELECT currency INTO v_from_currency FROM public.banks WHERE id = p_from_bank_id;
+  SELECT currency INTO v_to_currency FROM public.banks WHERE id = p_to_bank_id;
+
+  -- Between currencies both sides of the exchange are recorded; otherwise they are the same amount
+  IF v_from_currency <> v_to_currency THEN
+    IF p_to_amount IS NULL OR p_to_amount <= 0 THEN
+      RAISE EXCEPTION 'Enter the amount received in %', v_to_currency;
+    END IF;
+    v_to_amount := p_to_amount;
+  END IF;
+
+  -- A bill is paid into a credit card from an account holding money, not from another card or loan
+  IF COALESCE(p_is_card_payment, false) THEN
+    IF NOT EXISTS (SELECT 1 FROM public.banks WHERE id = p_to_bank_id AND account_type = 'credit_card') THEN
+      RAISE EXCEPTION 'A card bill payment must go to a credit card';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.banks WHERE id = p_from_bank_id AND account_type IN ('credit_card', 'loan')) THEN
+      RAISE EXCEPTION 'A card bill payment must come from a bank, cash or investment account';
+    END IF;
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO public.transfers (user_id, from_bank_id, to_bank_id, amount, to_amount, date, notes, is_card_payment)
+    VALUES (v_user_id, p_from_bank_id, p_to_bank_id, p_amount, v_to_amount, p_date, p_notes, COALESCE(p_is_card_payment, false))
+    RETURNING id INTO v_transfer_id;
+  ELSE
+    -- Reverse the old transfer's balance changes
+    UPDATE public.banks SET balance = COALESCE(balance, 0) + v_old.amount WHERE id = v_old.from_bank_id;
+    UPDATE public.banks SET balance = COALESCE(balance, 0) - COALESCE(v_old.to_amount, v_old.amount) WHERE id = v_old.to_bank_id;
+
+    UPDATE public.transfers
+    SET from_bank_id = p_from_bank_id,
+        to_bank_id = p_to_bank_id,
+        amount = p_amount,
+        to_amount = v_to_amount,
+        date = p_date,
+        notes = p_notes,
+        is_card_payment = COALESCE(p_is_card_payment, false)
+    WHERE id = p_id
+    RETURNING id INTO v_transfer_id;
+  END IF;
+
+  -- Apply the new transfer's balance changes
+  UPDATE public.banks SET balance = COALESCE(balance, 0) - p_amount WHERE id = p_from_bank_id;
+  UPDATE public.banks SET balance = COALESCE(balance, 0) + COALESCE(v_to_amount, p_amount) WHERE id = p_to_bank_id;
+
+  RETURN v_transfer_id;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.delete_transfer(p_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_old public.transfers;
+BEGIN
+  DELETE FROM public.transfers
+  WHERE id = p_id AND user_id = auth.uid()
+  RETURNING * INTO v_old;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  UPDATE public.banks SET balance = COALESCE(balance, 0) + v_old.amount WHERE id = v_old.from_bank_id;
+  UPDATE public.banks SET balance = COALESCE(balance, 0) - COALESCE(v_old.to_amount, v_old.amount) WHERE id = v_old.to_bank_id;
+END;
+$function$;
+
+-- Money arriving through a cross-currency transfer is counted in the receiving account's currency
+CREATE OR REPLACE VIEW public.bank_ledger_balances
+WITH (security_invoker = true) AS
+SELECT
+  b.id AS bank_id,
+  b.user_id,
+  b.name,
+  b.opening_balance,
+  COALESCE(b.balance, 0) AS stored_balance,
+  b.opening_balance
+    + COALESCE(t.net, 0)
+    - COALESCE(tout.total, 0)
+    + COALESCE(tin.total, 0) AS computed_balance,
+  COALESCE(b.balance, 0) - (
+    b.opening_balance
+      + COALESCE(t.net, 0)
+      - COALESCE(tout.total, 0)
+      + COALESCE(tin.total, 0)
+  ) AS difference
+FROM public.banks b
+LEFT JOIN (
+  SELECT bank_id, SUM(CASE WHEN type = 'income' THEN amount ELSE -amount END) AS net
+  FROM public.transactions
+  GROUP BY bank_id
+) t ON t.bank_id = b.id
+LEFT JOIN (
+  SELECT from_bank_id, SUM(amount) AS total
+  FROM public.transfers
+  GROUP BY from_bank_id
+) tout ON tout.from_bank_id = b.id
+LEFT JOIN (
+  SELECT to_bank_id, SUM(COALESCE(to_amount, amount)) AS total
+  FROM public.transfers
+  GROUP BY to_bank_id
+) tin ON tin.to_bank_id = b.id;
+
+-- Bill payments sent from an account in another currency count at the amount that reached the card
+CREATE OR REPLACE FUNCTION public.card_statements(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  bank_id UUID,
+  period_start DATE,
+  statement_date DATE,
+  due_date DATE,
+  statement_balance DECIMAL(15, 2),
+  paid DECIMAL(15, 2),
+  amount_due DECIMAL(15, 2),
+  minimum_due DECIMAL(15, 2),
+  unbilled DECIMAL(15, 2)
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+  WITH cards AS (
+    SELECT
+      b.id,
+      b.opening_balance,
+      b.payment_due_days,
+      b.statement_day,
+      CASE
+        WHEN public.statement_date_in_month(b.statement_day, p_as_of) <= p_as_of
+          THEN public.statement_date_in_month(b.statement_day, p_as_of)
+        ELSE public.statement_date_in_month(b.statement_day, (p_as_of - INTERVAL '1 month')::date)
+      END AS statement_date
+    FROM public.banks b
+    WHERE b.user_id = auth.uid()
+      AND b.account_type = 'credit_card'
+      AND b.statement_day IS NOT NULL
+  ),
+  -- Every movement on a card, signed the way it moves the balance
+  movements AS (
+    SELECT t.bank_id, t.date, CASE WHEN t.type = 'income' THEN t.amount ELSE -t.amount END AS amount, false AS is_payment
+    FROM public.transactions t
+    JOIN cards c ON c.id = t.bank_id
+    UNION ALL
+    SELECT tr.to_bank_id, tr.date, COALESCE(tr.to_amount, tr.amount), tr.is_card_payment
+    FROM public.transfers tr
+    JOIN cards c ON c.id = tr.to_bank_id
+    UNION ALL
+    SELECT tr.from_bank_id, tr.date, -tr.amount, false
+    FROM public.transfers tr
+    JOIN cards c ON c.id = tr.from_bank_id
+  ),
+  totals AS (
+    SELECT
+      c.id,
+      c.statement_date,
+      c.statement_day,
+      c.payment_due_days,
+      GREATEST(0, -(c.opening_balance + COALESCE(SUM(m.amount) FILTER (WHERE m.date <= c.statement_date), 0)))
+        AS statement_balance,
+      COALESCE(SUM(m.amount) FILTER (WHERE m.date > c.statement_date AND m.date <= p_as_of AND m.is_payment), 0) AS paid,
+      GREATEST(0, -COALESCE(SUM(m.amount) FILTER (WHERE m.date > c.statement_date AND m.date <= p_as_of AND NOT m.is_payment), 0))
+        AS unbilled
+    FROM cards c
+    LEFT JOIN movements m ON m.bank_id = c.id
+    GROUP BY c.id, c.statement_date, c.statement_day, c.payment_due_days, c.opening_balance
+  )
+  SELECT
+    t.id,
+    public.statement_date_in_month(t.statement_day, (t.statement_date - INTERVAL '1 month')::date) + 1,
+    t.statement_date,
+    t.statement_date + t.payment_due_days,
+    t.statement_balance,
+    t.paid,
+    GREATEST(0, t.statement_balance - t.paid),
+    GREATEST(0, LEAST(t.statement_balance, GREATEST(200, ROUND(t.statement_balance * 0.05, 2))) - t.paid),
+    t.unbilled
+  FROM totals t;
+$function$;
+
+-- Totals can be converted into a base currency. Transactions with no usable rate are left out
+-- of the total and counted in unconverted, so the caller can say the figure is incomplete.
+DROP FUNCTION IF EXISTS public.transaction_totals(TEXT, BOOLEAN, DATE, DATE, TEXT[], UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.transaction_totals(
+  p_period TEXT DEFAULT 'all',
+  p_by_category BOOLEAN DEFAULT false,
+  p_from DATE DEFAULT NULL,
+  p_to DATE DEFAULT NULL,
+  p_categories TEXT[] DEFAULT NULL,
+  p_bank_id UUID DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_base_currency TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  period DATE,
+  category TEXT,
+  type TEXT,
+  total DECIMAL(15, 2),
+  count BIGINT,
+  unconverted BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_period NOT IN ('all', 'month', 'day') THEN
+    RAISE EXCEPTION 'Unknown period %', p_period;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    CASE p_period
+      WHEN 'month' THEN date_trunc('month', t.date)::DATE
+      WHEN 'day' THEN t.date
+    END AS period,
+    CASE WHEN p_by_category THEN t.category END AS category,
+    t.type,
+    COALESCE(SUM(round(t.amount * x.rate, 2)), 0)::DECIMAL(15, 2) AS total,
+    COUNT(*) AS count,
+    COUNT(*) FILTER (WHERE x.rate IS NULL) AS unconverted
+  FROM public.transactions t
+  JOIN public.banks b ON b.id = t.bank_id
+  -- Each transaction is converted at the rate for its own date and rounded to cents before it is summed, as
+  -- money.ts does; without a base currency amounts are summed as-is
+  CROSS JOIN LATERAL (
+    SELECT CASE WHEN p_base_currency IS NULL THEN 1 ELSE public.exchange_rate(b.currency, p_base_currency, t.date) END
+      AS rate
+  ) x
+  WHERE t.user_id = v_user_id
+    AND (p_from IS NULL OR t.date >= p_from)
+    AND (p_to IS NULL OR t.date <= p_to)
+    AND (p_categories IS NULL OR t.category = ANY(p_categories))
+    AND (p_bank_id IS NULL OR t.bank_id = p_bank_id)
+    AND (p_type IS NULL OR t.type = p_type)
+    AND (
+      NULLIF(btrim(p_search), '') IS NULL
+      OR t.category ILIKE '%' || btrim(p_search) || '%'
+      OR t.notes ILIKE '%' || btrim(p_search) || '%'
+      OR t.person_name ILIKE '%' || btrim(p_search) || '%'
+    )
+  GROUP BY 1, 2, 3
+  ORDER BY 1, 2, 3;
+END;
+$function$;
+
+-- Backups now carry currencies, original amounts, both sides of a transfer and exchange rates
+CREATE OR REPLACE FUNCTION public.restore_backup(p_payload JSONB, p_replace BOOLEAN DEFAULT false)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_replace THEN
+    DELETE FROM public.transfers WHERE user_id = v_user_id;
+    DELETE FROM public.transactions WHERE user_id = v_user_id;
+    DELETE FROM public.credits WHERE user_id = v_user_id;
+    DELETE FROM public.banks WHERE user_id = v_user_id;
+    DELETE FROM public.exchange_rates WHERE user_id = v_user_id;
+  END IF;
+
+  INSERT INTO public.banks (
+    id, user_id, name, balance, opening_balance, color, created_at, account_type, institution,
+    account_number_last4, credit_limit, statement_day, payment_due_days, interest_rate, currency
+  )
+  SELECT
+    r.id, v_user_id, r.name, r.balance, COALESCE(r.opening_balance, 0), COALESCE(r.color, '#3b82f6'),
+    COALESCE(r.created_at, now()), COALESCE(r.account_type, 'savings'), r.institution, r.account_number_last4,
+    r.credit_limit, r.statement_day, r.payment_due_days, r.interest_rate, COALESCE(r.currency, 'INR')
+  FROM jsonb_to_recordset(COALESCE(p_payload->'banks', '[]'::jsonb))
+    AS r(
+      id UUID, name TEXT, balance DECIMAL(15, 2), opening_balance DECIMAL(15, 2), color TEXT, created_at TIMESTAMPTZ,
+      account_type TEXT, institution TEXT, account_number_last4 TEXT, credit_limit DECIMAL(15, 2),
+      statement_day INTEGER, payment_due_days INTEGER, interest_rate DECIMAL(6, 3), currency TEXT
+    );
+
+  -- Every referenced bank must belong to the current user
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'transactions', '[]'::jsonb)) AS r(bank_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.bank_id AND b.user_id = v_user_id)
+  ) OR EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'transfers', '[]'::jsonb)) AS r(from_bank_id UUID, to_bank_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.from_bank_id AND b.user_id = v_user_id)
+       OR NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.to_bank_id AND b.user_id = v_user_id)
+  ) THEN
+    RAISE EXCEPTION 'Backup references a bank account that does not exist';
+  END IF;
+
+  INSERT INTO public.transactions (
+    id, user_id, bank_id, type, amount, date, category, notes, person_name, original_amount, original_currency
+  )
+  SELECT
+    r.id, v_user_id, r.bank_id, r.type, r.amount, r.date, r.category, r.notes, r.person_name, r.original_amount,
+    r.original_currency
+  FROM jsonb_to_recordset(COALESCE(p_payload->'transactions', '[]'::jsonb))
+    AS r(
+      id UUID, bank_id UUID, type TEXT, amount DECIMAL(15, 2), date DATE, category TEXT, notes TEXT, person_name TEXT,
+      original_amount DECIMAL(15, 2), original_currency TEXT
+    );
+
+  INSERT INTO public.transfers (id, user_id, from_bank_id, to_bank_id, amount, to_amount, date, notes, is_card_payment)
+  SELECT
+    r.id, v_user_id, r.from_bank_id, r.to_bank_id, r.amount, r.to_amount, r.date, r.notes,
+    COALESCE(r.is_card_payment, false)
+  FROM jsonb_to_recordset(COALESCE(p_payload->'transfers', '[]'::jsonb))
+    AS r(
+      id UUID, from_bank_id UUID, to_bank_id UUID, amount DECIMAL(15, 2), to_amount DECIMAL(15, 2), date DATE,
+      notes TEXT, is_card_payment BOOLEAN
+    );
+
+  INSERT INTO public.credits (
+    id, user_id, person_name, amount, type, description, date, due_date, remind_days_before, remind_every_days
+  )
+  SELECT
+    r.id, v_user_id, r.person_name, r.amount, r.type, r.description, r.date, r.due_date, r.remind_days_before,
+    r.remind_every_days
+  FROM jsonb_to_recordset(COALESCE(p_payload->'credits', '[]'::jsonb))
+    AS r(
+      id UUID, person_name TEXT, amount NUMERIC, type TEXT, description TEXT, date DATE, due_date DATE,
+      remind_days_before INTEGER, remind_every_days INTEGER
+    );
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'credit_payments', '[]'::jsonb)) AS r(credit_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.credits c WHERE c.id = r.credit_id AND c.user_id = v_user_id)
+  ) THEN
+    RAISE EXCEPTION 'Backup references a credit that does not exist';
+  END IF;
+
+  INSERT INTO public.credit_payments (id, user_id, credit_id, amount, date, note)
+  SELECT r.id, v_user_id, r.credit_id, r.amount, r.date, r.note
+  FROM jsonb_to_recordset(COALESCE(p_payload->'credit_payments', '[]'::jsonb))
+    AS r(id UUID, credit_id UUID, amount DECIMAL(15, 2), date DATE, note TEXT);
+
+  -- A rate already held for the same pair and day is kept
+  INSERT INTO public.exchange_rates (user_id, from_currency, to_currency, rate, date)
+  SELECT v_user_id, r.from_currency, r.to_currency, r.rate, r.date
+  FROM jsonb_to_recordset(COALESCE(p_payload->'exchange_rates', '[]'::jsonb))
+    AS r(from_currency TEXT, to_currency TEXT, rate DECIMAL(20, 10), date DATE)
+  ON CONFLICT (user_id, from_currency, to_currency, date) DO NOTHING;
+END;
+$function$;
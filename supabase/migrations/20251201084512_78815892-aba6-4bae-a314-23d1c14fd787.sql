@@ -0,0 +1,192 @@
+-- Backups now carry categories, budgets, people and recurring schedules. Replacing data deletes the
+-- banks, which takes their schedules with them, so those have to come back from the backup too.
+-- Categories, budgets and people are only replaced when the backup has them, so older files leave
+-- the current ones in place. Merging matches categories by type and name and people by name.
+CREATE OR REPLACE FUNCTION public.restore_backup(p_payload JSONB, p_replace BOOLEAN DEFAULT false)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_replace THEN
+    DELETE FROM public.transfers WHERE user_id = v_user_id;
+    DELETE FROM public.transactions WHERE user_id = v_user_id;
+    DELETE FROM public.recurring_transactions WHERE user_id = v_user_id;
+    DELETE FROM public.credits WHERE user_id = v_user_id;
+    DELETE FROM public.banks WHERE user_id = v_user_id;
+    DELETE FROM public.exchange_rates WHERE user_id = v_user_id;
+
+    IF p_payload ? 'budgets' THEN
+      DELETE FROM public.budgets WHERE user_id = v_user_id;
+    END IF;
+
+    IF p_payload ? 'categories' THEN
+      DELETE FROM public.categories WHERE user_id = v_user_id;
+    END IF;
+
+    IF p_payload ? 'people' THEN
+      DELETE FROM public.people WHERE user_id = v_user_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.banks (
+    id, user_id, name, balance, opening_balance, color, created_at, account_type, institution,
+    account_number_last4, credit_limit, statement_day, payment_due_days, interest_rate, currency
+  )
+  SELECT
+    r.id, v_user_id, r.name, r.balance, COALESCE(r.opening_balance, 0), COALESCE(r.color, '#3b82f6'),
+    COALESCE(r.created_at, now()), COALESCE(r.account_type, 'savings'), r.institution, r.account_number_last4,
+    r.credit_limit, r.statement_day, r.payment_due_days, r.interest_rate, COALESCE(r.currency, 'INR')
+  FROM jsonb_to_recordset(COALESCE(p_payload->'banks', '[]'::jsonb))
+    AS r(
+      id UUID, name TEXT, balance DECIMAL(15, 2), opening_balance DECIMAL(15, 2), color TEXT, created_at TIMESTAMPTZ,
+      account_type TEXT, institution TEXT, account_number_last4 TEXT, credit_limit DECIMAL(15, 2),
+      statement_day INTEGER, payment_due_days INTEGER, interest_rate DECIMAL(6, 3), currency TEXT
+    );
+
+  -- People go in before anything that names them, so the name trigger finds them instead of adding bare ones
+  INSERT INTO public.people (id, user_id, name, phone, email, notes, aliases)
+  SELECT r.id, v_user_id, r.name, r.phone, r.email, r.notes, COALESCE(r.aliases, '{}')
+  FROM jsonb_to_recordset(COALESCE(p_payload->'people', '[]'::jsonb))
+    AS r(id UUID, name TEXT, phone TEXT, email TEXT, notes TEXT, aliases TEXT[])
+  ON CONFLICT DO NOTHING;
+
+  -- Top-level categories first, then sub-categories under whichever parent now has that type and name
+  INSERT INTO public.categories (id, user_id, name, type, icon, color, is_archived)
+  SELECT
+    r.id, v_user_id, r.name, r.type, COALESCE(r.icon, 'MoreHorizontal'), COALESCE(r.color, '#64748b'),
+    COALESCE(r.is_archived, false)
+  FROM jsonb_to_recordset(COALESCE(p_payload->'categories', '[]'::jsonb))
+    AS r(id UUID, name TEXT, type TEXT, icon TEXT, color TEXT, is_archived BOOLEAN, parent_id UUID)
+  WHERE r.parent_id IS NULL
+  ON CONFLICT (user_id, type, name) DO NOTHING;
+
+  INSERT INTO public.categories (id, user_id, name, type, icon, color, is_archived, parent_id)
+  SELECT
+    r.id, v_user_id, r.name, r.type, COALESCE(r.icon, 'MoreHorizontal'), COALESCE(r.color, '#64748b'),
+    COALESCE(r.is_archived, false), parent.id
+  FROM jsonb_to_recordset(COALESCE(p_payload->'categories', '[]'::jsonb))
+    AS r(id UUID, name TEXT, type TEXT, icon TEXT, color TEXT, is_archived BOOLEAN, parent_id UUID)
+  LEFT JOIN jsonb_to_recordset(COALESCE(p_payload->'categories', '[]'::jsonb))
+    AS p(id UUID, name TEXT, type TEXT) ON p.id = r.parent_id
+  LEFT JOIN public.categories parent
+    ON parent.user_id = v_user_id AND parent.type = p.type AND parent.name = p.name AND parent.parent_id IS NULL
+  WHERE r.parent_id IS NOT NULL
+  ON CONFLICT (user_id, type, name) DO NOTHING;
+
+  -- A budget already set for the same category and month is kept
+  INSERT INTO public.budgets (id, user_id, category_id, amount, month, is_recurring, rollover)
+  SELECT r.id, v_user_id, cat.id, r.amount, r.month, COALESCE(r.is_recurring, true), COALESCE(r.rollover, false)
+  FROM jsonb_to_recordset(COALESCE(p_payload->'budgets', '[]'::jsonb))
+    AS r(id UUID, category_id UUID, amount DECIMAL(15, 2), month DATE, is_recurring BOOLEAN, rollover BOOLEAN)
+  JOIN jsonb_to_recordset(COALESCE(p_payload->'categories', '[]'::jsonb))
+    AS c(id UUID, name TEXT, type TEXT) ON c.id = r.category_id
+  JOIN public.categories cat ON cat.user_id = v_user_id AND cat.type = c.type AND cat.name = c.name
+  ON CONFLICT (user_id, category_id, month, is_recurring) DO NOTHING;
+
+  -- Every referenced bank must belong to the current user
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'transactions', '[]'::jsonb)) AS r(bank_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.bank_id AND b.user_id = v_user_id)
+  ) OR EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'transfers', '[]'::jsonb)) AS r(from_bank_id UUID, to_bank_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.from_bank_id AND b.user_id = v_user_id)
+       OR NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.to_bank_id AND b.user_id = v_user_id)
+  ) OR EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'recurring_transactions', '[]'::jsonb)) AS r(bank_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.banks b WHERE b.id = r.bank_id AND b.user_id = v_user_id)
+  ) THEN
+    RAISE EXCEPTION 'Backup references a bank account that does not exist';
+  END IF;
+
+  INSERT INTO public.recurring_transactions (
+    id, user_id, bank_id, type, amount, category, notes, person_name, frequency, day_of_month, start_date,
+    end_date, next_run_date, last_run_date, is_active
+  )
+  SELECT
+    r.id, v_user_id, r.bank_id, r.type, r.amount, r.category, r.notes, r.person_name, r.frequency, r.day_of_month,
+    r.start_date, r.end_date, r.next_run_date, r.last_run_date, COALESCE(r.is_active, true)
+  FROM jsonb_to_recordset(COALESCE(p_payload->'recurring_transactions', '[]'::jsonb))
+    AS r(
+      id UUID, bank_id UUID, type TEXT, amount DECIMAL(15, 2), category TEXT, notes TEXT, person_name TEXT,
+      frequency TEXT, day_of_month INTEGER, start_date DATE, end_date DATE, next_run_date DATE, last_run_date DATE,
+      is_active BOOLEAN
+    );
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'transactions', '[]'::jsonb)) AS r(recurring_transaction_id UUID)
+    WHERE r.recurring_transaction_id IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.recurring_transactions s WHERE s.id = r.recurring_transaction_id AND s.user_id = v_user_id
+      )
+  ) THEN
+    RAISE EXCEPTION 'Backup references a recurring transaction that does not exist';
+  END IF;
+
+  INSERT INTO public.transactions (
+    id, user_id, bank_id, type, amount, date, category, notes, person_name, original_amount, original_currency,
+    recurring_transaction_id
+  )
+  SELECT
+    r.id, v_user_id, r.bank_id, r.type, r.amount, r.date, r.category, r.notes, r.person_name, r.original_amount,
+    r.original_currency, r.recurring_transaction_id
+  FROM jsonb_to_recordset(COALESCE(p_payload->'transactions', '[]'::jsonb))
+    AS r(
+      id UUID, bank_id UUID, type TEXT, amount DECIMAL(15, 2), date DATE, category TEXT, notes TEXT, person_name TEXT,
+      original_amount DECIMAL(15, 2), original_currency TEXT, recurring_transaction_id UUID
+    );
+
+  INSERT INTO public.transfers (id, user_id, from_bank_id, to_bank_id, amount, to_amount, date, notes, is_card_payment)
+  SELECT
+    r.id, v_user_id, r.from_bank_id, r.to_bank_id, r.amount, r.to_amount, r.date, r.notes,
+    COALESCE(r.is_card_payment, false)
+  FROM jsonb_to_recordset(COALESCE(p_payload->'transfers', '[]'::jsonb))
+    AS r(
+      id UUID, from_bank_id UUID, to_bank_id UUID, amount DECIMAL(15, 2), to_amount DECIMAL(15, 2), date DATE,
+      notes TEXT, is_card_payment BOOLEAN
+    );
+
+  INSERT INTO public.credits (
+    id, user_id, person_name, amount, type, description, date, due_date, remind_days_before, remind_every_days
+  )
+  SELECT
+    r.id, v_user_id, r.person_name, r.amount, r.type, r.description, r.date, r.due_date, r.remind_days_before,
+    r.remind_every_days
+  FROM jsonb_to_recordset(COALESCE(p_payload->'credits', '[]'::jsonb))
+    AS r(
+      id UUID, person_name TEXT, amount NUMERIC, type TEXT, description TEXT, date DATE, due_date DATE,
+      remind_days_before INTEGER, remind_every_days INTEGER
+    );
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_payload->'credit_payments', '[]'::jsonb)) AS r(credit_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM public.credits c WHERE c.id = r.credit_id AND c.user_id = v_user_id)
+  ) THEN
+    RAISE EXCEPTION 'Backup references a credit that does not exist';
+  END IF;
+
+  INSERT INTO public.credit_payments (id, user_id, credit_id, amount, date, note)
+  SELECT r.id, v_user_id, r.credit_id, r.amount, r.date, r.note
+  FROM jsonb_to_recordset(COALESCE(p_payload->'credit_payments', '[]'::jsonb))
+    AS r(id UUID, credit_id UUID, amount DECIMAL(15, 2), date DATE, note TEXT);
+
+  -- A rate already held for the same pair and day is kept
+  INSERT INTO public.exchange_rates (user_id, from_currency, to_currency, rate, date)
+  SELECT v_user_id, r.from_currency, r.to_currency, r.rate, r.date
+  FROM jsonb_to_recordset(COALESCE(p_payload->'exchange_rates', '[]'::jsonb))
+    AS r(from_currency TEXT, to_currency TEXT, rate DECIMAL(20, 10), date DATE)
+  ON CONFLICT (user_id, from_currency, to_currency, date) DO NOTHING;
+END;
+$function$;
@@ -0,0 +1,396 @@
+-- Creating a transaction, transfer, credit or split expense can take an id chosen by the app up
+-- front. A change saved offline keeps that id, so when an earlier attempt reached the server but
+-- its response was lost, sending it again finds the saved row and changes nothing.
+DROP FUNCTION IF EXISTS public.save_transaction(UUID, TEXT, DECIMAL, DATE, TEXT, TEXT, TEXT, UUID, DECIMAL, TEXT);
+
+CREATE OR REPLACE FUNCTION public.save_transaction(
+  p_bank_id UUID,
+  p_type TEXT,
+  p_amount DECIMAL(15, 2),
+  p_date DATE,
+  p_category TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_person_name TEXT DEFAULT NULL,
+  p_id UUID DEFAULT NULL,
+  p_original_amount DECIMAL(15, 2) DEFAULT NULL,
+  p_original_currency TEXT DEFAULT NULL,
+  p_new_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_old public.transactions;
+  v_new public.transactions;
+  v_currency TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_type NOT IN ('income', 'expense') THEN
+    RAISE EXCEPTION 'Invalid transaction type: %', p_type;
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero';
+  END IF;
+
+  -- Lock the target bank row so concurrent writers queue up behind us
+  SELECT currency INTO v_currency FROM public.banks WHERE id = p_bank_id AND user_id = v_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank account not found';
+  END IF;
+
+  -- An original amount in the account's own currency says nothing the amount doesn't
+  IF p_original_currency = v_currency THEN
+    p_original_amount := NULL;
+    p_original_currency := NULL;
+  ELSIF (p_original_amount IS NULL) <> (p_original_currency IS NULL) THEN
+    RAISE EXCEPTION 'Enter both the original amount and its currency';
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO public.transactions (
+      id, user_id, bank_id, type, amount, date, category, notes, person_name, original_amount, original_currency
+    )
+    VALUES (
+      COALESCE(p_new_id, gen_random_uuid()), v_user_id, p_bank_id, p_type, p_amount, p_date, p_category, p_notes,
+      p_person_name, p_original_amount, p_original_currency
+    )
+    ON CONFLICT (id) DO NOTHING
+    RETURNING * INTO v_new;
+
+    -- Already saved by an earlier attempt whose response never arrived
+    IF NOT FOUND THEN
+      RETURN p_new_id;
+    END IF;
+  ELSE
+    SELECT * INTO v_old
+    FROM public.transactions
+    WHERE id = p_id AND user_id = v_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Transaction not found';
+    END IF;
+
+    -- Reverse the old transaction effect on the bank it was recorded against
+    UPDATE public.banks
+    SET balance = COALESCE(balance, 0)
+      - CASE WHEN v_old.type = 'income' THEN v_old.amount ELSE -v_old.amount END
+    WHERE id = v_old.bank_id;
+
+    UPDATE public.transactions
+    SET bank_id = p_bank_id,
+        type = p_type,
+        amount = p_amount,
+        date = p_date,
+        category = p_category,
+        notes = p_notes,
+        person_name = p_person_name,
+        original_amount = p_original_amount,
+        original_currency = p_original_currency
+    WHERE id = p_id
+    RETURNING * INTO v_new;
+  END IF;
+
+  -- Apply the new transaction effect
+  UPDATE public.banks
+  SET balance = COALESCE(balance, 0)
+    + CASE WHEN v_new.type = 'income' THEN v_new.amount ELSE -v_new.amount END
+  WHERE id = v_new.bank_id;
+
+  RETURN v_new.id;
+END;
+$function$;
+
+DROP FUNCTION IF EXISTS public.save_transfer(UUID, UUID, DECIMAL, DATE, TEXT, UUID, BOOLEAN, DECIMAL);
+
+CREATE OR REPLACE FUNCTION public.save_transfer(
+  p_from_bank_id UUID,
+  p_to_bank_id UUID,
+  p_amount DECIMAL(15, 2),
+  p_date DATE,
+  p_notes TEXT DEFAULT NULL,
+  p_id UUID DEFAULT NULL,
+  p_is_card_payment BOOLEAN DEFAULT false,
+  p_to_amount DECIMAL(15, 2) DEFAULT NULL,
+  p_new_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_old public.transfers;
+  v_bank_count INTEGER;
+  v_transfer_id UUID;
+  v_from_currency TEXT;
+  v_to_currency TEXT;
+  v_to_amount DECIMAL(15, 2);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_from_bank_id = p_to_bank_id THEN
+    RAISE EXCEPTION 'Cannot transfer to the same account';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero';
+  END IF;
+
+  IF p_id IS NOT NULL THEN
+    SELECT * INTO v_old
+    FROM public.transfers
+    WHERE id = p_id AND user_id = v_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Transfer not found';
+    END IF;
+  END IF;
+
+  -- Lock every bank involved (old and new) in a stable order to avoid deadlocks
+  PERFORM 1
+  FROM public.banks
+  WHERE user_id = v_user_id
+    AND id IN (p_from_bank_id, p_to_bank_id, v_old.from_bank_id, v_old.to_bank_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT count(*) INTO v_bank_count
+  FROM public.banks
+  WHERE user_id = v_user_id AND id IN (p_from_bank_id, p_to_bank_id);
+
+  IF v_bank_count <> 2 THEN
+    RAISE EXCEPTION 'Bank account not found';
+  END IF;
+
+  SELECT currency INTO v_from_currency FROM public.banks WHERE id = p_from_bank_id;
+  SELECT currency INTO v_to_currency FROM public.banks WHERE id = p_to_bank_id;
+
+  -- Between currencies both sides of the exchange are recorded; otherwise they are the same amount
+  IF v_from_currency <> v_to_currency THEN
+    IF p_to_amount IS NULL OR p_to_amount <= 0 THEN
+      RAISE EXCEPTION 'Enter the amount received in %', v_to_currency;
+    END IF;
+    v_to_amount := p_to_amount;
+  END IF;
+
+  -- A bill is paid into a credit card from an account holding money, not from another card or loan
+  IF COALESCE(p_is_card_payment, false) THEN
+    IF NOT EXISTS (SELECT 1 FROM public.banks WHERE id = p_to_bank_id AND account_type = 'credit_card') THEN
+      RAISE EXCEPTION 'A card bill payment must go to a credit card';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.banks WHERE id = p_from_bank_id AND account_type IN ('credit_card', 'loan')) THEN
+      RAISE EXCEPTION 'A card bill payment must come from a bank, cash or investment account';
+    END IF;
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO public.transfers (
+      id, user_id, from_bank_id, to_bank_id, amount, to_amount, date, notes, is_card_payment
+    )
+    VALUES (
+      COALESCE(p_new_id, gen_random_uuid()), v_user_id, p_from_bank_id, p_to_bank_id, p_amount, v_to_amount, p_date,
+      p_notes, COALESCE(p_is_card_payment, false)
+    )
+    ON CONFLICT (id) DO NOTHING
+    RETURNING id INTO v_transfer_id;
+
+    -- Already saved by an earlier attempt whose response never arrived
+    IF NOT FOUND THEN
+      RETURN p_new_id;
+    END IF;
+  ELSE
+    -- Reverse the old transfer's balance changes
+    UPDATE public.banks SET balance = COALESCE(balance, 0) + v_old.amount WHERE id = v_old.from_bank_id;
+    UPDATE public.banks SET balance = COALESCE(balance, 0) - COALESCE(v_old.to_amount, v_old.amount) WHERE id = v_old.to_bank_id;
+
+    UPDATE public.transfers
+    SET from_bank_id = p_from_bank_id,
+        to_bank_id = p_to_bank_id,
+        amount = p_amount,
+        to_amount = v_to_amount,
+        date = p_date,
+        notes = p_notes,
+        is_card_payment = COALESCE(p_is_card_payment, false)
+    WHERE id = p_id
+    RETURNING id INTO v_transfer_id;
+  END IF;
+
+  -- Apply the new transfer's balance changes
+  UPDATE public.banks SET balance = COALESCE(balance, 0) - p_amount WHERE id = p_from_bank_id;
+  UPDATE public.banks SET balance = COALESCE(balance, 0) + COALESCE(v_to_amount, p_amount) WHERE id = p_to_bank_id;
+
+  RETURN v_transfer_id;
+END;
+$function$;
+
+DROP FUNCTION IF EXISTS public.save_credit(TEXT, DECIMAL, TEXT, DATE, TEXT, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION public.save_credit(
+  p_person_name TEXT,
+  p_amount DECIMAL(15, 2),
+  p_type TEXT,
+  p_date DATE,
+  p_description TEXT DEFAULT NULL,
+  p_bank_id UUID DEFAULT NULL,
+  p_id UUID DEFAULT NULL,
+  p_new_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_id UUID;
+  v_transaction_id UUID;
+  v_transaction_type TEXT := CASE WHEN p_type = 'owe_me' THEN 'expense' ELSE 'income' END;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO public.credits (id, user_id, person_name, amount, type, description, date)
+    VALUES (COALESCE(p_new_id, gen_random_uuid()), v_user_id, p_person_name, p_amount, p_type, p_description, p_date)
+    ON CONFLICT (id) DO NOTHING
+    RETURNING id INTO v_id;
+
+    -- Already saved by an earlier attempt whose response never arrived
+    IF v_id IS NULL THEN
+      RETURN p_new_id;
+    END IF;
+  ELSE
+    UPDATE public.credits
+    SET person_name = p_person_name,
+        amount = p_amount,
+        type = p_type,
+        description = p_description,
+        date = p_date
+    WHERE id = p_id AND user_id = v_user_id
+    RETURNING id INTO v_id;
+
+    IF v_id IS NULL THEN
+      RAISE EXCEPTION 'Credit not found';
+    END IF;
+
+    SELECT id INTO v_transaction_id
+    FROM public.transactions
+    WHERE credit_id = v_id AND credit_payment_id IS NULL;
+  END IF;
+
+  IF p_bank_id IS NOT NULL THEN
+    v_transaction_id := public.save_transaction(
+      p_bank_id, v_transaction_type, p_amount, p_date,
+      public.ensure_credit_category(v_user_id, v_transaction_type),
+      p_description, p_person_name, v_transaction_id
+    );
+    UPDATE public.transactions SET credit_id = v_id WHERE id = v_transaction_id;
+  ELSIF v_transaction_id IS NOT NULL THEN
+    PERFORM public.delete_transaction(v_transaction_id);
+  END IF;
+
+  RETURN v_id;
+END;
+$function$;
+
+DROP FUNCTION IF EXISTS public.save_split_expense(UUID, DECIMAL, DATE, TEXT, DECIMAL, JSONB, TEXT);
+
+CREATE OR REPLACE FUNCTION public.save_split_expense(
+  p_bank_id UUID,
+  p_amount DECIMAL(15, 2),
+  p_date DATE,
+  p_category TEXT,
+  p_own_share DECIMAL(15, 2),
+  p_shares JSONB,
+  p_notes TEXT DEFAULT NULL,
+  p_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_share RECORD;
+  v_transaction_id UUID;
+  v_credit_id UUID;
+  v_credit_new_id UUID;
+  v_description TEXT := 'Share of ' || p_category || COALESCE(' - ' || NULLIF(btrim(p_notes), ''), '');
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_shares) IS DISTINCT FROM 'array' OR jsonb_array_length(p_shares) = 0 THEN
+    RAISE EXCEPTION 'Add at least one person to split with';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_shares) AS s(person_name TEXT, amount DECIMAL(15, 2))
+    WHERE s.person_name IS NULL OR btrim(s.person_name) = '' OR s.amount IS NULL OR s.amount <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every person in the split needs a name and a share greater than zero';
+  END IF;
+
+  IF p_own_share IS NULL OR p_own_share < 0 THEN
+    RAISE EXCEPTION 'Your own share cannot be negative';
+  END IF;
+
+  IF p_own_share + (
+    SELECT SUM(s.amount) FROM jsonb_to_recordset(p_shares) AS s(amount DECIMAL(15, 2))
+  ) <> p_amount THEN
+    RAISE EXCEPTION 'The shares must add up to the total of %', p_amount;
+  END IF;
+
+  -- p_id becomes the id of the split's own expense, or of the first person's credit when there is
+  -- none, so a replayed split finds it and stops. Attempts at the same split wait for each other here
+  IF p_id IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('save_split_expense:' || p_id));
+
+    IF EXISTS (SELECT 1 FROM public.transactions WHERE id = p_id AND user_id = v_user_id)
+      OR EXISTS (SELECT 1 FROM public.credits WHERE id = p_id AND user_id = v_user_id) THEN
+      RETURN CASE WHEN p_own_share > 0 THEN p_id END;
+    END IF;
+  END IF;
+
+  IF p_own_share > 0 THEN
+    v_transaction_id := public.save_transaction(
+      p_bank_id, 'expense', p_own_share, p_date, p_category, p_notes, p_new_id => p_id
+    );
+  END IF;
+
+  IF v_transaction_id IS NULL THEN
+    v_credit_new_id := p_id;
+  END IF;
+
+  FOR v_share IN
+    SELECT s.person_name, s.amount
+    FROM jsonb_to_recordset(p_shares) AS s(person_name TEXT, amount DECIMAL(15, 2))
+  LOOP
+    v_credit_id := public.save_credit(
+      v_share.person_name, v_share.amount, 'owe_me', p_date, v_description, p_bank_id,
+      p_new_id => v_credit_new_id
+    );
+    v_credit_new_id := NULL;
+    UPDATE public.credits SET split_transaction_id = v_transaction_id WHERE id = v_credit_id;
+  END LOOP;
+
+  RETURN v_transaction_id;
+END;
+$function$;
@@ -0,0 +1,133 @@
+-- Editing a transaction that a credit or repayment created now changes the credit or repayment
+-- to match, so the two don't drift apart
+CREATE POLICY "Users can update their own credit payments"
+  ON public.credit_payments FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.save_transaction(
+  p_bank_id UUID,
+  p_type TEXT,
+  p_amount DECIMAL(15, 2),
+  p_date DATE,
+  p_category TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_person_name TEXT DEFAULT NULL,
+  p_id UUID DEFAULT NULL,
+  p_original_amount DECIMAL(15, 2) DEFAULT NULL,
+  p_original_currency TEXT DEFAULT NULL,
+  p_new_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_old public.transactions;
+  v_new public.transactions;
+  v_currency TEXT;
+  v_outstanding DECIMAL(15, 2);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_type NOT IN ('income', 'expense') THEN
+    RAISE EXCEPTION 'Invalid transaction type: %', p_type;
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero';
+  END IF;
+
+  -- Lock the target bank row so concurrent writers queue up behind us
+  SELECT currency INTO v_currency FROM public.banks WHERE id = p_bank_id AND user_id = v_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank account not found';
+  END IF;
+
+  -- An original amount in the account's own currency says nothing the amount doesn't
+  IF p_original_currency = v_currency THEN
+    p_original_amount := NULL;
+    p_original_currency := NULL;
+  ELSIF (p_original_amount IS NULL) <> (p_original_currency IS NULL) THEN
+    RAISE EXCEPTION 'Enter both the original amount and its currency';
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO public.transactions (
+      id, user_id, bank_id, type, amount, date, category, notes, person_name, original_amount, original_currency
+    )
+    VALUES (
+      COALESCE(p_new_id, gen_random_uuid()), v_user_id, p_bank_id, p_type, p_amount, p_date, p_category, p_notes,
+      p_person_name, p_original_amount, p_original_currency
+    )
+    ON CONFLICT (id) DO NOTHING
+    RETURNING * INTO v_new;
+
+    -- Already saved by an earlier attempt whose response never arrived
+    IF NOT FOUND THEN
+      RETURN p_new_id;
+    END IF;
+  ELSE
+    SELECT * INTO v_old
+    FROM public.transactions
+    WHERE id = p_id AND user_id = v_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Transaction not found';
+    END IF;
+
+    -- Reverse the old transaction effect on the bank it was recorded against
+    UPDATE public.banks
+    SET balance = COALESCE(balance, 0)
+      - CASE WHEN v_old.type = 'income' THEN v_old.amount ELSE -v_old.amount END
+    WHERE id = v_old.bank_id;
+
+    UPDATE public.transactions
+    SET bank_id = p_bank_id,
+        type = p_type,
+        amount = p_amount,
+        date = p_date,
+        category = p_category,
+        notes = p_notes,
+        person_name = p_person_name,
+        original_amount = p_original_amount,
+        original_currency = p_original_currency
+    WHERE id = p_id
+    RETURNING * INTO v_new;
+
+    -- A credit or repayment takes its amount and date from the transaction it created
+    IF v_old.credit_payment_id IS NOT NULL THEN
+      SELECT amount INTO v_outstanding FROM public.credits WHERE id = v_old.credit_id FOR UPDATE;
+      v_outstanding := v_outstanding - (
+        SELECT COALESCE(SUM(amount), 0)
+        FROM public.credit_payments
+        WHERE credit_id = v_old.credit_id AND id <> v_old.credit_payment_id
+      );
+
+      IF p_amount > v_outstanding THEN
+        RAISE EXCEPTION 'Payment of % exceeds the outstanding balance of %', p_amount, v_outstanding;
+      END IF;
+
+      UPDATE public.credit_payments
+      SET amount = p_amount, date = p_date
+      WHERE id = v_old.credit_payment_id;
+    ELSIF v_old.credit_id IS NOT NULL THEN
+      UPDATE public.credits
+      SET amount = p_amount, date = p_date
+      WHERE id = v_old.credit_id;
+    END IF;
+  END IF;
+
+  -- Apply the new transaction effect
+  UPDATE public.banks
+  SET balance = COALESCE(balance, 0)
+    + CASE WHEN v_new.type = 'income' THEN v_new.amount ELSE -v_new.amount END
+  WHERE id = v_new.bank_id;
+
+  RETURN v_new.id;
+END;
+$function$;
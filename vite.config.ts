@@ -1,15 +1,28 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Lists the built assets so the service worker can cache them when it installs. The page that
+// registers it loaded them before it existed, so it never sees those requests
+const precacheManifest = (): Plugin => ({
+  name: "precache-manifest",
+  apply: "build",
+  generateBundle(_options, bundle) {
+    const files = Object.keys(bundle)
+      .filter((fileName) => fileName.startsWith("assets/") && !fileName.endsWith(".map"))
+      .map((fileName) => `/${fileName}`);
+    this.emitFile({ type: "asset", fileName: "precache-manifest.json", source: JSON.stringify(files) });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), precacheManifest(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),